@@ -0,0 +1,155 @@
+// Types
+import type { ApiClient, ApiClientErrorResultDetails, ApiClientOptions, ApiRequestOptions, HttpMethod } from './api.types';
+import type { AsyncResultChain } from '../results/async-result-chain';
+import type { ErrorResult } from '../results/error-result';
+import type { OkResult } from '../results/ok-result';
+import type { Result } from '../results/result.types';
+
+// Factories
+import { ResultFactory } from '../results/result.factory';
+
+// Utilities
+import { ApiUtils } from './api.utilities';
+import { HttpStatusCodeUtils } from './http-status-code.utilities';
+import { LOG } from '../logging/logging.utilities';
+import { LogPropertiesUtils } from '../logging/log-properties.utilities';
+import { getRequestContext } from '../logging/request-context';
+import { ObjectUtils } from '../objects/object.utilities';
+
+const classContext = 'ApiClient';
+const defaultCorrelationIdHeaderName = 'x-correlation-id';
+const defaultAcceptHeader = 'application/json, application/problem+json';
+
+/**
+ * A fetched HTTP response together with its (fully read) body.
+ */
+type FetchedResponse = {
+  response: Response;
+  bodyText: string;
+};
+
+/**
+ * Creates a typed HTTP client (built on `fetch`) that returns Result Pattern results instead of throwing:
+ * - 2xx responses are ok results with the parsed JSON (or text) body, or undefined when there is no body,
+ * - other responses are `ApiErrorResult`s with RFC 9457 problem details (normalized from RFC 9457, NestJS and ASP.NET bodies, or synthesised for any other body),
+ *   which are logged at the Error level for 5xx responses,
+ * - network failures, unserializable request bodies and unreadable response bodies are `TechnicalErrorResult`s (logged at the Error level),
+ * - timeouts and cancellations are `TimeoutErrorResult`s and `CancelledErrorResult`s (as per `Result.tryCatchAsync()`).
+ *
+ * The `correlationId` of the request's log properties (or else of the ambient request context, see `runWithContext()`) is sent in
+ * the `x-correlation-id` header (or `options.correlationIdHeaderName`).
+ * @example
+ * ```typescript
+ * const api = createApiClient({ baseUrl: 'https://api.example.com/v1', timeoutMs: 5000 });
+ * const result = await api.get<User>(`/users/${id}`, { logProperties });
+ * ```
+ */
+export function createApiClient(clientOptions: ApiClientOptions): ApiClient {
+  const correlationIdHeaderName = clientOptions.correlationIdHeaderName ?? defaultCorrelationIdHeaderName;
+
+  const request = <TOkValue>(method: HttpMethod, path: string, options: ApiRequestOptions): AsyncResultChain<TOkValue, ApiClientErrorResultDetails> => {
+    const { logProperties } = options;
+    const url = buildUrl(clientOptions.baseUrl, path, options.query);
+
+    // NOTE: The headers are merged with `Headers` so that header names are case-insensitive (e.g. `Content-Type` replaces the default `content-type`).
+    const headers = new Headers({ accept: defaultAcceptHeader });
+    for (const [name, value] of [...Object.entries(clientOptions.headers ?? {}), ...Object.entries(options.headers ?? {})]) {
+      headers.set(name, value);
+    }
+    const correlationId = logProperties.correlationId ?? getRequestContext()?.correlationId;
+    if (correlationId) {
+      headers.set(correlationIdHeaderName, correlationId);
+    }
+
+    const hasBody = !ObjectUtils.isTypeOfUndefined(options.body);
+    if (hasBody && !headers.has('content-type')) {
+      headers.set('content-type', 'application/json');
+    }
+    const isJsonBody = hasBody && (headers.get('content-type') ?? '').includes('json');
+
+    const fetchResponse = async (signal: AbortSignal): Promise<FetchedResponse> => {
+      // NOTE: The body is serialized here so that an unserializable body (e.g. with a BigInt or a circular reference) is returned as a TechnicalErrorResult.
+      const body = isJsonBody ? JSON.stringify(options.body) : (options.body as RequestInit['body']) ?? null;
+      const fetchFn = clientOptions.fetch ?? fetch;
+      const response = await fetchFn(url, { method, headers, body, signal });
+      const bodyText = await response.text();
+      return { response, bodyText };
+    };
+
+    return ResultFactory.tryCatchAsync(
+      fetchResponse,
+      (err) => ResultFactory.technicalError(logProperties, options.errorCode, err, `${method} ${url}`),
+      { timeoutMs: options.timeoutMs ?? clientOptions.timeoutMs, signal: options.signal, logProperties, errorCode: options.errorCode },
+    ).andThenNoCatch((fetched) => toResult<TOkValue>(method, url, fetched, options) as Result<TOkValue, ApiClientErrorResultDetails>);
+  };
+
+  return {
+    request,
+    get: (path, options) => request('GET', path, options),
+    post: (path, options) => request('POST', path, options),
+    put: (path, options) => request('PUT', path, options),
+    patch: (path, options) => request('PATCH', path, options),
+    delete: (path, options) => request('DELETE', path, options),
+  };
+}
+
+/**
+ * @returns the URL of the given path relative to the base URL, with the given (defined) query string parameters.
+ */
+function buildUrl(baseUrl: string, path: string, query: ApiRequestOptions['query']): string {
+  const url = `${baseUrl.replace(/\/+$/, '')}/${path.replace(/^\/+/, '')}`;
+  if (!query) {
+    return url;
+  }
+
+  const searchParams = new URLSearchParams();
+  for (const [name, value] of Object.entries(query)) {
+    if (!ObjectUtils.isTypeOfUndefined(value)) {
+      searchParams.append(name, String(value));
+    }
+  }
+
+  const queryString = searchParams.toString();
+  if (!queryString) {
+    return url;
+  }
+  return `${url}${url.includes('?') ? '&' : '?'}${queryString}`;
+}
+
+/**
+ * Converts a fetched HTTP response into a Result Pattern `Result`.
+ */
+function toResult<TOkValue>(
+  method: HttpMethod,
+  url: string,
+  { response, bodyText }: FetchedResponse,
+  options: ApiRequestOptions
+): OkResult<TOkValue> | ErrorResult<ApiClientErrorResultDetails> {
+  const { logProperties, errorCode } = options;
+  const contextPrefix = `${classContext} - ${method}`;
+  const amendedOptions = LogPropertiesUtils.withContextPrefix(logProperties, contextPrefix);
+  LOG.debug(amendedOptions, `${method} ${url} - ${response.status}`);
+
+  if (!response.ok) {
+    const problemDetails = ApiUtils.toProblemDetails(response.status, response.statusText, bodyText);
+    return ResultFactory.apiError(
+      { context: logProperties.context, correlationId: logProperties.correlationId, errorCode, log: HttpStatusCodeUtils.isServerError(response.status) },
+      problemDetails
+    );
+  }
+
+  if (!bodyText) {
+    return ResultFactory.ok(undefined as TOkValue);
+  }
+
+  const contentType = response.headers.get('content-type') ?? '';
+  if (!contentType.includes('json')) {
+    return ResultFactory.ok(bodyText as TOkValue);
+  }
+
+  try {
+    return ResultFactory.ok(JSON.parse(bodyText) as TOkValue);
+  } catch (err: unknown) {
+    return ResultFactory.technicalError(logProperties, errorCode, err, `${method} ${url} - the response body is not valid JSON`);
+  }
+}
@@ -1,4 +1,15 @@
-import type { HttpApiProblemDetails } from "./http.ietf.types";
+import type { AnyErrorResultDetailsDiscriminantTag } from "../results/error-result-details.types";
+import type { AbstractErrorResultDetails } from "../results/error-result-details/abstract-error-result-details";
+import type { AsyncResultChain } from "../results/async-result-chain";
+import type { ErrorResult } from "../results/error-result";
+import type { ApiErrorResultDetails } from "../results/error-result-details/api-error-result-details";
+import type { CancelledErrorResultDetails } from "../results/error-result-details/cancelled-error-result-details";
+import type { TechnicalErrorResultDetails } from "../results/error-result-details/technical-error-result-details";
+import type { TimeoutErrorResultDetails } from "../results/error-result-details/timeout-error-result-details";
+import type { AspNetValidationProblemDetails } from "./http.aspnet.types";
+import type { HttpApiProblemDetails, HttpStatusCode } from "./http.ietf.types";
+import type { NestJSHttpErrorResponse } from "./http.nestjs.types";
+import type { StandardLogPropertiesCore } from "../logging/logging.types";
 
 /**
  * The standard API error response type to use for all API responses in your application.
@@ -11,3 +22,159 @@ export type StandardApiErrorResponse = HttpApiProblemDetails;
 // };
 // export type StandardApiErrorResponse = AspNetValidationProblemDetails;
 // export type StandardApiErrorResponse = NestJSHttpErrorResponse;
+
+/**
+ * An API error response from any of the supported backends, which is normalized into the standard API error response
+ * (see `ApiUtils.normalizeApiErrorResponse()`).
+ */
+export type AnyApiErrorResponse = StandardApiErrorResponse | AspNetValidationProblemDetails | NestJSHttpErrorResponse;
+
+/**
+ * The HTTP methods supported by the `ApiClient`.
+ */
+export type HttpMethod = 'GET' | 'HEAD' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+/**
+ * The error details of a result returned by the `ApiClient`:
+ * - `ApiErrorResultDetails` for a non-2xx response,
+ * - `TechnicalErrorResultDetails` for a network failure or an unreadable response body,
+ * - `TimeoutErrorResultDetails` / `CancelledErrorResultDetails` when the request timed out or was cancelled.
+ */
+export type ApiClientErrorResultDetails = ApiErrorResultDetails | TechnicalErrorResultDetails | TimeoutErrorResultDetails | CancelledErrorResultDetails;
+
+/**
+ * Options for creating an `ApiClient` (see `createApiClient()`).
+ */
+export type ApiClientOptions = {
+  /**
+   * The base URL that request paths are appended to (e.g. `https://api.example.com/v1`).
+   */
+  baseUrl: string;
+
+  /**
+   * Headers to send with every request (header names are case-insensitive).
+   */
+  headers?: Record<string, string> | undefined;
+
+  /**
+   * The name of the request header to send the `correlationId` of the log properties in (defaults to `x-correlation-id`).
+   */
+  correlationIdHeaderName?: string | undefined;
+
+  /**
+   * The default timeout (in milliseconds) of every request.
+   */
+  timeoutMs?: number | undefined;
+
+  /**
+   * The `fetch` implementation to use (defaults to the global `fetch`).
+   */
+  fetch?: typeof fetch | undefined;
+};
+
+/**
+ * Options for a single `ApiClient` request.
+ */
+export type ApiRequestOptions = {
+  /**
+   * The log properties to use when logging, and for the context and correlation ID of any error result.
+   */
+  logProperties: StandardLogPropertiesCore;
+
+  /**
+   * The error code of any error result.
+   */
+  errorCode?: string | undefined;
+
+  /**
+   * Query string parameters to append to the URL (undefined values are skipped).
+   */
+  query?: Record<string, string | number | boolean | undefined> | undefined;
+
+  /**
+   * Headers to send with the request (in addition to the client's headers, which they replace regardless of the case of the header names).
+   */
+  headers?: Record<string, string> | undefined;
+
+  /**
+   * The request body, which is sent as JSON (unless a `content-type` header that is not JSON is given, in which case it is sent as-is, e.g. a string or `URLSearchParams`).
+   */
+  body?: unknown;
+
+  /**
+   * The timeout (in milliseconds) of the request (overrides the client's timeout).
+   */
+  timeoutMs?: number | undefined;
+
+  /**
+   * The signal that, when aborted, cancels the request.
+   */
+  signal?: AbortSignal | undefined;
+};
+
+/**
+ * A typed HTTP client (built on `fetch`) that returns Result Pattern results instead of throwing.
+ * Ok values are the parsed JSON (or text) response body, or undefined when the response has no body.
+ */
+export type ApiClient = {
+  request<TOkValue>(method: HttpMethod, path: string, options: ApiRequestOptions): AsyncResultChain<TOkValue, ApiClientErrorResultDetails>;
+  get<TOkValue>(path: string, options: ApiRequestOptions): AsyncResultChain<TOkValue, ApiClientErrorResultDetails>;
+  post<TOkValue>(path: string, options: ApiRequestOptions): AsyncResultChain<TOkValue, ApiClientErrorResultDetails>;
+  put<TOkValue>(path: string, options: ApiRequestOptions): AsyncResultChain<TOkValue, ApiClientErrorResultDetails>;
+  patch<TOkValue>(path: string, options: ApiRequestOptions): AsyncResultChain<TOkValue, ApiClientErrorResultDetails>;
+  delete<TOkValue>(path: string, options: ApiRequestOptions): AsyncResultChain<TOkValue, ApiClientErrorResultDetails>;
+};
+
+/**
+ * An HTTP error response (status code and RFC 9457 problem details body) created from an `ErrorResult` (see `createProblemDetailsMapper()`).
+ */
+export type ProblemDetailsResponse = {
+  status: HttpStatusCode;
+  body: StandardApiErrorResponse;
+};
+
+/**
+ * Overrides of the problem details of an error response.
+ */
+export type ProblemDetailsOverride = {
+  /**
+   * The problem type URI (instead of the mapper's default type).
+   */
+  type?: string | undefined;
+
+  /**
+   * The title (instead of the title of the status code).
+   */
+  title?: string | undefined;
+
+  /**
+   * The status code (instead of the status code of the error result details type).
+   */
+  status?: HttpStatusCode | undefined;
+};
+
+/**
+ * Options for creating a problem details mapper (see `createProblemDetailsMapper()`).
+ */
+export type ProblemDetailsMapperOptions = {
+  /**
+   * The problem type URI to use when there is no `errorCodes` override (defaults to `about:blank`).
+   */
+  defaultType?: string | undefined;
+
+  /**
+   * The status codes to use for each error result details discriminant tag (instead of the defaults),
+   * e.g. `{ ShortCircuitedError: HttpStatusCode.Conflict409 }`.
+   */
+  statusCodes?: Partial<Record<AnyErrorResultDetailsDiscriminantTag, HttpStatusCode>> | undefined;
+
+  /**
+   * The problem details overrides for each error code.
+   */
+  errorCodes?: Record<string, ProblemDetailsOverride> | undefined;
+};
+
+/**
+ * Maps an `ErrorResult` (or its error details) into an HTTP error response.
+ */
+export type ProblemDetailsMapper = (errorResultOrDetails: ErrorResult<AbstractErrorResultDetails> | AbstractErrorResultDetails) => ProblemDetailsResponse;
@@ -0,0 +1,179 @@
+// Types
+import type { AnyApiErrorResponse, StandardApiErrorResponse } from './api.types';
+import type { AspNetValidationProblemDetails } from './http.aspnet.types';
+import type { HttpApiProblemDetails, HttpStatusCode } from './http.ietf.types';
+import type { NestJSHttpErrorResponse } from './http.nestjs.types';
+
+// Utilities
+import { ErrorUtils } from '../errors/error.utilities';
+import { HttpStatusCodeUtils } from './http-status-code.utilities';
+import { ObjectUtils } from '../objects/object.utilities';
+import { StringUtils } from '../string.utilities';
+
+const maxSynthesisedDetailLength = 500;
+
+/**
+ * API-related utility functions.
+ */
+export abstract class ApiUtils {
+  /**
+   * @returns true if the value looks like RFC 9457 problem details (an object with at least one correctly typed problem details member).
+   */
+  static isProblemDetails(value: unknown): value is HttpApiProblemDetails {
+    if (!ObjectUtils.isTypeOfObject(value) || Array.isArray(value)) {
+      return false;
+    }
+
+    const { type, title, status, detail, instance } = value as Record<string, unknown>;
+    const stringMembers = [type, title, detail, instance];
+    if (stringMembers.some((member) => !ObjectUtils.isTypeOfUndefined(member) && !StringUtils.isString(member))) {
+      return false;
+    }
+    if (!ObjectUtils.isTypeOfUndefined(status) && typeof status !== 'number') {
+      return false;
+    }
+
+    return [...stringMembers, status].some((member) => !ObjectUtils.isTypeOfUndefined(member));
+  }
+
+  /**
+   * @returns true if the value has the shape of a NestJS error response (a numeric `statusCode` and a `message`).
+   */
+  static isNestJSHttpErrorResponse(value: unknown): value is NestJSHttpErrorResponse {
+    if (!ObjectUtils.isTypeOfObject(value) || Array.isArray(value)) {
+      return false;
+    }
+
+    const { statusCode, message, error } = value as Record<string, unknown>;
+    const isMessage = StringUtils.isString(message)
+      || typeof message === 'number'
+      || (Array.isArray(message) && message.every((item) => StringUtils.isString(item)));
+    return typeof statusCode === 'number' && isMessage && (ObjectUtils.isTypeOfUndefined(error) || StringUtils.isString(error));
+  }
+
+  /**
+   * @returns true if the value has the shape of ASP.NET validation problem details (problem details with `errors` of messages keyed by field).
+   */
+  static isAspNetValidationProblemDetails(value: unknown): value is AspNetValidationProblemDetails & Required<Pick<AspNetValidationProblemDetails, 'errors'>> {
+    if (!ApiUtils.isProblemDetails(value)) {
+      return false;
+    }
+
+    const { errors } = value as Record<string, unknown>;
+    return ObjectUtils.isTypeOfObject(errors)
+      && !Array.isArray(errors)
+      && Object.values(errors).every((messages) => Array.isArray(messages) && messages.every((message) => StringUtils.isString(message)));
+  }
+
+  /**
+   * Converts a NestJS error response into problem details.
+   * The `error` (e.g. `Bad Request`, or else the reason phrase of the status code) is the title, and the `message` is the detail (validation messages are joined with `; `).
+   */
+  static fromNestJSHttpErrorResponse(errorResponse: NestJSHttpErrorResponse): HttpApiProblemDetails {
+    const { statusCode, message, error } = errorResponse;
+    const detail = Array.isArray(message) ? message.join('; ') : String(message);
+    return {
+      type: 'about:blank',
+      title: error ?? HttpStatusCodeUtils.getReasonPhrase(statusCode) ?? `HTTP ${statusCode}`,
+      status: statusCode,
+      detail,
+    };
+  }
+
+  /**
+   * Converts ASP.NET validation problem details into problem details (keeping the `errors`).
+   * If there is no detail, it is formatted from the `errors` (e.g. `email: Email is invalid; name: Name is required`).
+   */
+  static fromAspNetValidationProblemDetails(problemDetails: AspNetValidationProblemDetails): AspNetValidationProblemDetails {
+    const normalizedProblemDetails: AspNetValidationProblemDetails = { ...problemDetails };
+    if (problemDetails.errors) {
+      normalizedProblemDetails.errors = Object.fromEntries(
+        Object.entries(problemDetails.errors).map(([fieldPath, messages]) => [fieldPath, [...messages]])
+      );
+
+      if (!problemDetails.detail) {
+        const detail = Object.entries(problemDetails.errors)
+          .map(([fieldPath, messages]) => fieldPath ? `${fieldPath}: ${messages.join('; ')}` : messages.join('; '))
+          .join('; ');
+        if (detail) {
+          normalizedProblemDetails.detail = detail;
+        }
+      }
+    }
+    return normalizedProblemDetails;
+  }
+
+  /**
+   * Normalizes an API error response of any of the supported backends into the standard API error response, auto-detected from its shape:
+   * NestJS error responses (see `fromNestJSHttpErrorResponse()`), ASP.NET validation problem details (see `fromAspNetValidationProblemDetails()`),
+   * or RFC 9457 problem details (which are used as-is).
+   */
+  static normalizeApiErrorResponse(errorResponse: AnyApiErrorResponse): StandardApiErrorResponse {
+    if (ApiUtils.isNestJSHttpErrorResponse(errorResponse)) {
+      return ApiUtils.fromNestJSHttpErrorResponse(errorResponse);
+    }
+
+    if (ApiUtils.isAspNetValidationProblemDetails(errorResponse)) {
+      return ApiUtils.fromAspNetValidationProblemDetails(errorResponse);
+    }
+
+    return errorResponse;
+  }
+
+  /**
+   * Converts the body of a failed HTTP response into problem details.
+   * NestJS, ASP.NET and RFC 9457 bodies are normalized (see `normalizeApiErrorResponse()`, defaulting the status to the response status);
+   * any other body is synthesised into `about:blank` problem details with the status text as the title and the (truncated) body as the detail.
+   */
+  static toProblemDetails(status: number, statusText: string, bodyText: string): HttpApiProblemDetails {
+    const json = ApiUtils._tryParseJson(bodyText);
+    const isKnownShape = ApiUtils.isNestJSHttpErrorResponse(json) || ApiUtils.isProblemDetails(json);
+    return ApiUtils.toStandardApiErrorResponse(isKnownShape ? json : bodyText, status, statusText);
+  }
+
+  /**
+   * Converts an unknown API error body (e.g. the parsed body of a failed response, or an error caught from an HTTP library) into problem details.
+   * Bodies of a known shape are normalized (see `normalizeApiErrorResponse()`); anything else is synthesised into
+   * `about:blank` problem details with the given status and the body as the detail.
+   */
+  static toStandardApiErrorResponse(errorBody: unknown, status: number, statusText = ''): StandardApiErrorResponse {
+    if (ApiUtils.isNestJSHttpErrorResponse(errorBody) || ApiUtils.isProblemDetails(errorBody)) {
+      const problemDetails = ApiUtils.normalizeApiErrorResponse(errorBody);
+      return { ...problemDetails, status: problemDetails.status ?? status as HttpStatusCode };
+    }
+
+    const detail = ObjectUtils.isNullOrUndefined(errorBody) ? undefined : ErrorUtils.toErrorString(errorBody);
+    return ApiUtils.createProblemDetails(status, statusText, detail);
+  }
+
+  /**
+   * Creates `about:blank` problem details for the given status (with the status text, the reason phrase of the status, or `HTTP <status>` as the title).
+   */
+  static createProblemDetails(status: number, statusText: string, detail?: string): HttpApiProblemDetails {
+    const problemDetails: HttpApiProblemDetails = {
+      type: 'about:blank',
+      title: statusText || (HttpStatusCodeUtils.getReasonPhrase(status) ?? `HTTP ${status}`),
+      status: status as HttpStatusCode,
+    };
+
+    const trimmedDetail = detail?.trim();
+    if (trimmedDetail) {
+      problemDetails.detail = trimmedDetail.length > maxSynthesisedDetailLength
+        ? `${trimmedDetail.slice(0, maxSynthesisedDetailLength)}...`
+        : trimmedDetail;
+    }
+
+    return problemDetails;
+  }
+
+  /**
+   * @returns the parsed JSON, or undefined if the text is not valid JSON.
+   */
+  private static _tryParseJson(text: string): unknown {
+    try {
+      return JSON.parse(text);
+    } catch {
+      return undefined;
+    }
+  }
+}
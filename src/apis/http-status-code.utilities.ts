@@ -0,0 +1,153 @@
+// Types
+import { HttpStatusCode } from './http.ietf.types';
+
+/**
+ * The reason phrase of each status code (as per the IANA HTTP Status Code Registry).
+ */
+const reasonPhrases: Record<HttpStatusCode, string> = {
+  [HttpStatusCode.Continue100]: 'Continue',
+  [HttpStatusCode.SwitchingProtocols101]: 'Switching Protocols',
+  [HttpStatusCode.Processing102]: 'Processing',
+  [HttpStatusCode.EarlyHints103]: 'Early Hints',
+  [HttpStatusCode.Ok200]: 'OK',
+  [HttpStatusCode.Created201]: 'Created',
+  [HttpStatusCode.Accepted202]: 'Accepted',
+  [HttpStatusCode.NonAuthoritativeInformation203]: 'Non-Authoritative Information',
+  [HttpStatusCode.NoContent204]: 'No Content',
+  [HttpStatusCode.ResetContent205]: 'Reset Content',
+  [HttpStatusCode.PartialContent206]: 'Partial Content',
+  [HttpStatusCode.MultiStatus207]: 'Multi-Status',
+  [HttpStatusCode.AlreadyReported208]: 'Already Reported',
+  [HttpStatusCode.ImUsed226]: 'IM Used',
+  [HttpStatusCode.MultipleChoices300]: 'Multiple Choices',
+  [HttpStatusCode.MovedPermanently301]: 'Moved Permanently',
+  [HttpStatusCode.Found302]: 'Found',
+  [HttpStatusCode.SeeOther303]: 'See Other',
+  [HttpStatusCode.NotModified304]: 'Not Modified',
+  [HttpStatusCode.UseProxy305]: 'Use Proxy',
+  [HttpStatusCode.TemporaryRedirect307]: 'Temporary Redirect',
+  [HttpStatusCode.PermanentRedirect308]: 'Permanent Redirect',
+  [HttpStatusCode.BadInvalidRequest400]: 'Bad Request',
+  [HttpStatusCode.UnauthorizedAsInUnauthenticated401]: 'Unauthorized',
+  [HttpStatusCode.PaymentRequired402]: 'Payment Required',
+  [HttpStatusCode.ForbiddenAsInPermission403]: 'Forbidden',
+  [HttpStatusCode.NotFound404]: 'Not Found',
+  [HttpStatusCode.MethodNotAllowed405]: 'Method Not Allowed',
+  [HttpStatusCode.NotAcceptable406]: 'Not Acceptable',
+  [HttpStatusCode.ProxyAuthenticationRequired407]: 'Proxy Authentication Required',
+  [HttpStatusCode.RequestTimeout408]: 'Request Timeout',
+  [HttpStatusCode.Conflict409]: 'Conflict',
+  [HttpStatusCode.Gone410]: 'Gone',
+  [HttpStatusCode.LengthRequired411]: 'Length Required',
+  [HttpStatusCode.PreconditionFailed412]: 'Precondition Failed',
+  [HttpStatusCode.ContentTooLarge413]: 'Content Too Large',
+  [HttpStatusCode.UriTooLong414]: 'URI Too Long',
+  [HttpStatusCode.UnsupportedMediaType415]: 'Unsupported Media Type',
+  [HttpStatusCode.RangeNotSatisfiable416]: 'Range Not Satisfiable',
+  [HttpStatusCode.ExpectationFailed417]: 'Expectation Failed',
+  [HttpStatusCode.ImATeapot418]: "I'm a teapot",
+  [HttpStatusCode.MisdirectedRequest421]: 'Misdirected Request',
+  [HttpStatusCode.Unprocessable422]: 'Unprocessable Content',
+  [HttpStatusCode.Locked423]: 'Locked',
+  [HttpStatusCode.FailedDependency424]: 'Failed Dependency',
+  [HttpStatusCode.TooEarly425]: 'Too Early',
+  [HttpStatusCode.UpgradeRequired426]: 'Upgrade Required',
+  [HttpStatusCode.PreconditionRequired428]: 'Precondition Required',
+  [HttpStatusCode.TooManyRequests429]: 'Too Many Requests',
+  [HttpStatusCode.RequestHeaderFieldsTooLarge431]: 'Request Header Fields Too Large',
+  [HttpStatusCode.UnavailableForLegalReasons451]: 'Unavailable For Legal Reasons',
+  [HttpStatusCode.InternalServerError500]: 'Internal Server Error',
+  [HttpStatusCode.NotImplemented501]: 'Not Implemented',
+  [HttpStatusCode.BadGateway502]: 'Bad Gateway',
+  [HttpStatusCode.ServiceUnavailable503]: 'Service Unavailable',
+  [HttpStatusCode.GatewayTimeout504]: 'Gateway Timeout',
+  [HttpStatusCode.HttpVersionNotSupported505]: 'HTTP Version Not Supported',
+  [HttpStatusCode.VariantAlsoNegotiates506]: 'Variant Also Negotiates',
+  [HttpStatusCode.InsufficientStorage507]: 'Insufficient Storage',
+  [HttpStatusCode.LoopDetected508]: 'Loop Detected',
+  [HttpStatusCode.NotExtended510]: 'Not Extended',
+  [HttpStatusCode.NetworkAuthenticationRequired511]: 'Network Authentication Required',
+};
+
+/**
+ * The status codes of (possibly) transient failures, i.e. where the same request may succeed when retried.
+ */
+const retryableStatusCodes: ReadonlySet<number> = new Set([
+  HttpStatusCode.RequestTimeout408,
+  HttpStatusCode.TooEarly425,
+  HttpStatusCode.TooManyRequests429,
+  HttpStatusCode.InternalServerError500,
+  HttpStatusCode.BadGateway502,
+  HttpStatusCode.ServiceUnavailable503,
+  HttpStatusCode.GatewayTimeout504,
+]);
+
+/**
+ * HTTP status code related utility functions.
+ * NOTE: These accept any number (e.g. `response.status`) and not only the known `HttpStatusCode` values.
+ */
+export abstract class HttpStatusCodeUtils {
+  /**
+   * @returns true if the status code is a known `HttpStatusCode`.
+   */
+  static isKnownStatusCode(status: number): status is HttpStatusCode {
+    return Object.hasOwn(reasonPhrases, status);
+  }
+
+  /**
+   * @returns the reason phrase of the status code (e.g. `Not Found`), or undefined if the status code is not known.
+   */
+  static getReasonPhrase(status: number): string | undefined {
+    return HttpStatusCodeUtils.isKnownStatusCode(status) ? reasonPhrases[status] : undefined;
+  }
+
+  /**
+   * @returns true if the status code is informational (1xx).
+   */
+  static isInformational(status: number): boolean {
+    return status >= 100 && status < 200;
+  }
+
+  /**
+   * @returns true if the status code is successful (2xx).
+   */
+  static isSuccess(status: number): boolean {
+    return status >= 200 && status < 300;
+  }
+
+  /**
+   * @returns true if the status code is a redirection (3xx).
+   */
+  static isRedirection(status: number): boolean {
+    return status >= 300 && status < 400;
+  }
+
+  /**
+   * @returns true if the status code is a client error (4xx).
+   */
+  static isClientError(status: number): boolean {
+    return status >= 400 && status < 500;
+  }
+
+  /**
+   * @returns true if the status code is a server error (5xx).
+   */
+  static isServerError(status: number): boolean {
+    return status >= 500 && status < 600;
+  }
+
+  /**
+   * @returns true if the status code is a client or server error (4xx or 5xx).
+   */
+  static isError(status: number): boolean {
+    return HttpStatusCodeUtils.isClientError(status) || HttpStatusCodeUtils.isServerError(status);
+  }
+
+  /**
+   * @returns true if the status code represents a (possibly) transient failure where the same request may succeed when retried:
+   * 408, 425, 429, 500, 502, 503 and 504.
+   */
+  static isRetryable(status: number): boolean {
+    return retryableStatusCodes.has(status);
+  }
+}
@@ -1,20 +1,81 @@
 /**
- * RFC 9110 HTTP Semantics
+ * RFC 9110 HTTP Semantics (plus common extensions from other RFCs)
  * https://www.rfc-editor.org/rfc/rfc9110.html#name-status-code-registration
+ * https://www.iana.org/assignments/http-status-codes/http-status-codes.xhtml
+ * NOTE: See `HttpStatusCodeUtils` for the reason phrases and classification of the status codes.
  */
 export enum HttpStatusCode {
+  // 1xx Informational
+  Continue100 = 100,
+  SwitchingProtocols101 = 101,
+  Processing102 = 102, // RFC 2518 (WebDAV)
+  EarlyHints103 = 103, // RFC 8297
+
+  // 2xx Successful
   Ok200 = 200,
   Created201 = 201,
   Accepted202 = 202,
+  NonAuthoritativeInformation203 = 203,
   NoContent204 = 204,
+  ResetContent205 = 205,
+  PartialContent206 = 206,
+  MultiStatus207 = 207, // RFC 4918 (WebDAV)
+  AlreadyReported208 = 208, // RFC 5842 (WebDAV)
+  ImUsed226 = 226, // RFC 3229
+
+  // 3xx Redirection
+  MultipleChoices300 = 300,
+  MovedPermanently301 = 301,
+  Found302 = 302,
+  SeeOther303 = 303,
+  NotModified304 = 304,
+  UseProxy305 = 305,
+  TemporaryRedirect307 = 307,
+  PermanentRedirect308 = 308,
+
+  // 4xx Client Error
   BadInvalidRequest400 = 400,
   UnauthorizedAsInUnauthenticated401 = 401,
+  PaymentRequired402 = 402,
   ForbiddenAsInPermission403 = 403,
   NotFound404 = 404,
+  MethodNotAllowed405 = 405,
+  NotAcceptable406 = 406,
+  ProxyAuthenticationRequired407 = 407,
+  RequestTimeout408 = 408,
   Conflict409 = 409,
+  Gone410 = 410,
+  LengthRequired411 = 411,
+  PreconditionFailed412 = 412,
+  ContentTooLarge413 = 413,
+  UriTooLong414 = 414,
+  UnsupportedMediaType415 = 415,
+  RangeNotSatisfiable416 = 416,
+  ExpectationFailed417 = 417,
+  ImATeapot418 = 418, // RFC 2324 (reserved by RFC 9110)
+  MisdirectedRequest421 = 421,
   Unprocessable422 = 422,
+  Locked423 = 423, // RFC 4918 (WebDAV)
+  FailedDependency424 = 424, // RFC 4918 (WebDAV)
+  TooEarly425 = 425, // RFC 8470
+  UpgradeRequired426 = 426,
+  PreconditionRequired428 = 428, // RFC 6585
+  TooManyRequests429 = 429, // RFC 6585
+  RequestHeaderFieldsTooLarge431 = 431, // RFC 6585
+  UnavailableForLegalReasons451 = 451, // RFC 7725
+
+  // 5xx Server Error
   InternalServerError500 = 500,
+  NotImplemented501 = 501,
+  BadGateway502 = 502,
   ServiceUnavailable503 = 503,
+  GatewayTimeout504 = 504,
+  HttpVersionNotSupported505 = 505,
+  VariantAlsoNegotiates506 = 506, // RFC 2295
+  InsufficientStorage507 = 507, // RFC 4918 (WebDAV)
+  LoopDetected508 = 508, // RFC 5842 (WebDAV)
+  NotExtended510 = 510, // RFC 2774 (obsoleted)
+  NetworkAuthenticationRequired511 = 511, // RFC 6585
 }
 
 /**
@@ -0,0 +1,117 @@
+// Types
+import type { AspNetValidationProblemDetails } from './http.aspnet.types';
+import type { ErrorResultDetailsDiscriminantTag } from '../results/error-result-details.types';
+import type { ProblemDetailsMapper, ProblemDetailsMapperOptions, ProblemDetailsResponse } from './api.types';
+import { HttpStatusCode } from './http.ietf.types';
+
+// Error Result Details
+import { AbstractErrorResultDetails } from '../results/error-result-details/abstract-error-result-details';
+import { AggregateErrorResultDetails } from '../results/error-result-details/aggregate-error-result-details';
+import { ApiErrorResultDetails } from '../results/error-result-details/api-error-result-details';
+import { ValidationErrorResultDetails } from '../results/error-result-details/validation-error-result-details';
+
+// Utilities
+import { HttpStatusCodeUtils } from './http-status-code.utilities';
+
+const defaultProblemType = 'about:blank';
+
+/**
+ * The default status code of each error result details type.
+ * NOTE: The status codes of `AggregateError` and `ApiError` are derived from their child error details and error response (these are only fallbacks).
+ */
+const defaultStatusCodes: Record<ErrorResultDetailsDiscriminantTag, HttpStatusCode> = {
+  AggregateError: HttpStatusCode.InternalServerError500,
+  ApiError: HttpStatusCode.InternalServerError500,
+  AssertionFailedError: HttpStatusCode.InternalServerError500,
+  CancelledError: HttpStatusCode.ServiceUnavailable503,
+  ShortCircuitedError: HttpStatusCode.BadInvalidRequest400,
+  TechnicalError: HttpStatusCode.InternalServerError500,
+  TimeoutError: HttpStatusCode.GatewayTimeout504,
+  UserError: HttpStatusCode.BadInvalidRequest400,
+  ValidationError: HttpStatusCode.Unprocessable422,
+};
+
+/**
+ * Creates a mapper that converts an `ErrorResult` (or its error details) into an HTTP status code and RFC 9457 problem details body.
+ *
+ * The status code is (in order of precedence) the `options.errorCodes` override of the error code, the `options.statusCodes` entry of the
+ * discriminant tag, or the default of the error result details type:
+ * - `UserError`, `ShortCircuitedError` → 400, `ValidationError` → 422 (with the field errors in `errors`),
+ * - `AssertionFailedError`, `TechnicalError` (and any other type) → 500, `CancelledError` → 503, `TimeoutError` → 504,
+ * - `ApiError` → the status of the error response (whose problem details are passed through),
+ * - `AggregateError` → the status of its children if they all agree, otherwise 400 if they are all 4xx, otherwise 500.
+ *
+ * The `errorInstanceId` is the `instance`, and the error message is the `detail` of 4xx responses only (so that internal error messages are not exposed).
+ * @example
+ * ```typescript
+ * const toProblemDetails = createProblemDetailsMapper({
+ *   errorCodes: { InsufficientFunds: { type: 'https://example.com/problems/insufficient-funds', status: HttpStatusCode.Conflict409 } },
+ * });
+ * const { status, body } = toProblemDetails(errorResult);
+ * ```
+ */
+export function createProblemDetailsMapper(options: ProblemDetailsMapperOptions = {}): ProblemDetailsMapper {
+  const mapErrorDetails = (errorDetails: AbstractErrorResultDetails): ProblemDetailsResponse => {
+    const { errorCode, discriminantTag } = errorDetails;
+    const override = errorCode && options.errorCodes && Object.hasOwn(options.errorCodes, errorCode) ? options.errorCodes[errorCode] : undefined;
+    const configuredStatus = options.statusCodes && Object.hasOwn(options.statusCodes, discriminantTag) ? options.statusCodes[discriminantTag] : undefined;
+    const status = override?.status ?? configuredStatus ?? toDefaultStatus(errorDetails, mapErrorDetails);
+
+    if (ApiErrorResultDetails.isInstance(errorDetails)) {
+      const body = { ...errorDetails.errorResponse, status };
+      if (override?.type) {
+        body.type = override.type;
+      }
+      if (override?.title) {
+        body.title = override.title;
+      }
+      return { status, body };
+    }
+
+    const body: AspNetValidationProblemDetails = {
+      type: override?.type ?? options.defaultType ?? defaultProblemType,
+      title: override?.title ?? HttpStatusCodeUtils.getReasonPhrase(status) ?? `HTTP ${status}`,
+      status,
+    };
+    if (HttpStatusCodeUtils.isClientError(status)) {
+      body.detail = errorDetails.errorMessage;
+    }
+    const { errorInstanceId } = errorDetails;
+    if (errorInstanceId) {
+      body.instance = errorInstanceId;
+    }
+    if (ValidationErrorResultDetails.isInstance(errorDetails)) {
+      body.errors = errorDetails.toAspNetValidationErrors();
+    }
+    return { status, body };
+  };
+
+  return (errorResultOrDetails) => mapErrorDetails(
+    errorResultOrDetails instanceof AbstractErrorResultDetails ? errorResultOrDetails : errorResultOrDetails.errorDetails
+  );
+}
+
+/**
+ * @returns the default status code of the given error details (deriving it for `ApiError` and `AggregateError`).
+ */
+function toDefaultStatus(
+  errorDetails: AbstractErrorResultDetails,
+  mapErrorDetails: (errorDetails: AbstractErrorResultDetails) => ProblemDetailsResponse
+): HttpStatusCode {
+  if (ApiErrorResultDetails.isInstance(errorDetails)) {
+    return errorDetails.errorResponse.status ?? HttpStatusCode.InternalServerError500;
+  }
+
+  if (AggregateErrorResultDetails.isInstance(errorDetails)) {
+    const childStatuses = new Set(errorDetails.childErrorDetails.map((child) => mapErrorDetails(child).status));
+    const [firstChildStatus] = childStatuses;
+    if (childStatuses.size === 1 && firstChildStatus) {
+      return firstChildStatus;
+    }
+    return childStatuses.size > 0 && [...childStatuses].every((status) => HttpStatusCodeUtils.isClientError(status))
+      ? HttpStatusCode.BadInvalidRequest400
+      : HttpStatusCode.InternalServerError500;
+  }
+
+  return defaultStatusCodes[errorDetails.discriminantTag as ErrorResultDetailsDiscriminantTag] ?? HttpStatusCode.InternalServerError500;
+}
@@ -0,0 +1,160 @@
+// Types
+import type { AssertionFailure } from './error.types';
+import type { Constructor } from '../objects/object.types';
+import type { StandardLogPropertiesCore } from '../logging/logging.types';
+import { AssertionErrorCodes } from './error.types';
+
+// Utilities
+import { ErrorUtils } from './error.utilities';
+import { ObjectUtils } from '../objects/object.utilities';
+import { StringUtils } from '../string.utilities';
+
+/**
+ * @returns a description of the type of the value for an assertion failed error message (the value itself is not included, as it may be sensitive).
+ */
+const describeValue = (value: unknown): string => {
+  if (ObjectUtils.isNullOrUndefined(value)) {
+    return String(value);
+  }
+  if (Array.isArray(value)) {
+    return 'an array';
+  }
+  if (ObjectUtils.isTypeOfObject(value)) {
+    return `an instance of ${value.constructor?.name ?? 'Object'}`;
+  }
+  return `a ${typeof value}`;
+};
+
+/**
+ * The checks of the assertions of `Assert` (which throws) and `ResultAssert` (which returns results),
+ * so that both have the same error codes and error messages.
+ */
+export abstract class AssertionChecks {
+  /**
+   * @returns the failure if the value is null or undefined.
+   */
+  static defined(value: unknown, name: string): AssertionFailure | undefined {
+    return ObjectUtils.isNullOrUndefined(value)
+      ? { errorCode: AssertionErrorCodes.Defined, errorMessage: `${name} must be defined, but was ${describeValue(value)}.` }
+      : undefined;
+  }
+
+  /**
+   * @returns the failure if the value is not a string, or is an empty or whitespace string.
+   */
+  static nonEmptyString(value: unknown, name: string): AssertionFailure | undefined {
+    if (StringUtils.isString(value) && value.trim().length > 0) {
+      return undefined;
+    }
+    const actual = StringUtils.isString(value) ? 'an empty string' : describeValue(value);
+    return { errorCode: AssertionErrorCodes.NonEmptyString, errorMessage: `${name} must be a non-empty string, but was ${actual}.` };
+  }
+
+  /**
+   * @returns the failure if the value is not a number between the minimum and the maximum (inclusive).
+   */
+  static inRange(value: unknown, minimum: number, maximum: number, name: string): AssertionFailure | undefined {
+    if (typeof value === 'number' && value >= minimum && value <= maximum) {
+      return undefined;
+    }
+    const actual = typeof value === 'number' ? String(value) : describeValue(value);
+    return { errorCode: AssertionErrorCodes.InRange, errorMessage: `${name} must be a number between ${minimum} and ${maximum}, but was ${actual}.` };
+  }
+
+  /**
+   * @returns the failure if the value is not one of the allowed values (compared with `===`).
+   */
+  static oneOf(value: unknown, allowedValues: readonly unknown[], name: string): AssertionFailure | undefined {
+    return allowedValues.includes(value)
+      ? undefined
+      : { errorCode: AssertionErrorCodes.OneOf, errorMessage: `${name} must be one of: ${allowedValues.map(String).join(', ')}, but was ${describeValue(value)}.` };
+  }
+
+  /**
+   * @returns the failure if the value is not a string that matches the pattern.
+   */
+  static matches(value: unknown, pattern: RegExp, name: string): AssertionFailure | undefined {
+    // NOTE: The last index is reset so that a global or sticky pattern is not stateful.
+    pattern.lastIndex = 0;
+    return StringUtils.isString(value) && pattern.test(value)
+      ? undefined
+      : { errorCode: AssertionErrorCodes.Matches, errorMessage: `${name} must match ${pattern}, but was ${StringUtils.isString(value) ? 'a string that does not' : describeValue(value)}.` };
+  }
+
+  /**
+   * @returns the failure if the value is not an instance of the constructor (as per `ObjectUtils.isInstanceOf()`).
+   */
+  static instanceOf<TInstance>(value: unknown, ctor: Constructor<TInstance>, name: string): AssertionFailure | undefined {
+    return ObjectUtils.isInstanceOf(ctor, value)
+      ? undefined
+      : { errorCode: AssertionErrorCodes.InstanceOf, errorMessage: `${name} must be an instance of ${ctor.name}, but was ${describeValue(value)}.` };
+  }
+}
+
+/**
+ * Runtime assertions that narrow the type of the value, or log and throw an `AssertionFailedError` (see `ErrorUtils.throwAssertionFailedError()`).
+ * Use `ResultAssert` instead to return an AssertionFailedErrorResult.
+ * @example
+ * ```typescript
+ * Assert.nonEmptyString(logProperties, request.userId, 'userId');
+ * Assert.inRange(logProperties, request.pageSize, 1, 100, 'pageSize');
+ * ```
+ */
+export abstract class Assert {
+  /**
+   * Asserts that the value is not null or undefined.
+   * @throws {AssertionFailedError}
+   */
+  static defined<TValue>(context: string | StandardLogPropertiesCore, value: TValue, name: string): asserts value is NonNullable<TValue> {
+    Assert._throwIfFailed(context, AssertionChecks.defined(value, name));
+  }
+
+  /**
+   * Asserts that the value is a string that is not empty or whitespace.
+   * @throws {AssertionFailedError}
+   */
+  static nonEmptyString(context: string | StandardLogPropertiesCore, value: unknown, name: string): asserts value is string {
+    Assert._throwIfFailed(context, AssertionChecks.nonEmptyString(value, name));
+  }
+
+  /**
+   * Asserts that the value is a number between the minimum and the maximum (inclusive).
+   * @throws {AssertionFailedError}
+   */
+  static inRange(context: string | StandardLogPropertiesCore, value: unknown, minimum: number, maximum: number, name: string): asserts value is number {
+    Assert._throwIfFailed(context, AssertionChecks.inRange(value, minimum, maximum, name));
+  }
+
+  /**
+   * Asserts that the value is one of the allowed values (compared with `===`).
+   * @throws {AssertionFailedError}
+   */
+  static oneOf<const TAllowedValue>(context: string | StandardLogPropertiesCore, value: unknown, allowedValues: readonly TAllowedValue[], name: string): asserts value is TAllowedValue {
+    Assert._throwIfFailed(context, AssertionChecks.oneOf(value, allowedValues, name));
+  }
+
+  /**
+   * Asserts that the value is a string that matches the pattern.
+   * @throws {AssertionFailedError}
+   */
+  static matches(context: string | StandardLogPropertiesCore, value: unknown, pattern: RegExp, name: string): asserts value is string {
+    Assert._throwIfFailed(context, AssertionChecks.matches(value, pattern, name));
+  }
+
+  /**
+   * Asserts that the value is an instance of the constructor (as per `ObjectUtils.isInstanceOf()`).
+   * @throws {AssertionFailedError}
+   */
+  static instanceOf<TInstance>(context: string | StandardLogPropertiesCore, value: unknown, ctor: Constructor<TInstance>, name: string): asserts value is TInstance {
+    Assert._throwIfFailed(context, AssertionChecks.instanceOf(value, ctor, name));
+  }
+
+  /**
+   * Logs and throws an `AssertionFailedError` (with the error code as its `errorCode` and in its message) if the assertion failed.
+   */
+  private static _throwIfFailed(context: string | StandardLogPropertiesCore, failure: AssertionFailure | undefined): void {
+    if (failure) {
+      ErrorUtils.throwAssertionFailedErrorWithCode(context, failure.errorCode, `${failure.errorCode}: ${failure.errorMessage}`);
+    }
+  }
+}
@@ -12,12 +12,18 @@ export class AssertionFailedError extends Error {
     return ObjectUtils.isInstanceOf(AssertionFailedError, error);
   }
 
+  /**
+   * The error code of the failed assertion (e.g. one of the `AssertionErrorCodes` for the assertions of `Assert`), if any.
+   */
+  readonly errorCode: string | undefined;
+
   /**
    * Instantiates a new AssertionFailedError.
    * NOTE: Prefer to throw this via ErrorUtils.throwAssertionFailedError() rather than directly using this constructor.
    */
-  constructor(technicalErrorMessage: string) {
+  constructor(technicalErrorMessage: string, errorCode?: string) {
     super(technicalErrorMessage);
     this.name = AssertionFailedError.name; 
+    this.errorCode = errorCode;
   }
 }
@@ -0,0 +1,213 @@
+// Types
+import type { ErrorInstanceIdFormat, ErrorInstanceIdOptions, ParsedErrorInstanceId } from './error.types';
+
+// Utilities
+import { ErrorUtils } from './error.utilities';
+
+const classContext = 'ErrorInstanceIdUtils';
+
+/**
+ * Crockford's base32 alphabet (without I, L, O and U, so that identifiers are easy to read out and type).
+ */
+const crockfordBase32Characters = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+
+/**
+ * @returns the given number of cryptographically strong random Crockford base32 characters.
+ */
+const createRandomCharacters = (count: number): string =>
+  Array.from(crypto.getRandomValues(new Uint8Array(count)), (byte) => crockfordBase32Characters.charAt(byte % 32)).join('');
+
+/**
+ * @returns the value of the Crockford base32 character (where I and L are read as 1, and O as 0), or -1 if it is not one.
+ */
+const decodeCharacter = (character: string): number =>
+  crockfordBase32Characters.indexOf(character.toUpperCase().replace(/[IL]/, '1').replace('O', '0'));
+
+/**
+ * The built-in formats of error instance identifiers.
+ * NOTE: The patterns (`[0-9A-TV-Z]`) accept Crockford's base32 characters and the letters that are read as digits (I, L and O), but not U.
+ */
+const errorInstanceIdFormats = {
+  /**
+   * 8 random characters, e.g. `7GQ2-XM4D` (the default, as it is short enough to be read out over the phone).
+   */
+  random: {
+    name: 'random',
+    generate: () => `${createRandomCharacters(4)}-${createRandomCharacters(4)}`,
+    pattern: /[0-9A-TV-Z]{4}-[0-9A-TV-Z]{4}/i,
+  },
+
+  /**
+   * A ULID, i.e. a 48-bit timestamp followed by 80 random bits, e.g. `01JAB3C4D5E6F7G8H9JKMNPQRS` (sortable by time).
+   */
+  ulid: {
+    name: 'ulid',
+    generate: () => {
+      let time = Date.now();
+      let encodedTime = '';
+      for (let index = 0; index < 10; index++) {
+        encodedTime = crockfordBase32Characters.charAt(time % 32) + encodedTime;
+        time = Math.floor(time / 32);
+      }
+      return `${encodedTime}${createRandomCharacters(16)}`;
+    },
+    pattern: /[0-7][0-9A-TV-Z]{25}/i,
+    toTimestamp: (body) => new Date([...body.slice(0, 10)].reduce((time, character) => time * 32 + decodeCharacter(character), 0)),
+  },
+
+  /**
+   * A version 7 UUID, i.e. a 48-bit timestamp followed by random bits, e.g. `01928f3e-5b7a-7c3d-9e1f-2a3b4c5d6e7f` (sortable by time).
+   */
+  uuidv7: {
+    name: 'uuidv7',
+    generate: () => {
+      const bytes = crypto.getRandomValues(new Uint8Array(16));
+      const time = Date.now();
+      for (let index = 0; index < 6; index++) {
+        bytes[index] = Math.floor(time / 2 ** (8 * (5 - index))) % 256;
+      }
+      bytes[6] = ((bytes[6] ?? 0) & 0x0f) | 0x70; // version 7
+      bytes[8] = ((bytes[8] ?? 0) & 0x3f) | 0x80; // variant 10
+      const hex = Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+      return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+    },
+    pattern: /[0-9a-f]{8}-[0-9a-f]{4}-7[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}/i,
+    toTimestamp: (body) => new Date(parseInt(body.replace(/-/g, '').slice(0, 12), 16)),
+  },
+} as const satisfies Record<string, ErrorInstanceIdFormat>;
+
+/**
+ * The default error instance identifier options: random identifiers without a prefix, with a check character.
+ */
+const defaultErrorInstanceIdOptions: ErrorInstanceIdOptions = {
+  format: errorInstanceIdFormats.random,
+  prefix: '',
+  checksum: true,
+};
+
+/**
+ * Error instance identifier / support reference identifier-related utility functions.
+ * Customize the identifiers for your application with `ErrorInstanceIdUtils.configure()`.
+ * NOTE: The check character is calculated with the Luhn mod 32 algorithm, which detects any single mistyped character and most swapped adjacent characters.
+ */
+export abstract class ErrorInstanceIdUtils {
+  private static _options: ErrorInstanceIdOptions = { ...defaultErrorInstanceIdOptions };
+
+  /**
+   * The built-in formats of error instance identifiers.
+   */
+  static readonly formats = errorInstanceIdFormats;
+
+  /**
+   * The current error instance identifier options.
+   */
+  static get options(): ErrorInstanceIdOptions {
+    return { ...ErrorInstanceIdUtils._options };
+  }
+
+  /**
+   * The default error instance identifier options.
+   */
+  static get defaultOptions(): ErrorInstanceIdOptions {
+    return { ...defaultErrorInstanceIdOptions };
+  }
+
+  /**
+   * Replaces the error instance identifier options (any omitted option is the default, so `ErrorInstanceIdUtils.configure({})` restores the defaults).
+   * One identifier is created to check the format, so that a misconfigured format fails at startup rather than when an error result is created.
+   * @throws {AssertionFailedError} if the format creates an identifier that does not match its pattern,
+   * or (if the checksum is enabled) that has a character that is not a Crockford base32 character or a hyphen (the options are then not replaced).
+   * @example
+   * ```typescript
+   * ErrorInstanceIdUtils.configure({ format: ErrorInstanceIdUtils.formats.ulid, prefix: `${process.env.ENVIRONMENT_CODE}-` });
+   * ```
+   */
+  static configure(options: Partial<ErrorInstanceIdOptions>): void {
+    const configuredOptions: ErrorInstanceIdOptions = { ...defaultErrorInstanceIdOptions, ...options };
+    const { format, checksum } = configuredOptions;
+    const body = format.generate();
+    if (!new RegExp(`^(?:${format.pattern.source})$`, format.pattern.flags.replace(/[gy]/g, '')).test(body)) {
+      ErrorUtils.throwAssertionFailedError(`${classContext}.configure`, `The error instance identifier format ${format.name} created an identifier that does not match its pattern: ${body}`);
+    }
+    if (checksum && !ErrorInstanceIdUtils._calculateCheckCharacter(body)) {
+      ErrorUtils.throwAssertionFailedError(`${classContext}.configure`, `The error instance identifier format ${format.name} created an identifier with invalid characters: ${body}`);
+    }
+    ErrorInstanceIdUtils._options = configuredOptions;
+  }
+
+  /**
+   * Creates an error instance identifier / support reference identifier, as per the options (e.g. `7GQ2-XM4D-K`).
+   * @throws {AssertionFailedError} if the checksum is enabled and the identifier has a character that is not a Crockford base32 character or a hyphen.
+   */
+  static create(): string {
+    const { format, prefix, checksum } = ErrorInstanceIdUtils._options;
+    const body = format.generate();
+    if (!checksum) {
+      return `${prefix}${body}`;
+    }
+
+    const checkCharacter = ErrorInstanceIdUtils._calculateCheckCharacter(body)
+      ?? ErrorUtils.throwAssertionFailedError(`${classContext}.create`, `The error instance identifier format ${format.name} created an identifier with invalid characters: ${body}`);
+    return `${prefix}${body}-${checkCharacter}`;
+  }
+
+  /**
+   * Parses the error instance identifier (e.g. a support reference given by a user) into its parts.
+   * The identifier may be in the configured format or in any of the built-in formats, and have any prefix.
+   * NOTE: The identifier is case-insensitive, and the check character is not verified (see `isValid()`).
+   * @returns the parsed identifier, or undefined if it is not in a known format.
+   */
+  static parse(errorInstanceId: string): ParsedErrorInstanceId | undefined {
+    const configuredFormat = ErrorInstanceIdUtils._options.format;
+    const formats: ErrorInstanceIdFormat[] = [configuredFormat, ...Object.values(errorInstanceIdFormats).filter((format) => format !== configuredFormat)];
+    for (const format of formats) {
+      const flags = `${format.pattern.flags.replace(/[giy]/g, '')}i`;
+      const match = new RegExp(`^(.*?)(${format.pattern.source})(?:-([0-9A-TV-Z]))?$`, flags).exec(errorInstanceId.trim());
+      if (match) {
+        const [, prefix = '', body = '', checksum] = match;
+        return {
+          prefix,
+          format: format.name,
+          body,
+          checksum: checksum?.toUpperCase(),
+          timestamp: format.toTimestamp?.(body),
+        };
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * @returns true if the error instance identifier is in a known format (see `parse()`) and has a correct check character
+   * (or does not have one, if the checksum is disabled), e.g. to detect a mistyped support reference.
+   * NOTE: While the checksum is enabled, identifiers without a check character (e.g. those created before it was enabled) are not valid.
+   */
+  static isValid(errorInstanceId: string): boolean {
+    const parsed = ErrorInstanceIdUtils.parse(errorInstanceId);
+    if (!parsed) {
+      return false;
+    }
+    if (parsed.checksum === undefined) {
+      return !ErrorInstanceIdUtils._options.checksum;
+    }
+    const checkCharacter = ErrorInstanceIdUtils._calculateCheckCharacter(parsed.body);
+    return !!checkCharacter && decodeCharacter(parsed.checksum) === decodeCharacter(checkCharacter);
+  }
+
+  /**
+   * @returns the Luhn mod 32 check character of the identifier body (ignoring hyphens), or undefined if it has a character that is not a Crockford base32 character.
+   */
+  private static _calculateCheckCharacter(body: string): string | undefined {
+    const values = [...body.replace(/-/g, '')].map(decodeCharacter);
+    if (values.some((value) => value === -1)) {
+      return undefined;
+    }
+
+    // NOTE: Every second value from the right is doubled, and the digits (in base 32) of the products are summed.
+    const sum = values.reverse().reduce((total, value, index) => {
+      const addend = index % 2 === 0 ? value * 2 : value;
+      return total + Math.floor(addend / 32) + (addend % 32);
+    }, 0);
+    return crockfordBase32Characters.charAt((32 - (sum % 32)) % 32);
+  }
+}
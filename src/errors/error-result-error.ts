@@ -0,0 +1,33 @@
+// Types
+import type { AbstractErrorResultDetails } from '../results/error-result-details/abstract-error-result-details';
+
+// Utilities
+import { ObjectUtils } from '../objects/object.utilities';
+
+/**
+ * An error that wraps the error details of an `ErrorResult` (see `ErrorResult.toError()`), e.g. to rethrow at a boundary that expects exceptions.
+ * The message is the error message of the error details, and the cause is the cause of the error details (i.e. the original error, if any).
+ */
+export class ErrorResultError<TErrorDetails extends AbstractErrorResultDetails = AbstractErrorResultDetails> extends Error {
+  /**
+   * The error details of the error result.
+   */
+  readonly errorDetails: TErrorDetails;
+
+  /**
+   * @returns true if the given object is an instance of ErrorResultError.
+   */
+  static isInstance(error: unknown): error is ErrorResultError {
+    return ObjectUtils.isInstanceOf(ErrorResultError, error);
+  }
+
+  /**
+   * Instantiates a new ErrorResultError.
+   * NOTE: Prefer to create this via `ErrorResult.toError()` rather than directly using this constructor.
+   */
+  constructor(errorDetails: TErrorDetails) {
+    super(errorDetails.errorMessage, ObjectUtils.isTypeOfUndefined(errorDetails.cause) ? undefined : { cause: errorDetails.cause });
+    this.name = ErrorResultError.name;
+    this.errorDetails = errorDetails;
+  }
+}
@@ -0,0 +1,173 @@
+// Types
+import type { ErrorSerializationOptions, SerializedError } from './error.types';
+
+// Utilities
+import { ObjectUtils } from '../objects/object.utilities';
+
+const defaultMaxDepth = 10;
+const defaultMaxItems = 100;
+
+/**
+ * The state of a serialisation (the limits and the objects that are being serialised, to detect circular references).
+ */
+type SerializationState = {
+  maxDepth: number;
+  maxItems: number;
+  ancestors: object[];
+};
+
+/**
+ * @returns a description of an error thrown while reading a value (e.g. by a getter or a `toJSON()` method), in place of the value.
+ */
+const describeUnreadableValue = (err: unknown): string => `[Unreadable: ${err instanceof Error ? err.message : typeof err}]`;
+
+/**
+ * Error serialisation-related utility functions.
+ */
+export abstract class ErrorSerializationUtils {
+  /**
+   * Converts an error (or any other value) into a value that can be safely written with `JSON.stringify()` without losing detail:
+   * - errors are serialised with their name, message, stack, custom enumerable properties, `cause` chain and (`AggregateError`) `errors`,
+   * - values with a `toJSON()` method (e.g. dates) are converted with it, bigints are converted into strings,
+   *   `Map`s into arrays of `[key, value]` entries, `Set`s into arrays, and functions and symbols into descriptions,
+   * - circular references are replaced with `[Circular]`, values nested deeper than `options.maxDepth` with `[MaxDepth]`,
+   *   and the items (or properties) beyond `options.maxItems` are replaced with a count of the omitted items,
+   * - properties whose getter throws, and values whose `toJSON()` method throws, are replaced with `[Unreadable: <message>]`.
+   */
+  static serialize(value: unknown, options: ErrorSerializationOptions = {}): unknown {
+    return ErrorSerializationUtils._serializeValue(value, {
+      maxDepth: options.maxDepth ?? defaultMaxDepth,
+      maxItems: options.maxItems ?? defaultMaxItems,
+      ancestors: [],
+    });
+  }
+
+  /**
+   * Serialises an error, as per `serialize()`.
+   */
+  static serializeError(error: Error, options: ErrorSerializationOptions = {}): SerializedError {
+    return ErrorSerializationUtils.serialize(error, options) as SerializedError;
+  }
+
+  /**
+   * Converts an error (or any other value) into a JSON string, as per `serialize()`.
+   */
+  static stringify(value: unknown, options: ErrorSerializationOptions = {}): string {
+    return JSON.stringify(ErrorSerializationUtils.serialize(value, options)) ?? String(value);
+  }
+
+  /**
+   * @returns the JSON-safe value, as per `serialize()`.
+   */
+  private static _serializeValue(value: unknown, state: SerializationState): unknown {
+    switch (typeof value) {
+      case 'bigint':
+        return value.toString();
+      case 'symbol':
+        return value.toString();
+      case 'function':
+        return `[Function ${value.name || 'anonymous'}]`;
+      case 'object':
+        return value === null ? value : ErrorSerializationUtils._serializeObject(value, state);
+      default:
+        return value;
+    }
+  }
+
+  /**
+   * @returns the JSON-safe value of an object (an error, a collection or any other object), as per `serialize()`.
+   */
+  private static _serializeObject(value: object, state: SerializationState): unknown {
+    if (state.ancestors.includes(value)) {
+      return '[Circular]';
+    }
+    if (state.ancestors.length >= state.maxDepth) {
+      return '[MaxDepth]';
+    }
+    const nestedState: SerializationState = { ...state, ancestors: [...state.ancestors, value] };
+
+    if (value instanceof Error) {
+      return ErrorSerializationUtils._serializeErrorObject(value, nestedState);
+    }
+
+    if ('toJSON' in value && ObjectUtils.isTypeOfFunction(value.toJSON)) {
+      let json: unknown;
+      try {
+        json = value.toJSON();
+      } catch (err: unknown) {
+        return describeUnreadableValue(err);
+      }
+      // NOTE: The nested state is used so that a `toJSON()` method that returns the object itself is detected as a circular reference.
+      return ErrorSerializationUtils._serializeValue(json, nestedState);
+    }
+
+    if (value instanceof Map) {
+      return ErrorSerializationUtils._serializeItems([...value.entries()], nestedState);
+    }
+
+    if (Array.isArray(value) || value instanceof Set) {
+      return ErrorSerializationUtils._serializeItems([...value], nestedState);
+    }
+
+    return ErrorSerializationUtils._serializeProperties(ErrorSerializationUtils._readProperties(value), nestedState);
+  }
+
+  /**
+   * @returns the serialised error (with its custom enumerable properties, cause and errors).
+   */
+  private static _serializeErrorObject(error: Error, state: SerializationState): SerializedError {
+    const { name, message, stack, cause } = error;
+    const serialised: SerializedError = {
+      ...ErrorSerializationUtils._serializeProperties(ErrorSerializationUtils._readProperties(error), state),
+      name,
+      message,
+    };
+    if (stack) {
+      serialised.stack = stack;
+    }
+    if (!ObjectUtils.isTypeOfUndefined(cause)) {
+      serialised.cause = ErrorSerializationUtils._serializeValue(cause, state);
+    }
+    if (error instanceof AggregateError && Array.isArray(error.errors)) {
+      serialised.errors = ErrorSerializationUtils._serializeItems(error.errors, state);
+    }
+    return serialised;
+  }
+
+  /**
+   * @returns the own enumerable properties of the object, where the value of a property whose getter throws is replaced with a description of the error.
+   */
+  private static _readProperties(value: object): [string, unknown][] {
+    return Object.keys(value).map((key) => {
+      try {
+        return [key, (value as Record<string, unknown>)[key]];
+      } catch (err: unknown) {
+        return [key, describeUnreadableValue(err)];
+      }
+    });
+  }
+
+  /**
+   * @returns the serialised items (up to the maximum number of items, followed by a count of the omitted items).
+   */
+  private static _serializeItems(items: unknown[], state: SerializationState): unknown[] {
+    const serialised = items.slice(0, state.maxItems).map((item) => ErrorSerializationUtils._serializeValue(item, state));
+    if (items.length > state.maxItems) {
+      serialised.push(`[${items.length - state.maxItems} more items]`);
+    }
+    return serialised;
+  }
+
+  /**
+   * @returns the serialised properties (up to the maximum number of items, followed by a count of the omitted properties).
+   */
+  private static _serializeProperties(entries: [string, unknown][], state: SerializationState): Record<string, unknown> {
+    const serialised = Object.fromEntries(
+      entries.slice(0, state.maxItems).map(([key, propertyValue]) => [key, ErrorSerializationUtils._serializeValue(propertyValue, state)])
+    );
+    if (entries.length > state.maxItems) {
+      serialised['...'] = `[${entries.length - state.maxItems} more properties]`;
+    }
+    return serialised;
+  }
+}
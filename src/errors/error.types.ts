@@ -0,0 +1,113 @@
+/**
+ * The options of the serialisation of errors (and any other values) into JSON-safe values (see `ErrorSerializationUtils`).
+ */
+export type ErrorSerializationOptions = {
+  /**
+   * The maximum depth of nested errors, objects and collections (deeper values are replaced with `[MaxDepth]`; defaults to 10).
+   */
+  maxDepth?: number | undefined;
+
+  /**
+   * The maximum number of items of an array, `Set` or `Map`, or properties of an object (the rest are omitted; defaults to 100).
+   */
+  maxItems?: number | undefined;
+};
+
+/**
+ * The JSON-safe representation of an `Error` (as serialised by `ErrorSerializationUtils`).
+ * NOTE: Any custom enumerable properties of the error are included as well.
+ */
+export type SerializedError = {
+  name: string;
+  message: string;
+  stack?: string;
+  cause?: unknown;
+
+  /**
+   * The serialised errors of an `AggregateError`.
+   */
+  errors?: unknown[];
+
+  [property: string]: unknown;
+};
+
+/**
+ * A format of error instance identifiers / support reference identifiers (see `ErrorInstanceIdUtils`).
+ */
+export type ErrorInstanceIdFormat = {
+  /**
+   * The name of the format (e.g. `ulid`).
+   */
+  name: string;
+
+  /**
+   * Generates the body of an identifier (i.e. without the prefix and checksum).
+   */
+  generate: () => string;
+
+  /**
+   * The pattern of the body of an identifier (without anchors, e.g. `/[0-9A-Z]{26}/i`).
+   * NOTE: The characters of the body must be Crockford base32 characters (case-insensitive) or hyphens, so that the checksum can be calculated.
+   */
+  pattern: RegExp;
+
+  /**
+   * Reads the timestamp of an identifier from its body (for formats with sortable timestamps).
+   */
+  toTimestamp?: ((body: string) => Date) | undefined;
+};
+
+/**
+ * The options of the error instance identifiers (see `ErrorInstanceIdUtils`).
+ */
+export type ErrorInstanceIdOptions = {
+  /**
+   * The format of the identifiers (e.g. `ErrorInstanceIdUtils.formats.ulid`, or a custom format).
+   */
+  format: ErrorInstanceIdFormat;
+
+  /**
+   * The prefix of the identifiers (e.g. `PRD-` in production and `TST-` in test), to tell the environment of a support reference.
+   */
+  prefix: string;
+
+  /**
+   * Whether to append a check character to the identifiers, so that mistyped support references can be detected.
+   */
+  checksum: boolean;
+};
+
+/**
+ * An error instance identifier parsed into its parts (see `ErrorInstanceIdUtils.parse()`).
+ */
+export type ParsedErrorInstanceId = {
+  prefix: string;
+  format: string;
+  body: string;
+  checksum: string | undefined;
+
+  /**
+   * The time that the identifier was created at (for formats with sortable timestamps).
+   */
+  timestamp: Date | undefined;
+};
+
+/**
+ * The error codes of the failed assertions of `Assert` and `ResultAssert`.
+ */
+export const AssertionErrorCodes = {
+  Defined: 'ASSERT_DEFINED',
+  NonEmptyString: 'ASSERT_NON_EMPTY_STRING',
+  InRange: 'ASSERT_IN_RANGE',
+  OneOf: 'ASSERT_ONE_OF',
+  Matches: 'ASSERT_MATCHES',
+  InstanceOf: 'ASSERT_INSTANCE_OF',
+} as const;
+
+/**
+ * A failed assertion (see `AssertionChecks`).
+ */
+export type AssertionFailure = {
+  errorCode: typeof AssertionErrorCodes[keyof typeof AssertionErrorCodes];
+  errorMessage: string;
+};
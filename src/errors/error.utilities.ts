@@ -7,7 +7,10 @@ import { AssertionFailedError } from './assertion-failed-error';
 import { UnreachableError } from './unreachable-error';
 
 // Utilities
+import { ErrorInstanceIdUtils } from './error-instance-id.utilities';
+import { ErrorSerializationUtils } from './error-serialization.utilities';
 import { LOG, LoggingUtils } from '../logging/logging.utilities';
+import { RedactionUtils } from '../logging/redaction.utilities';
 import { StringUtils } from '../string.utilities';
  
 type ErrorMessage = string | Error | NotError<Record<string, unknown>> | unknown | undefined;
@@ -17,49 +20,33 @@ type ErrorMessage = string | Error | NotError<Record<string, unknown>> | unknown
  * Customize this class to add your own error utilities.
  */
 export abstract class ErrorUtils {
-  private static readonly _errorInstanceIdCharacters = "ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789";
-
   /**
-   * Creates a random error instance identifier / support reference identifier.
+   * Creates an error instance identifier / support reference identifier (see `ErrorInstanceIdUtils` to configure its format, prefix and checksum).
    */
   static createErrorInstanceId(): string {
-    const pickCharacter = () =>
-      ErrorUtils._errorInstanceIdCharacters[Math.floor(Math.random() * ErrorUtils._errorInstanceIdCharacters.length)];
-
-    const c1 = pickCharacter();
-    const c2 = pickCharacter();
-    const c3 = pickCharacter();
-    const c4 = pickCharacter();
-    const c5 = pickCharacter();
-    const c6 = pickCharacter();
-    const c7 = pickCharacter();
-    const c8 = pickCharacter();
-
-    return `${c1}${c2}${c3}${c4}-${c5}${c6}${c7}${c8}`;
+    return ErrorInstanceIdUtils.create();
   }
 
   /**
    * Converts a given value caught in a try/catch to a string.
+   * Errors are serialised with their custom properties and cause chains, and circular references are replaced (see `ErrorSerializationUtils`).
+   * NOTE: Sensitive data is redacted (see `RedactionUtils`).
    * @param error
    * @returns string
    */
   static toErrorString(error: unknown): string {
-    if (StringUtils.isString(error)) return String(error);
-
-    // NOTE: The `Error` object does NOT behave like a normal object and does not serialize with JSON.stringify().
-    if (error instanceof Error)
-      return JSON.stringify({
-        message: error.message,
-        name: error.name,
-        stack: error.stack,
-        cause: error.cause,
-      });
+    if (StringUtils.isString(error)) return RedactionUtils.redactString(error);
 
     try {
-      return JSON.stringify(error);
+      // NOTE: The `Error` object does NOT behave like a normal object and does not serialize with JSON.stringify() (hence the serializer).
+      return JSON.stringify(RedactionUtils.redact(ErrorSerializationUtils.serialize(error)));
     } catch {
-      // NOTE: An error could be thrown if the object has a circular reference.
-      return String(error);
+      // NOTE: An error could still be thrown by an exotic value (e.g. a proxy), and even by converting it into a string.
+      try {
+        return RedactionUtils.redactString(String(error));
+      } catch {
+        return `[Unserializable ${typeof error}]`;
+      }
     }
   }
 
@@ -85,6 +72,20 @@ export abstract class ErrorUtils {
     context: string | StandardLogPropertiesCore,
     technicalMessage?: ErrorMessage,
     ...optionalParams: NotError<unknown>[]
+  ): never {
+    ErrorUtils.throwAssertionFailedErrorWithCode(context, /* errorCode */ undefined, technicalMessage, ...optionalParams);
+  }
+
+  /**
+   * Throws an error with the given error code (see `AssertionFailedError.errorCode`) and technical message (and logs it). Never returns.
+   *
+   * @throws {AssertionFailedError}
+   */
+  static throwAssertionFailedErrorWithCode(
+    context: string | StandardLogPropertiesCore,
+    errorCode: string | undefined,
+    technicalMessage?: ErrorMessage,
+    ...optionalParams: NotError<unknown>[]
   ): never {
     // LOG the technical error (to a logging service for monitoring by a support team)
     LOG.assertionFailed(context, technicalMessage, ...optionalParams);
@@ -95,7 +96,7 @@ export abstract class ErrorUtils {
     if (optionalParams?.length > 0) {
       formattedMessage += ` - ${ErrorUtils.toErrorString(optionalParams)}`;
     }
-    throw new AssertionFailedError(formattedMessage);
+    throw new AssertionFailedError(formattedMessage, errorCode);
   }
 
   // /**
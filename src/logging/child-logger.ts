@@ -0,0 +1,150 @@
+// Types
+import type { ExtendableLogProperties, Logger, StandardLogProperties, StandardLogPropertiesCore } from "./logging.types";
+import type { NotError } from "../objects/object.types";
+import type { StandardApiErrorResponse } from "../apis/api.types";
+
+// Utilities
+import { LogPropertiesUtils } from "./log-properties.utilities";
+
+/**
+ * A logger with bound log properties (e.g. the context of a class and a correlation ID) that are merged into every entry
+ * before it is forwarded to the parent logger (see `LogPropertiesUtils.merge()`).
+ * @example
+ * ```typescript
+ * const log = LOG.child({ context: [domainContext, appContext, classContext], correlationId });
+ * log.start(this.loadUser.name); // context: MyDomain.MyApp.MyService.loadUser
+ * ```
+ */
+export class ChildLogger implements Logger {
+  private _parent: Logger;
+  private _properties: StandardLogProperties;
+
+  /**
+   * Instantiates a new `ChildLogger`.
+   * @param parent The logger to forward the entries to.
+   * @param properties The log properties to merge into every entry.
+   */
+  constructor(parent: Logger, properties: StandardLogProperties) {
+    this._parent = parent;
+    this._properties = { ...properties };
+  }
+
+  /**
+   * The bound log properties (e.g. to pass to the `ResultFactory`, or to `extend()` with the name of a method).
+   */
+  get logProperties(): ExtendableLogProperties {
+    return LogPropertiesUtils.create(this._properties);
+  }
+
+  /**
+   * @returns a logger with the given log properties merged into the bound log properties.
+   */
+  child(properties: StandardLogProperties): ChildLogger {
+    return new ChildLogger(this._parent, LogPropertiesUtils.merge(this._properties, properties));
+  }
+
+  /**
+   * Forwards the entry to the parent logger.
+   */
+  log(context: string | StandardLogPropertiesCore, message?: string | NotError<Record<string, unknown>> | unknown, ...optionalParams: unknown[]): void {
+    this._parent.log(this._merge(context), message, ...optionalParams);
+  }
+
+  /**
+   * Forwards the data to the parent logger (as-is, as there is no context).
+   */
+  logRaw(...data: unknown[]): void {
+    this._parent.logRaw(...data);
+  }
+
+  /**
+   * Forwards the entry to the parent logger.
+   */
+  start(context: string | StandardLogPropertiesCore, message?: string, ...optionalParams: NotError<unknown>[]): void {
+    this._parent.start(this._merge(context), message, ...optionalParams);
+  }
+
+  /**
+   * Forwards the entry to the parent logger.
+   */
+  end(context: string | StandardLogPropertiesCore, message?: string, ...optionalParams: NotError<unknown>[]): void {
+    this._parent.end(this._merge(context), message, ...optionalParams);
+  }
+
+  /**
+   * Forwards the entry to the parent logger.
+   */
+  effect(context: string | StandardLogPropertiesCore, message?: string, ...optionalParams: NotError<unknown>[]): void {
+    this._parent.effect(this._merge(context), message, ...optionalParams);
+  }
+
+  /**
+   * Forwards the entry to the parent logger.
+   */
+  eventHandler(context: string | StandardLogPropertiesCore, message?: string, ...optionalParams: NotError<unknown>[]): void {
+    this._parent.eventHandler(this._merge(context), message, ...optionalParams);
+  }
+
+  /**
+   * Forwards the entry to the parent logger.
+   */
+  debug(context: string | StandardLogPropertiesCore, message?: string | NotError<Record<string, unknown>> | unknown, ...optionalParams: NotError<unknown>[]): void {
+    this._parent.debug(this._merge(context), message, ...optionalParams);
+  }
+
+  /**
+   * Forwards the entry to the parent logger.
+   */
+  success(context: string | StandardLogPropertiesCore, message?: string | NotError<Record<string, unknown>> | unknown, ...optionalParams: NotError<unknown>[]): void {
+    this._parent.success(this._merge(context), message, ...optionalParams);
+  }
+
+  /**
+   * Forwards the entry to the parent logger.
+   */
+  info(context: string | StandardLogPropertiesCore, message?: string | NotError<Record<string, unknown>> | unknown, ...optionalParams: NotError<unknown>[]): void {
+    this._parent.info(this._merge(context), message, ...optionalParams);
+  }
+
+  /**
+   * Forwards the entry to the parent logger.
+   */
+  warn(context: string | StandardLogPropertiesCore, message?: string | NotError<Record<string, unknown>> | unknown, ...optionalParams: NotError<unknown>[]): void {
+    this._parent.warn(this._merge(context), message, ...optionalParams);
+  }
+
+  /**
+   * Forwards the entry to the parent logger.
+   */
+  error(context: string | StandardLogPropertiesCore, message?: string | Error | NotError<Record<string, unknown>> | unknown | undefined, ...optionalParams: NotError<unknown>[]): void {
+    this._parent.error(this._merge(context), message, ...optionalParams);
+  }
+
+  /**
+   * Forwards the entry to the parent logger.
+   */
+  technicalError(context: string | StandardLogPropertiesCore, message: string | Error | NotError<Record<string, unknown>> | unknown | undefined, ...optionalParams: NotError<unknown>[]): void {
+    this._parent.technicalError(this._merge(context), message, ...optionalParams);
+  }
+
+  /**
+   * Forwards the entry to the parent logger.
+   */
+  apiError(context: string | StandardLogPropertiesCore, errorDetails: StandardApiErrorResponse, ...optionalParams: NotError<unknown>[]): void {
+    this._parent.apiError(this._merge(context), errorDetails, ...optionalParams);
+  }
+
+  /**
+   * Forwards the entry to the parent logger.
+   */
+  assertionFailed(context: string | StandardLogPropertiesCore, message: string | Error | NotError<Record<string, unknown>> | unknown | undefined, ...optionalParams: NotError<unknown>[]): void {
+    this._parent.assertionFailed(this._merge(context), message, ...optionalParams);
+  }
+
+  /**
+   * @returns the log properties of the call merged into the bound log properties.
+   */
+  private _merge(context: string | StandardLogPropertiesCore): StandardLogProperties {
+    return LogPropertiesUtils.merge(this._properties, context);
+  }
+}
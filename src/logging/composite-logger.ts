@@ -0,0 +1,149 @@
+// Types
+import type { CompositeLoggerSink, Logger, StandardLogPropertiesCore } from "./logging.types";
+import type { NotError } from "../objects/object.types";
+import type { StandardApiErrorResponse } from "../apis/api.types";
+
+// Logging
+import { ConfigurableLogger } from "./configurable-logger";
+
+/**
+ * A logger that forwards every entry to multiple loggers (e.g. the console and a file), each filtered by its own minimum log levels.
+ * A logger that throws does not stop the entry from being forwarded to the other loggers.
+ * @example
+ * ```typescript
+ * LOG.setLogger(new CompositeLogger([
+ *   { logger: new ConsoleLogger() },
+ *   { logger: new JsonLogger({ output: fileStream }), levels: 'warn' },
+ * ]));
+ * ```
+ */
+export class CompositeLogger implements Logger {
+  private _sinks: ConfigurableLogger[];
+
+  /**
+   * Instantiates a new `CompositeLogger`.
+   * @param sinks The loggers to forward the entries to, with the minimum log levels of the entries to forward to each of them.
+   */
+  constructor(sinks: CompositeLoggerSink[]) {
+    this._sinks = sinks.map(({ logger, levels }) => new ConfigurableLogger(
+      logger,
+      typeof levels === 'string' ? { level: levels } : levels
+    ));
+  }
+
+  /**
+   * Forwards the entry to every sink.
+   */
+  log(context: string | StandardLogPropertiesCore, message?: string | NotError<Record<string, unknown>> | unknown, ...optionalParams: unknown[]): void {
+    this._forEachSink((sink) => sink.log(context, message, ...optionalParams));
+  }
+
+  /**
+   * Forwards the data to every sink.
+   */
+  logRaw(...data: unknown[]): void {
+    this._forEachSink((sink) => sink.logRaw(...data));
+  }
+
+  /**
+   * Forwards the entry to every sink.
+   */
+  start(context: string | StandardLogPropertiesCore, message?: string, ...optionalParams: NotError<unknown>[]): void {
+    this._forEachSink((sink) => sink.start(context, message, ...optionalParams));
+  }
+
+  /**
+   * Forwards the entry to every sink.
+   */
+  end(context: string | StandardLogPropertiesCore, message?: string, ...optionalParams: NotError<unknown>[]): void {
+    this._forEachSink((sink) => sink.end(context, message, ...optionalParams));
+  }
+
+  /**
+   * Forwards the entry to every sink.
+   */
+  effect(context: string | StandardLogPropertiesCore, message?: string, ...optionalParams: NotError<unknown>[]): void {
+    this._forEachSink((sink) => sink.effect(context, message, ...optionalParams));
+  }
+
+  /**
+   * Forwards the entry to every sink.
+   */
+  eventHandler(context: string | StandardLogPropertiesCore, message?: string, ...optionalParams: NotError<unknown>[]): void {
+    this._forEachSink((sink) => sink.eventHandler(context, message, ...optionalParams));
+  }
+
+  /**
+   * Forwards the entry to every sink.
+   */
+  debug(context: string | StandardLogPropertiesCore, message?: string | NotError<Record<string, unknown>> | unknown, ...optionalParams: NotError<unknown>[]): void {
+    this._forEachSink((sink) => sink.debug(context, message, ...optionalParams));
+  }
+
+  /**
+   * Forwards the entry to every sink.
+   */
+  success(context: string | StandardLogPropertiesCore, message?: string | NotError<Record<string, unknown>> | unknown, ...optionalParams: NotError<unknown>[]): void {
+    this._forEachSink((sink) => sink.success(context, message, ...optionalParams));
+  }
+
+  /**
+   * Forwards the entry to every sink.
+   */
+  info(context: string | StandardLogPropertiesCore, message?: string | NotError<Record<string, unknown>> | unknown, ...optionalParams: NotError<unknown>[]): void {
+    this._forEachSink((sink) => sink.info(context, message, ...optionalParams));
+  }
+
+  /**
+   * Forwards the entry to every sink.
+   */
+  warn(context: string | StandardLogPropertiesCore, message?: string | NotError<Record<string, unknown>> | unknown, ...optionalParams: NotError<unknown>[]): void {
+    this._forEachSink((sink) => sink.warn(context, message, ...optionalParams));
+  }
+
+  /**
+   * Forwards the entry to every sink.
+   */
+  error(context: string | StandardLogPropertiesCore, message?: string | Error | NotError<Record<string, unknown>> | unknown | undefined, ...optionalParams: NotError<unknown>[]): void {
+    this._forEachSink((sink) => sink.error(context, message, ...optionalParams));
+  }
+
+  /**
+   * Forwards the entry to every sink.
+   */
+  technicalError(context: string | StandardLogPropertiesCore, message: string | Error | NotError<Record<string, unknown>> | unknown | undefined, ...optionalParams: NotError<unknown>[]): void {
+    this._forEachSink((sink) => sink.technicalError(context, message, ...optionalParams));
+  }
+
+  /**
+   * Forwards the entry to every sink.
+   */
+  apiError(context: string | StandardLogPropertiesCore, errorDetails: StandardApiErrorResponse, ...optionalParams: NotError<unknown>[]): void {
+    this._forEachSink((sink) => sink.apiError(context, errorDetails, ...optionalParams));
+  }
+
+  /**
+   * Forwards the entry to every sink.
+   */
+  assertionFailed(context: string | StandardLogPropertiesCore, message: string | Error | NotError<Record<string, unknown>> | unknown | undefined, ...optionalParams: NotError<unknown>[]): void {
+    this._forEachSink((sink) => sink.assertionFailed(context, message, ...optionalParams));
+  }
+
+  /**
+   * Forwards to every sink, so that a sink that throws (e.g. a `JsonLogger` with a closed output stream) neither stops the other sinks nor throws into the caller.
+   * NOTE: The error of a failing sink is written with `console.error()` (rather than to the other sinks, which could fail the same way).
+   */
+  private _forEachSink(logToSink: (sink: ConfigurableLogger) => void): void {
+    for (const sink of this._sinks) {
+      try {
+        logToSink(sink);
+      } catch (err: unknown) {
+        try {
+          console.error("CompositeLogger - a sink failed to log an entry", err);
+        } catch {
+          // NOTE: There is nowhere left to report the error to.
+        }
+      }
+    }
+  }
+}
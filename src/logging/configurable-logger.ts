@@ -0,0 +1,266 @@
+// Types
+import type { LogLevel, LogLevelConfiguration, Logger, MinimumLogLevel, StandardLogProperties, StandardLogPropertiesCore } from "./logging.types";
+import type { NotError } from "../objects/object.types";
+import type { StandardApiErrorResponse } from "../apis/api.types";
+
+// Logging
+import { ChildLogger } from "./child-logger";
+
+// Utilities
+import { getRequestContext } from "./request-context";
+import { LogLevelUtils } from "./log-level.utilities";
+import { StringUtils } from "../string.utilities";
+
+/**
+ * A logger that filters entries by their level (globally and per context prefix) and forwards the remaining entries to another logger.
+ * The logger it forwards to and the levels can be changed at runtime, so that every module that imported the `LOG` singleton
+ * uses the new logger or levels.
+ * NOTE: The `correlationId` and `context` of the ambient request context (see `runWithContext()`) are used if they are omitted.
+ */
+export class ConfigurableLogger implements Logger {
+  private _logger: Logger;
+  private _configuration: LogLevelConfiguration;
+
+  /**
+   * Instantiates a new `ConfigurableLogger`.
+   * @param logger The logger to forward the entries to.
+   * @param configuration The minimum log levels (defaults to logging everything).
+   */
+  constructor(logger: Logger, configuration: LogLevelConfiguration = { level: 'debug' }) {
+    this._logger = logger;
+    this._configuration = ConfigurableLogger._copyConfiguration(configuration);
+  }
+
+  /**
+   * The logger that the entries are forwarded to.
+   */
+  get logger(): Logger {
+    return this._logger;
+  }
+
+  /**
+   * The current minimum log levels.
+   */
+  get configuration(): LogLevelConfiguration {
+    return ConfigurableLogger._copyConfiguration(this._configuration);
+  }
+
+  /**
+   * Replaces the logger that the entries are forwarded to (e.g. `LOG.setLogger(new JsonLogger())`).
+   */
+  setLogger(logger: Logger): void {
+    this._logger = logger;
+  }
+
+  /**
+   * Replaces all the minimum log levels (e.g. `LOG.configure(LogLevelUtils.fromEnvironment())`).
+   */
+  configure(configuration: LogLevelConfiguration): void {
+    this._configuration = ConfigurableLogger._copyConfiguration(configuration);
+  }
+
+  /**
+   * Sets the global minimum log level, or the minimum log level of a context prefix (e.g. `LOG.setLevel('debug', 'MyDomain.MyApp')`).
+   */
+  setLevel(level: MinimumLogLevel, contextPrefix?: string): void {
+    if (contextPrefix) {
+      this._configuration.contexts = { ...this._configuration.contexts, [contextPrefix]: level };
+    } else {
+      this._configuration.level = level;
+    }
+  }
+
+  /**
+   * @returns true if an entry of the given level and caller context would be logged.
+   */
+  isLevelEnabled(level: LogLevel, context: string | StandardLogPropertiesCore): boolean {
+    return this._isLevelEnabledCore(level, this._withRequestContext(context));
+  }
+
+  /**
+   * @returns a logger that merges the given log properties (e.g. the context of a class and a correlation ID) into every entry,
+   * and forwards it to this logger (so that it is filtered by the current levels and forwarded to the current logger).
+   * @example
+   * ```typescript
+   * const log = LOG.child({ context: [domainContext, appContext, classContext], correlationId });
+   * log.start(this.loadUser.name);
+   * ```
+   */
+  child(properties: StandardLogProperties): ChildLogger {
+    return new ChildLogger(this, properties);
+  }
+
+  /**
+   * Logs an entry at the Info level.
+   */
+  log(context: string | StandardLogPropertiesCore, message?: string | NotError<Record<string, unknown>> | unknown, ...optionalParams: unknown[]): void {
+    const logProperties = this._withRequestContext(context);
+    if (this._isLevelEnabledCore('info', logProperties)) {
+      this._logger.log(logProperties, message, ...optionalParams);
+    }
+  }
+
+  /**
+   * Logs the given data at the Info level (filtered by the global level only, as there is no context).
+   */
+  logRaw(...data: unknown[]): void {
+    if (LogLevelUtils.isLevelEnabled('info', this._configuration.level)) {
+      this._logger.logRaw(...data);
+    }
+  }
+
+  /**
+   * Logs an entry at the Info level.
+   */
+  start(context: string | StandardLogPropertiesCore, message?: string, ...optionalParams: NotError<unknown>[]): void {
+    const logProperties = this._withRequestContext(context);
+    if (this._isLevelEnabledCore('info', logProperties)) {
+      this._logger.start(logProperties, message, ...optionalParams);
+    }
+  }
+
+  /**
+   * Logs an entry at the Info level.
+   */
+  end(context: string | StandardLogPropertiesCore, message?: string, ...optionalParams: NotError<unknown>[]): void {
+    const logProperties = this._withRequestContext(context);
+    if (this._isLevelEnabledCore('info', logProperties)) {
+      this._logger.end(logProperties, message, ...optionalParams);
+    }
+  }
+
+  /**
+   * Logs an entry at the Info level.
+   */
+  effect(context: string | StandardLogPropertiesCore, message?: string, ...optionalParams: NotError<unknown>[]): void {
+    const logProperties = this._withRequestContext(context);
+    if (this._isLevelEnabledCore('info', logProperties)) {
+      this._logger.effect(logProperties, message, ...optionalParams);
+    }
+  }
+
+  /**
+   * Logs an entry at the Info level.
+   */
+  eventHandler(context: string | StandardLogPropertiesCore, message?: string, ...optionalParams: NotError<unknown>[]): void {
+    const logProperties = this._withRequestContext(context);
+    if (this._isLevelEnabledCore('info', logProperties)) {
+      this._logger.eventHandler(logProperties, message, ...optionalParams);
+    }
+  }
+
+  /**
+   * Logs an entry at the Debug level.
+   */
+  debug(context: string | StandardLogPropertiesCore, message?: string | NotError<Record<string, unknown>> | unknown, ...optionalParams: NotError<unknown>[]): void {
+    const logProperties = this._withRequestContext(context);
+    if (this._isLevelEnabledCore('debug', logProperties)) {
+      this._logger.debug(logProperties, message, ...optionalParams);
+    }
+  }
+
+  /**
+   * Logs an entry at the Info level.
+   */
+  success(context: string | StandardLogPropertiesCore, message?: string | NotError<Record<string, unknown>> | unknown, ...optionalParams: NotError<unknown>[]): void {
+    const logProperties = this._withRequestContext(context);
+    if (this._isLevelEnabledCore('info', logProperties)) {
+      this._logger.success(logProperties, message, ...optionalParams);
+    }
+  }
+
+  /**
+   * Logs an entry at the Info level.
+   */
+  info(context: string | StandardLogPropertiesCore, message?: string | NotError<Record<string, unknown>> | unknown, ...optionalParams: NotError<unknown>[]): void {
+    const logProperties = this._withRequestContext(context);
+    if (this._isLevelEnabledCore('info', logProperties)) {
+      this._logger.info(logProperties, message, ...optionalParams);
+    }
+  }
+
+  /**
+   * Logs an entry at the Warn level.
+   */
+  warn(context: string | StandardLogPropertiesCore, message?: string | NotError<Record<string, unknown>> | unknown, ...optionalParams: NotError<unknown>[]): void {
+    const logProperties = this._withRequestContext(context);
+    if (this._isLevelEnabledCore('warn', logProperties)) {
+      this._logger.warn(logProperties, message, ...optionalParams);
+    }
+  }
+
+  /**
+   * Logs an entry at the Error level.
+   */
+  error(context: string | StandardLogPropertiesCore, message?: string | Error | NotError<Record<string, unknown>> | unknown | undefined, ...optionalParams: NotError<unknown>[]): void {
+    const logProperties = this._withRequestContext(context);
+    if (this._isLevelEnabledCore('error', logProperties)) {
+      this._logger.error(logProperties, message, ...optionalParams);
+    }
+  }
+
+  /**
+   * Logs an entry at the Error level.
+   */
+  technicalError(context: string | StandardLogPropertiesCore, message: string | Error | NotError<Record<string, unknown>> | unknown | undefined, ...optionalParams: NotError<unknown>[]): void {
+    const logProperties = this._withRequestContext(context);
+    if (this._isLevelEnabledCore('error', logProperties)) {
+      this._logger.technicalError(logProperties, message, ...optionalParams);
+    }
+  }
+
+  /**
+   * Logs an entry at the Error level.
+   */
+  apiError(context: string | StandardLogPropertiesCore, errorDetails: StandardApiErrorResponse, ...optionalParams: NotError<unknown>[]): void {
+    const logProperties = this._withRequestContext(context);
+    if (this._isLevelEnabledCore('error', logProperties)) {
+      this._logger.apiError(logProperties, errorDetails, ...optionalParams);
+    }
+  }
+
+  /**
+   * Logs an entry at the Error level.
+   */
+  assertionFailed(context: string | StandardLogPropertiesCore, message: string | Error | NotError<Record<string, unknown>> | unknown | undefined, ...optionalParams: NotError<unknown>[]): void {
+    const logProperties = this._withRequestContext(context);
+    if (this._isLevelEnabledCore('error', logProperties)) {
+      this._logger.assertionFailed(logProperties, message, ...optionalParams);
+    }
+  }
+
+  /**
+   * @returns true if an entry of the given level and (already merged with the request context) caller context would be logged.
+   */
+  private _isLevelEnabledCore(level: LogLevel, context: string | StandardLogPropertiesCore): boolean {
+    const minimumLevel = LogLevelUtils.resolveMinimumLevel(this._configuration, LogLevelUtils.toContextSegments(context));
+    return LogLevelUtils.isLevelEnabled(level, minimumLevel);
+  }
+
+  /**
+   * @returns the caller context with the `correlationId` and `context` of the ambient request context (see `runWithContext()`) if they are omitted.
+   */
+  private _withRequestContext(context: string | StandardLogPropertiesCore): string | StandardLogPropertiesCore {
+    const requestContext = getRequestContext();
+    if (!requestContext) {
+      return context;
+    }
+
+    if (StringUtils.isString(context)) {
+      return requestContext.correlationId ? { context: context.split('.'), correlationId: requestContext.correlationId } : context;
+    }
+
+    return {
+      ...context,
+      context: context.context ?? requestContext.context,
+      correlationId: context.correlationId ?? requestContext.correlationId,
+    };
+  }
+
+  /**
+   * @returns a copy of the configuration (so that it cannot be changed other than through `configure()` and `setLevel()`).
+   */
+  private static _copyConfiguration(configuration: LogLevelConfiguration): LogLevelConfiguration {
+    return { level: configuration.level, contexts: { ...configuration.contexts } };
+  }
+}
@@ -4,8 +4,10 @@ import type { NotError } from "../objects/object.types";
 import type { StandardApiErrorResponse } from "../apis/api.types";
 
 // Utilities
+import { ErrorSerializationUtils } from "../errors/error-serialization.utilities";
 import { ErrorUtils } from "../errors/error.utilities";
 import { LoggingUtils } from "./logging.utilities";
+import { RedactionUtils } from "./redaction.utilities";
 import { StringUtils } from "../string.utilities";
 
 /**
@@ -24,7 +26,7 @@ export class ConsoleLogger implements Logger {
    */
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   logRaw(...data: any[]): void {
-    console.log(...data);
+    console.log(...this._redactParams(data));
   }
 
   /**
@@ -120,7 +122,7 @@ export class ConsoleLogger implements Logger {
     message?: string | NotError<Record<string, unknown>> | NotError<unknown> | undefined,
     ...optionalParams: NotError<unknown>[]
   ): void {
-    console.log(this._formatLogMessage(prefixText, context, message), ...optionalParams);
+    console.log(this._formatLogMessage(prefixText, context, message), ...this._redactParams(optionalParams));
   }
 
   /**
@@ -132,7 +134,7 @@ export class ConsoleLogger implements Logger {
     message?: string | NotError<Record<string, unknown>> | NotError<unknown> | undefined,
     ...optionalParams: NotError<unknown>[]
   ): void {
-    console.debug(this._formatLogMessage(prefixText, context, message), ...optionalParams);
+    console.debug(this._formatLogMessage(prefixText, context, message), ...this._redactParams(optionalParams));
   }
 
   /**
@@ -144,7 +146,7 @@ export class ConsoleLogger implements Logger {
     message?: string | NotError<Record<string, unknown>> | NotError<unknown> | undefined,
     ...optionalParams: NotError<unknown>[]
   ): void {
-    console.info(this._formatLogMessage(prefixText, context, message), ...optionalParams);
+    console.info(this._formatLogMessage(prefixText, context, message), ...this._redactParams(optionalParams));
   }
 
   /**
@@ -156,18 +158,26 @@ export class ConsoleLogger implements Logger {
     message?: string | NotError<Record<string, unknown>> | NotError<unknown> | undefined,
     ...optionalParams: NotError<unknown>[]
   ): void {
-    console.warn(this._formatLogMessage(prefixText, context, message), ...optionalParams);
+    console.warn(this._formatLogMessage(prefixText, context, message), ...this._redactParams(optionalParams));
   }
 
   /**
    *
    */
   private _errorCore(prefixText: string, context: string | StandardLogPropertiesCore, message?: string | Error | Record<string, unknown> | unknown | undefined, ...optionalParams: NotError<unknown>[]): void {
-    console.error(this._formatLogMessage(prefixText, context, message), ...optionalParams);
+    console.error(this._formatLogMessage(prefixText, context, message), ...this._redactParams(optionalParams));
   }
 
   /**
-   * Formats a log message into a single string.
+   * @returns the optional parameters serialised (see `ErrorSerializationUtils`, so that e.g. a throwing getter cannot throw into the caller)
+   * with sensitive data redacted (see `RedactionUtils`).
+   */
+  private _redactParams(optionalParams: unknown[]): unknown[] {
+    return optionalParams.map((optionalParam) => RedactionUtils.redact(ErrorSerializationUtils.serialize(optionalParam)));
+  }
+
+  /**
+   * Formats a log message into a single string (with sensitive data redacted, see `RedactionUtils`).
    */
   private _formatLogMessage(prefixText: string, context: string | StandardLogPropertiesCore, message?: string | Error | Record<string, unknown> | unknown | undefined): string {
     const timePrefix = new Date().toISOString();
@@ -184,7 +194,7 @@ export class ConsoleLogger implements Logger {
     }
 
     if (!message || StringUtils.isString(message)) {
-      formatted += (message ? ` - ${message}` : '');
+      formatted += (message ? ` - ${RedactionUtils.redactString(String(message))}` : '');
     } else {
       formatted += ErrorUtils.toErrorString(message);
     }
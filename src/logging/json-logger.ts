@@ -0,0 +1,180 @@
+// Types
+import type { JsonLogEntry, JsonLoggerOptions, LogLevel, LogOutput, Logger, StandardLogPropertiesCore } from "./logging.types";
+import type { NotError } from "../objects/object.types";
+import type { StandardApiErrorResponse } from "../apis/api.types";
+
+// Utilities
+import { ErrorSerializationUtils } from "../errors/error-serialization.utilities";
+import { LoggingUtils } from "./logging.utilities";
+import { ObjectUtils } from "../objects/object.utilities";
+import { RedactionUtils } from "./redaction.utilities";
+import { StringUtils } from "../string.utilities";
+
+/**
+ * A class used to log structured messages, written as one JSON object per line (see `JsonLogEntry`) so that they can be indexed by a log pipeline.
+ * NOTE: Sensitive data is redacted (see `RedactionUtils`).
+ */
+export class JsonLogger implements Logger {
+  private _output: LogOutput;
+  private _now: () => Date;
+
+  /**
+   * Instantiates a new `JsonLogger`.
+   * @param options The output to write to (defaults to `process.stdout`) and the clock to use for timestamps.
+   */
+  constructor(options: JsonLoggerOptions = {}) {
+    this._output = options.output ?? process.stdout;
+    this._now = options.now ?? (() => new Date());
+  }
+
+  /**
+   * Logs an entry at the Info level with the `LOG` prefix.
+   */
+  log(context: string | StandardLogPropertiesCore, message?: string | NotError<Record<string, unknown>> | unknown, ...optionalParams: unknown[]): void {
+    this._writeEntry('info', 'LOG', context, message, optionalParams);
+  }
+
+  /**
+   * Logs the given data as the `params` of an entry at the Info level with the `RAW` prefix.
+   */
+  logRaw(...data: unknown[]): void {
+    this._writeEntry('info', 'RAW', '', undefined, data);
+  }
+
+  /**
+   * Logs an entry at the Info level with the `START` prefix.
+   */
+  start(context: string | StandardLogPropertiesCore, message?: string, ...optionalParams: NotError<unknown>[]): void {
+    this._writeEntry('info', 'START', context, message, optionalParams);
+  }
+
+  /**
+   * Logs an entry at the Info level with the `END` prefix.
+   */
+  end(context: string | StandardLogPropertiesCore, message?: string, ...optionalParams: NotError<unknown>[]): void {
+    this._writeEntry('info', 'END', context, message, optionalParams);
+  }
+
+  /**
+   * Logs an entry at the Info level with the `EFFECT` prefix.
+   */
+  effect(context: string | StandardLogPropertiesCore, message?: string, ...optionalParams: NotError<unknown>[]): void {
+    this._writeEntry('info', 'EFFECT', context, message, optionalParams);
+  }
+
+  /**
+   * Logs an entry at the Info level with the `EVENT_HANDLER` prefix.
+   */
+  eventHandler(context: string | StandardLogPropertiesCore, message?: string, ...optionalParams: NotError<unknown>[]): void {
+    this._writeEntry('info', 'EVENT_HANDLER', context, message, optionalParams);
+  }
+
+  /**
+   * Logs an entry at the Debug level with the `DEBUG` prefix.
+   */
+  debug(context: string | StandardLogPropertiesCore, message?: string | NotError<Record<string, unknown>> | unknown, ...optionalParams: NotError<unknown>[]): void {
+    this._writeEntry('debug', 'DEBUG', context, message, optionalParams);
+  }
+
+  /**
+   * Logs an entry at the Info level with the `SUCCESS` prefix.
+   */
+  success(context: string | StandardLogPropertiesCore, message?: string | NotError<Record<string, unknown>> | unknown, ...optionalParams: NotError<unknown>[]): void {
+    this._writeEntry('info', 'SUCCESS', context, message, optionalParams);
+  }
+
+  /**
+   * Logs an entry at the Info level with the `INFO` prefix.
+   */
+  info(context: string | StandardLogPropertiesCore, message?: string | NotError<Record<string, unknown>> | unknown, ...optionalParams: NotError<unknown>[]): void {
+    this._writeEntry('info', 'INFO', context, message, optionalParams);
+  }
+
+  /**
+   * Logs an entry at the Warn level with the `WARN` prefix.
+   */
+  warn(context: string | StandardLogPropertiesCore, message?: string | NotError<Record<string, unknown>> | unknown, ...optionalParams: NotError<unknown>[]): void {
+    this._writeEntry('warn', 'WARN', context, message, optionalParams);
+  }
+
+  /**
+   * Logs an entry at the Error level with the `ERROR` prefix.
+   */
+  error(context: string | StandardLogPropertiesCore, message?: string | Error | NotError<Record<string, unknown>> | unknown | undefined, ...optionalParams: NotError<unknown>[]): void {
+    this._writeEntry('error', 'ERROR', context, message, optionalParams);
+  }
+
+  /**
+   * Logs an entry at the Error level with the `TECHNICAL_ERROR` prefix.
+   */
+  technicalError(context: string | StandardLogPropertiesCore, message: string | Error | NotError<Record<string, unknown>> | unknown | undefined, ...optionalParams: NotError<unknown>[]): void {
+    this._writeEntry('error', 'TECHNICAL_ERROR', context, message, optionalParams);
+  }
+
+  /**
+   * Logs an entry at the Error level with the `API_ERROR` prefix (and the error details as the `data`).
+   */
+  apiError(context: string | StandardLogPropertiesCore, errorDetails: StandardApiErrorResponse, ...optionalParams: NotError<unknown>[]): void {
+    this._writeEntry('error', 'API_ERROR', context, errorDetails, optionalParams);
+  }
+
+  /**
+   * Logs an entry at the Error level with the `ASSERTION_FAILED` prefix.
+   */
+  assertionFailed(context: string | StandardLogPropertiesCore, message: string | Error | NotError<Record<string, unknown>> | unknown | undefined, ...optionalParams: NotError<unknown>[]): void {
+    this._writeEntry('error', 'ASSERTION_FAILED', context, message, optionalParams);
+  }
+
+  /**
+   * Creates a log entry and writes it to the output as a single line of JSON.
+   * A string message is the `message`, an `Error` message is the `message` and (serialised, including its causes) the `error`,
+   * and any other message is the `data` of the entry.
+   */
+  private _writeEntry(
+    level: LogLevel,
+    prefix: string,
+    context: string | StandardLogPropertiesCore,
+    message: unknown,
+    optionalParams: unknown[]
+  ): void {
+    const entry: JsonLogEntry = {
+      ...(StringUtils.isString(context) ? {} : this._toExtraProperties(context)),
+      timestamp: this._now().toISOString(),
+      level,
+      prefix,
+      context: LoggingUtils.formatLogPropertiesCallerContext(context),
+    };
+
+    if (!StringUtils.isString(context)) {
+      if (context.correlationId) {
+        entry.correlationId = context.correlationId;
+      }
+      if (context.errorInstanceId) {
+        entry.errorInstanceId = context.errorInstanceId;
+      }
+    }
+
+    if (StringUtils.isString(message)) {
+      entry.message = String(message);
+    } else if (message instanceof Error) {
+      entry.message = message.message;
+      entry.error = message;
+    } else if (!ObjectUtils.isTypeOfUndefined(message)) {
+      entry.data = message;
+    }
+
+    if (optionalParams.length > 0) {
+      entry.params = optionalParams;
+    }
+
+    this._output.write(`${JSON.stringify(RedactionUtils.redact(ErrorSerializationUtils.serialize(entry)))}\n`);
+  }
+
+  /**
+   * @returns the log properties other than the standard ones (which are written as top-level fields of the entry).
+   */
+  private _toExtraProperties(logProperties: StandardLogPropertiesCore): Record<string, unknown> {
+    const { context: _context, correlationId: _correlationId, errorInstanceId: _errorInstanceId, ...extraProperties } = logProperties as Record<string, unknown>;
+    return extraProperties;
+  }
+}
@@ -0,0 +1,122 @@
+// Types
+import type { LogLevel, LogLevelConfiguration, MinimumLogLevel, StandardLogPropertiesCore } from "./logging.types";
+
+// Utilities
+import { StringUtils } from "../string.utilities";
+
+/**
+ * The severity of each minimum log level (an entry is logged if the severity of its level is at least the minimum).
+ */
+const severities: Record<MinimumLogLevel, number> = {
+  debug: 0,
+  info: 1,
+  warn: 2,
+  error: 3,
+  silent: 4,
+};
+
+/**
+ * The separator in the context prefixes that `LogPropertiesUtils.withContextPrefix()` adds, e.g. `ResultFactory - TechnicalErrorResult`.
+ */
+const callerContextPrefixSeparator = ' - ';
+
+/**
+ * The environment variable with the global minimum log level (e.g. `LOG_LEVEL=info`).
+ */
+export const logLevelEnvironmentVariable = 'LOG_LEVEL';
+
+/**
+ * The environment variable with the minimum log levels of specific contexts (e.g. `LOG_CONTEXT_LEVELS=MyDomain.MyApp=debug,MyDomain.Noisy=warn`).
+ */
+export const logContextLevelsEnvironmentVariable = 'LOG_CONTEXT_LEVELS';
+
+/**
+ * Log level-related utility functions.
+ */
+export abstract class LogLevelUtils {
+  /**
+   * @returns true if the value is a minimum log level (`debug`, `info`, `warn`, `error` or `silent`).
+   */
+  static isMinimumLogLevel(value: unknown): value is MinimumLogLevel {
+    return typeof value === 'string' && Object.hasOwn(severities, value);
+  }
+
+  /**
+   * @returns true if an entry of the given level is logged when the minimum level is `minimumLevel`.
+   */
+  static isLevelEnabled(level: LogLevel, minimumLevel: MinimumLogLevel): boolean {
+    return severities[level] >= severities[minimumLevel];
+  }
+
+  /**
+   * Resolves the minimum log level of a caller context, i.e. the level of the longest matching context prefix (see `matchesContextPrefix()`), or else the global level.
+   */
+  static resolveMinimumLevel(configuration: LogLevelConfiguration, context: readonly string[]): MinimumLogLevel {
+    let minimumLevel = configuration.level;
+    let matchedSegmentCount = 0;
+
+    for (const [contextPrefix, contextLevel] of Object.entries(configuration.contexts ?? {})) {
+      const prefixSegments = contextPrefix.split('.');
+      if (prefixSegments.length > matchedSegmentCount && LogLevelUtils.matchesContextPrefix(context, contextPrefix)) {
+        minimumLevel = contextLevel;
+        matchedSegmentCount = prefixSegments.length;
+      }
+    }
+
+    return minimumLevel;
+  }
+
+  /**
+   * Parses comma-separated context levels (e.g. `MyDomain.MyApp=debug,MyDomain.Noisy=warn`) into minimum levels keyed by context prefix.
+   * NOTE: Entries without a context prefix or with an unknown level are ignored.
+   */
+  static parseContextLevels(text: string): Record<string, MinimumLogLevel> {
+    const contextLevels: Record<string, MinimumLogLevel> = {};
+
+    for (const entry of text.split(',')) {
+      const separatorIndex = entry.lastIndexOf('=');
+      const contextPrefix = entry.slice(0, separatorIndex).trim();
+      const level = entry.slice(separatorIndex + 1).trim().toLowerCase();
+      if (separatorIndex > 0 && contextPrefix && LogLevelUtils.isMinimumLogLevel(level)) {
+        contextLevels[contextPrefix] = level;
+      }
+    }
+
+    return contextLevels;
+  }
+
+  /**
+   * Reads the log level configuration from the `LOG_LEVEL` and `LOG_CONTEXT_LEVELS` environment variables.
+   * NOTE: The global level defaults to `debug` (i.e. everything is logged) if `LOG_LEVEL` is not set or is not a known level.
+   */
+  static fromEnvironment(env: Record<string, string | undefined> = process.env): LogLevelConfiguration {
+    const level = env[logLevelEnvironmentVariable]?.trim().toLowerCase();
+    const contextLevels = env[logContextLevelsEnvironmentVariable];
+
+    return {
+      level: LogLevelUtils.isMinimumLogLevel(level) ? level : 'debug',
+      contexts: contextLevels ? LogLevelUtils.parseContextLevels(contextLevels) : {},
+    };
+  }
+
+  /**
+   * @returns the segments of a caller context (as a dotted string or from a StandardLogPropertiesCore object).
+   */
+  static toContextSegments(context: string | StandardLogPropertiesCore): readonly string[] {
+    return StringUtils.isString(context) ? context.split('.') : context.context ?? [];
+  }
+
+  /**
+   * @returns true if the context starts with the segments of the dotted context prefix, e.g. `MyDomain.MyApp` matches `MyDomain.MyApp.MyService`
+   * (but not `Other.MyDomain.MyApp`). The leading segments that are added by `LogPropertiesUtils.withContextPrefix()` (of the form `Class - operation`)
+   * are skipped, so that e.g. `MyDomain.MyApp` also matches the entries of the `ResultFactory` for that caller
+   * (whose context starts with e.g. `ResultFactory - ShortCircuitedErrorResult`).
+   */
+  static matchesContextPrefix(context: readonly string[], contextPrefix: string): boolean {
+    const segments = contextPrefix.split('.');
+    const start = context.findIndex((segment) => !segment.includes(callerContextPrefixSeparator));
+    return start !== -1
+      && start + segments.length <= context.length
+      && segments.every((segment, index) => context[start + index] === segment);
+  }
+}
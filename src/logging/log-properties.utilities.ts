@@ -0,0 +1,59 @@
+// Types
+import type { ExtendableLogProperties, StandardLogProperties, StandardLogPropertiesCore } from "./logging.types";
+
+// Utilities
+import { getRequestContext } from "./request-context";
+import { StringUtils } from "../string.utilities";
+
+/**
+ * Log properties-related utility functions.
+ */
+export abstract class LogPropertiesUtils {
+  /**
+   * Creates log properties with an `extend()` helper (see `ExtendableLogProperties`).
+   * @example
+   * ```typescript
+   * const classLogProperties = LogPropertiesUtils.create({ context: [domainContext, appContext, classContext], correlationId });
+   * const logProperties = classLogProperties.extend(this.loadUser.name);
+   * ```
+   */
+  static create(properties: StandardLogProperties): ExtendableLogProperties {
+    const logProperties = { ...properties } as ExtendableLogProperties;
+    Object.defineProperty(logProperties, 'extend', {
+      value: (contextSegment: string, extraProperties: StandardLogProperties = {}) => LogPropertiesUtils.create(
+        LogPropertiesUtils.merge(logProperties, { ...extraProperties, context: [contextSegment, ...extraProperties.context ?? []] })
+      ),
+      enumerable: false,
+    });
+    return logProperties;
+  }
+
+  /**
+   * Merges the log properties of a call into bound log properties:
+   * the context of the call is appended to the bound context (a string context is appended as a single segment),
+   * and any other property of the call overrides the bound property (unless it is undefined).
+   */
+  static merge(boundProperties: StandardLogProperties, context: string | StandardLogPropertiesCore): StandardLogProperties {
+    const boundContext = boundProperties.context ?? [];
+    if (StringUtils.isString(context)) {
+      return { ...boundProperties, context: [...boundContext, context] };
+    }
+
+    const definedProperties = Object.fromEntries(Object.entries(context).filter(([, value]) => value !== undefined));
+    return { ...boundProperties, ...definedProperties, context: [...boundContext, ...context.context ?? []] };
+  }
+
+  /**
+   * @returns the log properties with the caller context prefixed with the context prefix (e.g. `ResultFactory - TechnicalErrorResult`),
+   * using the `correlationId` and `context` of the ambient request context if they are omitted (see `runWithContext()`).
+   */
+  static withContextPrefix<TProperties extends StandardLogPropertiesCore>(properties: TProperties, contextPrefix: string): TProperties {
+    const requestContext = getRequestContext();
+    const context = properties.context ?? requestContext?.context;
+    return {
+      ...properties,
+      context: context ? [contextPrefix, ...context] : [contextPrefix],
+      correlationId: properties.correlationId ?? requestContext?.correlationId,
+    };
+  }
+}
@@ -31,62 +31,243 @@ export type StandardLogPropertiesCore = {
  */
 export type StandardCallerContext = Array<string>;
 
+/**
+ * The ambient context of a request (see `runWithContext()`), which is used when the `correlationId` or `context` of
+ * a log entry, `ResultFactory` call or error result details is omitted.
+ */
+export type RequestContext = {
+  correlationId?: string | undefined;
+  context?: StandardCallerContext | undefined;
+};
+
+/**
+ * Log properties with an `extend()` helper that creates the log properties of a nested context (e.g. of a method of a class).
+ * NOTE: `extend()` is not enumerable, so it is not copied when the log properties are spread (or logged).
+ */
+export type ExtendableLogProperties = StandardLogProperties & {
+  /**
+   * @returns new log properties with the context segment appended to the context, and the given properties merged in.
+   * @example
+   * ```typescript
+   * const logProperties = classLogProperties.extend(this.loadUser.name, { userId });
+   * ```
+   */
+  extend(contextSegment: string, properties?: StandardLogProperties): ExtendableLogProperties;
+};
+
+/**
+ * The severity level of a log entry.
+ */
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+/**
+ * The minimum severity level of the entries to log (`silent` disables logging).
+ */
+export type MinimumLogLevel = LogLevel | 'silent';
+
+/**
+ * The minimum log levels of a `ConfigurableLogger`.
+ */
+export type LogLevelConfiguration = {
+  /**
+   * The minimum level of the entries of any context that has no more specific level.
+   */
+  level: MinimumLogLevel;
+
+  /**
+   * The minimum levels of the entries of specific contexts, keyed by dotted context prefix (e.g. `{ 'MyDomain.MyApp': 'debug' }`).
+   * NOTE: The most specific (i.e. longest) matching context prefix applies.
+   */
+  contexts?: Record<string, MinimumLogLevel> | undefined;
+};
+
+/**
+ * A logger that a `CompositeLogger` forwards the entries to, with the minimum log levels of the entries to forward to it
+ * (e.g. `{ logger: new JsonLogger({ output: fileStream }), levels: { level: 'warn' } }`).
+ */
+export type CompositeLoggerSink = {
+  logger: Logger;
+
+  /**
+   * The minimum log levels of the entries to forward to the logger (defaults to forwarding everything).
+   */
+  levels?: MinimumLogLevel | LogLevelConfiguration | undefined;
+};
+
+/**
+ * The name of a method of a `Logger` (e.g. `technicalError`).
+ */
+export type LoggerMethodName = keyof Logger;
+
+/**
+ * A log entry as recorded by the `MemoryLogger`.
+ */
+export type MemoryLogEntry = {
+  method: LoggerMethodName;
+  level: LogLevel;
+
+  /**
+   * The context of the entry, as given by the caller (undefined for `logRaw`).
+   */
+  context: string | StandardLogPropertiesCore | undefined;
+
+  message: unknown;
+  params: unknown[];
+};
+
+/**
+ * The criteria of the `MemoryLogger` query helpers (an entry matches if it meets all of the given criteria).
+ */
+export type MemoryLogEntryFilter = {
+  method?: LoggerMethodName | undefined;
+  level?: LogLevel | undefined;
+
+  /**
+   * A dotted context prefix that appears in the context of the entry (e.g. `MyDomain.MyApp`).
+   */
+  context?: string | undefined;
+
+  /**
+   * Text that the message (or the message of an `Error` message) includes, or a pattern that it matches.
+   */
+  message?: string | RegExp | undefined;
+};
+
+/**
+ * The options of the redaction of sensitive data from log entries and error messages (see `RedactionUtils`).
+ */
+export type RedactionOptions = {
+  /**
+   * The patterns of the keys whose values are redacted (e.g. `/password/i`).
+   */
+  keyPatterns: RegExp[];
+
+  /**
+   * The patterns of the (parts of) string values that are redacted (e.g. bearer tokens and email addresses).
+   */
+  valuePatterns: RegExp[];
+
+  /**
+   * The text that redacted values are replaced with.
+   */
+  replacement: string;
+
+  /**
+   * The maximum depth of nested objects and arrays (deeper values are replaced with `[MaxDepth]`).
+   */
+  maxDepth: number;
+
+  /**
+   * The maximum length of string values (longer strings are truncated before the value patterns are applied).
+   */
+  maxStringLength: number;
+};
+
+/**
+ * A destination that log lines are written to (e.g. `process.stdout` or a file stream).
+ */
+export type LogOutput = {
+  write(line: string): unknown;
+};
+
+/**
+ * Options for creating a `JsonLogger`.
+ */
+export type JsonLoggerOptions = {
+  /**
+   * The destination that log lines are written to (defaults to `process.stdout`).
+   */
+  output?: LogOutput | undefined;
+
+  /**
+   * The clock used for the timestamp of each entry (defaults to the current time).
+   */
+  now?: (() => Date) | undefined;
+};
+
+/**
+ * A structured log entry (as written by the `JsonLogger`, one JSON object per line).
+ * NOTE: Any extra `StandardLogProperties` fields are included as top-level fields of the entry.
+ */
+export type JsonLogEntry = {
+  timestamp: string;
+  level: LogLevel;
+  prefix: string;
+  context: string;
+  correlationId?: string;
+  errorInstanceId?: string;
+  message?: string;
+  error?: unknown;
+  data?: unknown;
+  params?: unknown[];
+  [property: string]: unknown;
+};
+
 /**
  * An interface that defines the methods of a logger.
  */
 export interface Logger {
   log(
     context: string | StandardLogPropertiesCore,
-    message?: string | NotError<Record<string, unknown>> | unknown
+    message?: string | NotError<Record<string, unknown>> | unknown,
+    ...optionalParams: unknown[]
   ): void;
 
-  logRaw(): void;
+  logRaw(...data: unknown[]): void;
 
-  start(context: string | StandardLogPropertiesCore, message?: string): void;
+  start(context: string | StandardLogPropertiesCore, message?: string, ...optionalParams: NotError<unknown>[]): void;
 
-  end(context: string | StandardLogPropertiesCore, message?: string): void;
+  end(context: string | StandardLogPropertiesCore, message?: string, ...optionalParams: NotError<unknown>[]): void;
 
-  effect(context: string | StandardLogPropertiesCore, message?: string): void;
+  effect(context: string | StandardLogPropertiesCore, message?: string, ...optionalParams: NotError<unknown>[]): void;
 
-  eventHandler(context: string | StandardLogPropertiesCore, message?: string): void;
+  eventHandler(context: string | StandardLogPropertiesCore, message?: string, ...optionalParams: NotError<unknown>[]): void;
 
   debug(
     context: string | StandardLogPropertiesCore,
-    message?: string | NotError<Record<string, unknown>> | unknown
+    message?: string | NotError<Record<string, unknown>> | unknown,
+    ...optionalParams: NotError<unknown>[]
   ): void;
 
   success(
     context: string | StandardLogPropertiesCore,
-    message?: string | NotError<Record<string, unknown>> | unknown
+    message?: string | NotError<Record<string, unknown>> | unknown,
+    ...optionalParams: NotError<unknown>[]
   ): void;
 
   info(
     context: string | StandardLogPropertiesCore,
-    message?: string | NotError<Record<string, unknown>> | unknown
+    message?: string | NotError<Record<string, unknown>> | unknown,
+    ...optionalParams: NotError<unknown>[]
   ): void;
 
   warn(
     context: string | StandardLogPropertiesCore,
-    message?: string | NotError<Record<string, unknown>> | unknown
+    message?: string | NotError<Record<string, unknown>> | unknown,
+    ...optionalParams: NotError<unknown>[]
   ): void;
 
   error(
     context: string | StandardLogPropertiesCore,
-    message?: string | Error | NotError<Record<string, unknown>> | unknown | undefined
+    message?: string | Error | NotError<Record<string, unknown>> | unknown | undefined,
+    ...optionalParams: NotError<unknown>[]
   ): void;
 
   technicalError(
     context: string | StandardLogPropertiesCore,
-    message: string | Error | NotError<Record<string, unknown>> | unknown | undefined
+    message: string | Error | NotError<Record<string, unknown>> | unknown | undefined,
+    ...optionalParams: NotError<unknown>[]
   ): void;
 
   apiError(
     context: string | StandardLogPropertiesCore,
-    errorDetails: StandardApiErrorResponse
+    errorDetails: StandardApiErrorResponse,
+    ...optionalParams: NotError<unknown>[]
   ): void;
 
   assertionFailed(
     context: string | StandardLogPropertiesCore,
-    message: string | Error | NotError<Record<string, unknown>> | unknown | undefined
+    message: string | Error | NotError<Record<string, unknown>> | unknown | undefined,
+    ...optionalParams: NotError<unknown>[]
   ): void;
 }
@@ -2,14 +2,17 @@
 import type { StandardCallerContext, StandardLogPropertiesCore } from "./logging.types";
 
 // Utilities
+import { ConfigurableLogger } from "./configurable-logger";
 import { ConsoleLogger } from "./console-logger";
+import { LogLevelUtils } from "./log-level.utilities";
 import { StringUtils } from "../string.utilities";
 
 /**
  * A singleton instance of the Logger class.
- * Customize this as necessary for your application.
+ * It forwards the entries to a `ConsoleLogger`, filtered by the minimum levels of the `LOG_LEVEL` and `LOG_CONTEXT_LEVELS` environment variables.
+ * Customize this as necessary for your application (e.g. `LOG.setLogger(new JsonLogger())` or `LOG.setLevel('debug', 'MyDomain.MyApp')`).
  */
-export const LOG = new ConsoleLogger();
+export const LOG = new ConfigurableLogger(new ConsoleLogger(), LogLevelUtils.fromEnvironment());
 
 /**
  * Logging-related utilities.
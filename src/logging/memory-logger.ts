@@ -0,0 +1,198 @@
+// Types
+import type { LogLevel, Logger, LoggerMethodName, MemoryLogEntry, MemoryLogEntryFilter, StandardLogPropertiesCore } from "./logging.types";
+import type { NotError } from "../objects/object.types";
+import type { StandardApiErrorResponse } from "../apis/api.types";
+
+// Utilities
+import { LogLevelUtils } from "./log-level.utilities";
+import { StringUtils } from "../string.utilities";
+
+/**
+ * A logger that records the entries in memory (e.g. to assert in tests what was logged).
+ * @example
+ * ```typescript
+ * const memoryLogger = new MemoryLogger();
+ * LOG.setLogger(memoryLogger);
+ * Result.apiError(logProperties, errorResponse);
+ * assert.equal(memoryLogger.count({ method: 'apiError' }), 1);
+ * ```
+ */
+export class MemoryLogger implements Logger {
+  private _entries: MemoryLogEntry[] = [];
+
+  /**
+   * The recorded entries (oldest first).
+   */
+  get entries(): readonly MemoryLogEntry[] {
+    return this._entries;
+  }
+
+  /**
+   * @returns the recorded entries that match the filter (or all the entries if there is no filter).
+   */
+  filter(filter: MemoryLogEntryFilter = {}): MemoryLogEntry[] {
+    return this._entries.filter((entry) => MemoryLogger._matches(entry, filter));
+  }
+
+  /**
+   * @returns the first recorded entry that matches the filter, or undefined if there is none.
+   */
+  find(filter: MemoryLogEntryFilter = {}): MemoryLogEntry | undefined {
+    return this._entries.find((entry) => MemoryLogger._matches(entry, filter));
+  }
+
+  /**
+   * @returns true if any recorded entry matches the filter.
+   */
+  has(filter: MemoryLogEntryFilter = {}): boolean {
+    return this._entries.some((entry) => MemoryLogger._matches(entry, filter));
+  }
+
+  /**
+   * @returns the number of recorded entries that match the filter.
+   */
+  count(filter: MemoryLogEntryFilter = {}): number {
+    return this.filter(filter).length;
+  }
+
+  /**
+   * Removes all the recorded entries.
+   */
+  clear(): void {
+    this._entries = [];
+  }
+
+  /**
+   * Records an entry at the Info level.
+   */
+  log(context: string | StandardLogPropertiesCore, message?: string | NotError<Record<string, unknown>> | unknown, ...optionalParams: unknown[]): void {
+    this._record('log', 'info', context, message, optionalParams);
+  }
+
+  /**
+   * Records the given data as the params of an entry at the Info level (without a context or message).
+   */
+  logRaw(...data: unknown[]): void {
+    this._record('logRaw', 'info', undefined, undefined, data);
+  }
+
+  /**
+   * Records an entry at the Info level.
+   */
+  start(context: string | StandardLogPropertiesCore, message?: string, ...optionalParams: NotError<unknown>[]): void {
+    this._record('start', 'info', context, message, optionalParams);
+  }
+
+  /**
+   * Records an entry at the Info level.
+   */
+  end(context: string | StandardLogPropertiesCore, message?: string, ...optionalParams: NotError<unknown>[]): void {
+    this._record('end', 'info', context, message, optionalParams);
+  }
+
+  /**
+   * Records an entry at the Info level.
+   */
+  effect(context: string | StandardLogPropertiesCore, message?: string, ...optionalParams: NotError<unknown>[]): void {
+    this._record('effect', 'info', context, message, optionalParams);
+  }
+
+  /**
+   * Records an entry at the Info level.
+   */
+  eventHandler(context: string | StandardLogPropertiesCore, message?: string, ...optionalParams: NotError<unknown>[]): void {
+    this._record('eventHandler', 'info', context, message, optionalParams);
+  }
+
+  /**
+   * Records an entry at the Debug level.
+   */
+  debug(context: string | StandardLogPropertiesCore, message?: string | NotError<Record<string, unknown>> | unknown, ...optionalParams: NotError<unknown>[]): void {
+    this._record('debug', 'debug', context, message, optionalParams);
+  }
+
+  /**
+   * Records an entry at the Info level.
+   */
+  success(context: string | StandardLogPropertiesCore, message?: string | NotError<Record<string, unknown>> | unknown, ...optionalParams: NotError<unknown>[]): void {
+    this._record('success', 'info', context, message, optionalParams);
+  }
+
+  /**
+   * Records an entry at the Info level.
+   */
+  info(context: string | StandardLogPropertiesCore, message?: string | NotError<Record<string, unknown>> | unknown, ...optionalParams: NotError<unknown>[]): void {
+    this._record('info', 'info', context, message, optionalParams);
+  }
+
+  /**
+   * Records an entry at the Warn level.
+   */
+  warn(context: string | StandardLogPropertiesCore, message?: string | NotError<Record<string, unknown>> | unknown, ...optionalParams: NotError<unknown>[]): void {
+    this._record('warn', 'warn', context, message, optionalParams);
+  }
+
+  /**
+   * Records an entry at the Error level.
+   */
+  error(context: string | StandardLogPropertiesCore, message?: string | Error | NotError<Record<string, unknown>> | unknown | undefined, ...optionalParams: NotError<unknown>[]): void {
+    this._record('error', 'error', context, message, optionalParams);
+  }
+
+  /**
+   * Records an entry at the Error level.
+   */
+  technicalError(context: string | StandardLogPropertiesCore, message: string | Error | NotError<Record<string, unknown>> | unknown | undefined, ...optionalParams: NotError<unknown>[]): void {
+    this._record('technicalError', 'error', context, message, optionalParams);
+  }
+
+  /**
+   * Records an entry at the Error level (with the error details as the message).
+   */
+  apiError(context: string | StandardLogPropertiesCore, errorDetails: StandardApiErrorResponse, ...optionalParams: NotError<unknown>[]): void {
+    this._record('apiError', 'error', context, errorDetails, optionalParams);
+  }
+
+  /**
+   * Records an entry at the Error level.
+   */
+  assertionFailed(context: string | StandardLogPropertiesCore, message: string | Error | NotError<Record<string, unknown>> | unknown | undefined, ...optionalParams: NotError<unknown>[]): void {
+    this._record('assertionFailed', 'error', context, message, optionalParams);
+  }
+
+  /**
+   * Records an entry.
+   */
+  private _record(
+    method: LoggerMethodName,
+    level: LogLevel,
+    context: string | StandardLogPropertiesCore | undefined,
+    message: unknown,
+    params: unknown[]
+  ): void {
+    this._entries.push({ method, level, context, message, params });
+  }
+
+  /**
+   * @returns true if the entry meets all the criteria of the filter.
+   */
+  private static _matches(entry: MemoryLogEntry, filter: MemoryLogEntryFilter): boolean {
+    if (filter.method && entry.method !== filter.method) {
+      return false;
+    }
+    if (filter.level && entry.level !== filter.level) {
+      return false;
+    }
+    if (filter.context && !LogLevelUtils.matchesContextPrefix(entry.context ? LogLevelUtils.toContextSegments(entry.context) : [], filter.context)) {
+      return false;
+    }
+    if (filter.message) {
+      const messageText = entry.message instanceof Error ? entry.message.message : entry.message;
+      if (!StringUtils.isString(messageText)) {
+        return false;
+      }
+      return StringUtils.isString(filter.message) ? messageText.includes(filter.message) : filter.message.test(messageText);
+    }
+    return true;
+  }
+}
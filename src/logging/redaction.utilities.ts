@@ -0,0 +1,136 @@
+// Types
+import type { RedactionOptions } from "./logging.types";
+
+// Utilities
+import { ErrorSerializationUtils } from "../errors/error-serialization.utilities";
+import { ObjectUtils } from "../objects/object.utilities";
+import { StringUtils } from "../string.utilities";
+
+/**
+ * The default redaction options: the values of keys such as `password`, `token` and `authorization`, and bearer tokens,
+ * JSON Web Tokens and email addresses in string values are redacted.
+ */
+const defaultRedactionOptions: RedactionOptions = {
+  keyPatterns: [/passw(or)?d|passphrase|secret|token|authorization|api[-_]?key|cookie|credential|private[-_]?key/i],
+  valuePatterns: [
+    /\bBearer\s+[\w\-.~+/]+=*/gi,
+    /\beyJ[\w-]+\.[\w-]+\.[\w-]+/g,
+    // NOTE: The lookbehind ensures that a run of characters is only tried once as the local part, so that long strings do not backtrack quadratically.
+    /(?<![\w.+-])[\w.+-]+@[\w-]+(\.[\w-]+)+/g,
+  ],
+  replacement: '[REDACTED]',
+  maxDepth: 10,
+  maxStringLength: 10_000,
+};
+
+/**
+ * Redaction-related utility functions, used by the loggers and `ErrorUtils.toErrorString()` (and therefore the error messages of the `ResultFactory`)
+ * so that sensitive data such as passwords and tokens does not end up in logs or error messages.
+ * Customize the redaction for your application with `RedactionUtils.configure()`.
+ */
+export abstract class RedactionUtils {
+  private static _options: RedactionOptions = RedactionUtils._normalizeOptions(defaultRedactionOptions);
+
+  /**
+   * The current redaction options.
+   */
+  static get options(): RedactionOptions {
+    return { ...RedactionUtils._options };
+  }
+
+  /**
+   * Replaces the redaction options (any omitted option is the default, so `RedactionUtils.configure({})` restores the defaults).
+   * @example
+   * ```typescript
+   * RedactionUtils.configure({ keyPatterns: [...RedactionUtils.defaultOptions.keyPatterns, /iban/i], maxStringLength: 2000 });
+   * ```
+   */
+  static configure(options: Partial<RedactionOptions>): void {
+    RedactionUtils._options = RedactionUtils._normalizeOptions({ ...defaultRedactionOptions, ...options });
+  }
+
+  /**
+   * The default redaction options.
+   */
+  static get defaultOptions(): RedactionOptions {
+    return { ...defaultRedactionOptions };
+  }
+
+  /**
+   * Truncates the text to the maximum string length (before the value patterns are applied, so that long strings are redacted quickly),
+   * and redacts the matches of the value patterns in it.
+   */
+  static redactString(text: string): string {
+    const { valuePatterns, replacement, maxStringLength } = RedactionUtils._options;
+    const truncated = text.length > maxStringLength ? `${text.slice(0, maxStringLength)}...` : text;
+    return valuePatterns.reduce((current, pattern) => current.replace(pattern, replacement), truncated);
+  }
+
+  /**
+   * @returns a redacted copy of the value: the values of keys that match a key pattern are replaced, strings are redacted as per `redactString()`,
+   * errors are converted into objects (see `ErrorSerializationUtils.serializeError()`), values with a `toJSON()` method are converted first,
+   * circular references are replaced with `[Circular]`, and values nested deeper than the maximum depth are replaced with `[MaxDepth]`.
+   */
+  static redact(value: unknown): unknown {
+    return RedactionUtils._redactValue(value, [], 0);
+  }
+
+  /**
+   * @returns a redacted copy of the value, as per `redact()`.
+   */
+  private static _redactValue(value: unknown, ancestors: object[], depth: number): unknown {
+    if (StringUtils.isString(value)) {
+      return RedactionUtils.redactString(value);
+    }
+
+    if (!ObjectUtils.isTypeOfObject(value)) {
+      return value;
+    }
+
+    if (ancestors.includes(value)) {
+      return '[Circular]';
+    }
+    if (depth >= RedactionUtils._options.maxDepth) {
+      return '[MaxDepth]';
+    }
+    const nextAncestors = [...ancestors, value];
+
+    if (value instanceof Error) {
+      return RedactionUtils._redactObject(ErrorSerializationUtils.serializeError(value), nextAncestors, depth);
+    }
+
+    if ('toJSON' in value && ObjectUtils.isTypeOfFunction(value.toJSON)) {
+      return RedactionUtils._redactValue(value.toJSON(), nextAncestors, depth);
+    }
+
+    if (Array.isArray(value)) {
+      return value.map((item) => RedactionUtils._redactValue(item, nextAncestors, depth + 1));
+    }
+
+    return RedactionUtils._redactObject(value, nextAncestors, depth);
+  }
+
+  /**
+   * @returns the own enumerable properties of the object, redacted as per `redact()`.
+   */
+  private static _redactObject(value: object, ancestors: object[], depth: number): Record<string, unknown> {
+    const { keyPatterns, replacement } = RedactionUtils._options;
+    return Object.fromEntries(Object.entries(value).map(([key, propertyValue]) => [
+      key,
+      keyPatterns.some((pattern) => pattern.test(key)) && !ObjectUtils.isTypeOfUndefined(propertyValue)
+        ? replacement
+        : RedactionUtils._redactValue(propertyValue, ancestors, depth + 1),
+    ]));
+  }
+
+  /**
+   * @returns the options with stateless key patterns (without the global flag) and value patterns that replace every match (with the global flag).
+   */
+  private static _normalizeOptions(options: RedactionOptions): RedactionOptions {
+    return {
+      ...options,
+      keyPatterns: options.keyPatterns.map((pattern) => new RegExp(pattern.source, pattern.flags.replace('g', ''))),
+      valuePatterns: options.valuePatterns.map((pattern) => pattern.global ? pattern : new RegExp(pattern.source, `${pattern.flags}g`)),
+    };
+  }
+}
@@ -0,0 +1,32 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+
+// Types
+import type { RequestContext } from "./logging.types";
+
+const requestContextStorage = new AsyncLocalStorage<RequestContext>();
+
+/**
+ * Runs the function with an ambient request context, which is available to everything that it calls (synchronously or asynchronously)
+ * through `getRequestContext()`. The `LOG` singleton, the `ResultFactory` and the error result details use its `correlationId` and
+ * `context` when they are omitted.
+ * NOTE: A nested call is merged with the outer request context (the defined properties of the nested request context take precedence).
+ * @example
+ * ```typescript
+ * app.use((req, res, next) => runWithContext({ correlationId: req.header('x-correlation-id') ?? randomUUID() }, next));
+ * ```
+ */
+export function runWithContext<T>(requestContext: RequestContext, fn: () => T): T {
+  const outerRequestContext = requestContextStorage.getStore();
+  const mergedRequestContext: RequestContext = {
+    correlationId: requestContext.correlationId ?? outerRequestContext?.correlationId,
+    context: requestContext.context ?? outerRequestContext?.context,
+  };
+  return requestContextStorage.run(mergedRequestContext, fn);
+}
+
+/**
+ * @returns the ambient request context of the current (asynchronous) call, or undefined if it is not running within `runWithContext()`.
+ */
+export function getRequestContext(): RequestContext | undefined {
+  return requestContextStorage.getStore();
+}
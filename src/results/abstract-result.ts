@@ -7,11 +7,15 @@ import type { ResultDiscriminantTag } from "./result.types";
 import type { ErrorResult } from "./error-result";
 
 // Error Result Details
+import { AggregateErrorResultDetails } from "./error-result-details/aggregate-error-result-details";
 import { ApiErrorResultDetails } from "./error-result-details/api-error-result-details";
 import { AssertionFailedErrorResultDetails } from "./error-result-details/assertion-failed-error-result-details";
+import { CancelledErrorResultDetails } from "./error-result-details/cancelled-error-result-details";
 import { ShortCircuitedErrorResultDetails } from "./error-result-details/short-circuited-error-result-details";
 import { TechnicalErrorResultDetails } from "./error-result-details/technical-error-result-details";
+import { TimeoutErrorResultDetails } from "./error-result-details/timeout-error-result-details";
 import { UserErrorResultDetails } from "./error-result-details/user-error-result-details";
+import { ValidationErrorResultDetails } from "./error-result-details/validation-error-result-details";
 
 // Utilities
 import { ObjectUtils } from "../objects/object.utilities";
@@ -37,6 +41,13 @@ export abstract class AbstractResult {
     return this.isError && ObjectUtils.isInstanceOf(ctor, this.errorDetails);
   }
 
+  /**
+   * @returns true if the result is an `AggregateErrorResult`.
+   */
+  isAggregateError(): this is ErrorResult<AggregateErrorResultDetails> {
+    return this.isErrorDetailsInstanceOf(AggregateErrorResultDetails);
+  }
+
   /**
    * @returns true if the result is an `ApiErrorResult`.
    */
@@ -51,6 +62,13 @@ export abstract class AbstractResult {
     return this.isErrorDetailsInstanceOf(AssertionFailedErrorResultDetails);
   }
 
+  /**
+   * @returns true if the result is a `CancelledErrorResult`.
+   */
+  isCancelledError(): this is ErrorResult<CancelledErrorResultDetails> {
+    return this.isErrorDetailsInstanceOf(CancelledErrorResultDetails);
+  }
+
   /**
    * @returns true if the result is a `TechnicalErrorResult`.
    */
@@ -58,6 +76,13 @@ export abstract class AbstractResult {
     return this.isErrorDetailsInstanceOf(TechnicalErrorResultDetails);
   }
 
+  /**
+   * @returns true if the result is a `TimeoutErrorResult`.
+   */
+  isTimeoutError(): this is ErrorResult<TimeoutErrorResultDetails> {
+    return this.isErrorDetailsInstanceOf(TimeoutErrorResultDetails);
+  }
+
   /**
    * @returns true if the result is a `UserErrorResult`.
    */
@@ -65,6 +90,13 @@ export abstract class AbstractResult {
     return this.isErrorDetailsInstanceOf(UserErrorResultDetails);
   }
 
+  /**
+   * @returns true if the result is a `ValidationErrorResult`.
+   */
+  isValidationError(): this is ErrorResult<ValidationErrorResultDetails> {
+    return this.isErrorDetailsInstanceOf(ValidationErrorResultDetails);
+  }
+
   /**
    * @returns true if the result is a `ShortCircuitedErrorResult`.
    */
@@ -0,0 +1,540 @@
+// Types
+import type { AbstractErrorResultDetails } from './error-result-details/abstract-error-result-details';
+import { Result, type AllErrorResultDetails, type ClassifiedErrorResultDetails, type ErrorResultFactory, type ResultMatcher, type ResultOperations } from './result.types';
+import type { StandardLogPropertiesCore } from '../logging/logging.types';
+
+// Errors
+import { UnreachableError } from '../errors/unreachable-error';
+
+// Results (type only to avoid circular dependencies)
+import type { ErrorResult } from './error-result';
+import type { OkResult } from './ok-result';
+
+/**
+ * A value that is either a `Result` or a promise of a `Result`.
+ */
+export type ResultOrPromiseLike<TOkValue, TErrorDetails extends AbstractErrorResultDetails = AllErrorResultDetails> =
+  | Result<TOkValue, TErrorDetails>
+  | PromiseLike<Result<TOkValue, TErrorDetails>>;
+
+/**
+ * A value that is either a value or a promise of a value.
+ */
+type ValueOrPromiseLike<TValue> = TValue | PromiseLike<TValue>;
+
+/**
+ * The concrete result classes (as opposed to the `Result` type which cannot be narrowed while its generic types are unresolved).
+ */
+type ResultInstance<TOkValue, TErrorDetails extends AbstractErrorResultDetails> = OkResult<TOkValue> | ErrorResult<TErrorDetails>;
+
+/**
+ * A chainable (and awaitable) asynchronous `Result`.
+ *
+ * Every method of `ResultOperations` is available so that an asynchronous pipeline can be written as one fluent chain
+ * and awaited once at the end. Methods that transform the result return a new `AsyncResultChain`,
+ * whereas methods that unwrap the result return a `Promise` of the unwrapped value.
+ *
+ * The `...Async` variants accept callbacks that return a promise.
+ *
+ * @example
+ * ```typescript
+ * const result = await Result.tryCatchDefaultAsync(logProperties, () => loadUser(id))
+ *   .mapNoCatch((user) => user.name)
+ *   .andThenCatchDefaultAsync(logProperties, (name) => saveName(name));
+ * ```
+ */
+export class AsyncResultChain<TOkValue, TErrorDetails extends AbstractErrorResultDetails = AllErrorResultDetails>
+    implements Promise<Result<TOkValue, TErrorDetails>> {
+  private _promise: Promise<ResultInstance<TOkValue, TErrorDetails>>;
+
+  readonly [Symbol.toStringTag] = AsyncResultChain.name;
+
+  /**
+   * Instantiates a new `AsyncResultChain`.
+   * @param resultOrPromise The result (or promise of a result) to chain operations onto.
+   */
+  constructor(resultOrPromise: ResultOrPromiseLike<TOkValue, TErrorDetails>) {
+    this._promise = Promise.resolve(resultOrPromise as ResultInstance<TOkValue, TErrorDetails> | PromiseLike<ResultInstance<TOkValue, TErrorDetails>>);
+  }
+
+  /**
+   * @returns the given result (or promise of a result) as an `AsyncResultChain`.
+   * If the given value is already an `AsyncResultChain`, it is returned as-is.
+   */
+  static from<TOkValue, TErrorDetails extends AbstractErrorResultDetails = AllErrorResultDetails>(
+    resultOrPromise: ResultOrPromiseLike<TOkValue, TErrorDetails>
+  ): AsyncResultChain<TOkValue, TErrorDetails> {
+    if (resultOrPromise instanceof AsyncResultChain) {
+      return resultOrPromise;
+    }
+    return new AsyncResultChain<TOkValue, TErrorDetails>(resultOrPromise);
+  }
+
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the underlying promise.
+   */
+  then<TResult1 = Result<TOkValue, TErrorDetails>, TResult2 = never>(
+    onfulfilled?: ((value: Result<TOkValue, TErrorDetails>) => TResult1 | PromiseLike<TResult1>) | null | undefined,
+    onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | null | undefined,
+  ): Promise<TResult1 | TResult2> {
+    return (this._promise as Promise<Result<TOkValue, TErrorDetails>>).then(onfulfilled, onrejected);
+  }
+
+  /**
+   * Attaches a callback for only the rejection of the underlying promise.
+   * NOTE: The underlying promise only rejects if a `...NoCatch` callback throws an error.
+   */
+  catch<TResult = never>(
+    onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | null | undefined,
+  ): Promise<Result<TOkValue, TErrorDetails> | TResult> {
+    return (this._promise as Promise<Result<TOkValue, TErrorDetails>>).catch(onrejected);
+  }
+
+  /**
+   * Attaches a callback that is invoked when the underlying promise is settled (fulfilled or rejected).
+   */
+  finally(onfinally?: (() => void) | null | undefined): Promise<Result<TOkValue, TErrorDetails>> {
+    return (this._promise as Promise<Result<TOkValue, TErrorDetails>>).finally(onfinally);
+  }
+
+  /**
+   * Makes the chain usable with `yield*` in `Result.genAsync()`, where it evaluates to the ok value
+   * (or yields the error result to short-circuit the generator).
+   */
+  async *[Symbol.asyncIterator](): AsyncGenerator<ErrorResult<TErrorDetails>, TOkValue, unknown> {
+    const result = await this._promise;
+    if (result.isOk) {
+      return result.value;
+    }
+    yield result;
+    // NOTE: The generator is never resumed after yielding an error result.
+    throw new UnreachableError();
+  }
+
+  /**
+   * @returns the result as a tuple of [value, errorDetails].
+   */
+  async toTuple(): Promise<[TOkValue | undefined, TErrorDetails | undefined]> {
+    return (await this._operations()).toTuple();
+  }
+
+  /**
+   * @returns the unwrapped value if the result is an ok result, or null if the result is an error result.
+   */
+  async valueOrNull(): Promise<TOkValue | null> {
+    return (await this._operations()).valueOrNull();
+  }
+
+  /**
+   * @returns the unwrapped value if the result is an ok result, or undefined if the result is an error result.
+   */
+  async valueOrUndefined(): Promise<TOkValue | undefined> {
+    return (await this._operations()).valueOrUndefined();
+  }
+
+  /**
+   * @returns the unwrapped value if the result is an ok result, or the given default value if the result is an error result.
+   */
+  async valueOrDefault<TDefault>(defaultValue: TDefault): Promise<TOkValue | TDefault> {
+    return (await this._operations()).valueOrDefault(defaultValue);
+  }
+
+  /**
+   * @returns the unwrapped value if the result is an ok result, or rejects with an error created by the given error factory if the result is an error result.
+   */
+  async valueOrThrow(errorFactory: (errorDetails: TErrorDetails) => Error): Promise<TOkValue> {
+    return (await this._operations()).valueOrThrow(errorFactory);
+  }
+
+  /**
+   * @returns the unwrapped value if the result is an ok result, or the value from the given function if the result is an error result.
+   */
+  async valueOrElse<TElseReturn>(onError: (errorDetails: TErrorDetails) => TElseReturn): Promise<TOkValue | TElseReturn> {
+    return (await this._operations()).valueOrElse(onError);
+  }
+
+  /**
+   * @returns the unwrapped error details if the result is an error result, or null if the result is an ok result.
+   */
+  async errorDetailsOrNull(): Promise<TErrorDetails | null> {
+    return (await this._operations()).errorDetailsOrNull();
+  }
+
+  /**
+   * @returns the unwrapped error details if the result is an error result, or undefined if the result is an ok result.
+   */
+  async errorDetailsOrUndefined(): Promise<TErrorDetails | undefined> {
+    return (await this._operations()).errorDetailsOrUndefined();
+  }
+
+  /**
+   * @returns the unwrapped error details if the result is an error result, or the given default value if the result is an ok result.
+   */
+  async errorDetailsOrDefault<TDefault>(defaultValue: TDefault): Promise<TErrorDetails | TDefault> {
+    return (await this._operations()).errorDetailsOrDefault(defaultValue);
+  }
+
+  /**
+   * @returns the unwrapped error details if the result is an error result, or rejects with an error created by the given error factory if the result is an ok result.
+   */
+  async errorDetailsOrThrow(errorFactory: () => Error): Promise<TErrorDetails> {
+    return (await this._operations()).errorDetailsOrThrow(errorFactory);
+  }
+
+  /**
+   * @returns the unwrapped error details if the result is an error result, or the result of the given function if the result is an ok result.
+   */
+  async errorDetailsOrElse<TElseReturn>(onOk: () => TElseReturn): Promise<TErrorDetails | TElseReturn> {
+    return (await this._operations()).errorDetailsOrElse(onOk);
+  }
+
+  /**
+   * Processes and unwraps the result with the handler for the ok value or for the discriminant tag of the error details. See `ResultOperations.match`.
+   */
+  async match<TReturn>(matcher: ResultMatcher<TOkValue, TErrorDetails, TReturn>): Promise<TReturn> {
+    return (await this._operations()).match(matcher);
+  }
+
+  /**
+   * Processes and unwraps the result with the (possibly asynchronous) handler for the ok value or for the discriminant tag of the error details. See `ResultOperations.matchAsync`.
+   */
+  async matchAsync<TReturn>(matcher: ResultMatcher<TOkValue, TErrorDetails, TReturn | PromiseLike<TReturn>>): Promise<TReturn> {
+    return (await this._operations()).matchAsync(matcher);
+  }
+
+  /**
+   * A functional style method to process and unwrap the result using callbacks. See `ResultOperations.foldNoCatch`.
+   */
+  async foldNoCatch<TNextOkValue, TErrorReturn>(
+    onOk: (value: TOkValue) => TNextOkValue,
+    onError: (error: TErrorDetails) => TErrorReturn,
+  ): Promise<TNextOkValue | TErrorReturn> {
+    return (await this._operations()).foldNoCatch(onOk, onError);
+  }
+
+  /**
+   * A functional style method to process and unwrap the result using callbacks. See `ResultOperations.foldCatchDefault`.
+   * NOTE: The onOk callback may return a promise - if it rejects, the rejection is caught the same as a thrown error.
+   */
+  async foldCatchDefault<TNextOkValue, TErrorReturn>(
+    logProperties: StandardLogPropertiesCore,
+    onOk: (value: TOkValue) => ValueOrPromiseLike<TNextOkValue>,
+    onError: (error: TErrorDetails) => TErrorReturn,
+  ): Promise<TNextOkValue | ErrorResult<ClassifiedErrorResultDetails> | TErrorReturn> {
+    const result = await this._promise;
+    if (result.isError) {
+      return onError(result.errorDetails);
+    }
+    try {
+      return await onOk(result.value);
+    } catch (err) {
+      return Result.classifiedError(logProperties, 'UNEXPECTED', err);
+    }
+  }
+
+  /**
+   * A functional style method to process and unwrap the result using callbacks. See `ResultOperations.foldCatch`.
+   * NOTE: The onOk callback may return a promise - if it rejects, the rejection is caught the same as a thrown error.
+   */
+  async foldCatch<TNextOkValue, TNextErrorDetails extends AbstractErrorResultDetails, TOnErrorReturn>(
+    onOk: (value: TOkValue) => ValueOrPromiseLike<TNextOkValue>,
+    onOkErrorResultFactory: ErrorResultFactory<TNextErrorDetails>,
+    onError: (error: TErrorDetails) => TOnErrorReturn,
+  ): Promise<TNextOkValue | ErrorResult<TNextErrorDetails> | TOnErrorReturn> {
+    const result = await this._promise;
+    if (result.isError) {
+      return onError(result.errorDetails);
+    }
+    try {
+      return await onOk(result.value);
+    } catch (err) {
+      return onOkErrorResultFactory(err);
+    }
+  }
+
+  /**
+   * Map to transform the ok value of the result, leaving errors unchanged. See `ResultOperations.mapNoCatch`.
+   */
+  mapNoCatch<TNextOkValue>(onOk: (value: TOkValue) => TNextOkValue): AsyncResultChain<TNextOkValue, TErrorDetails> {
+    return this._chain((result) => result.mapNoCatch(onOk));
+  }
+
+  /**
+   * Map to transform the ok value of the result, leaving errors unchanged. See `ResultOperations.mapCatchDefault`.
+   */
+  mapCatchDefault<TNextOkValue>(
+    logProperties: StandardLogPropertiesCore,
+    onOk: (value: TOkValue) => TNextOkValue,
+  ): AsyncResultChain<TNextOkValue, TErrorDetails | ClassifiedErrorResultDetails> {
+    return this._chain((result) => result.mapCatchDefault(logProperties, onOk));
+  }
+
+  /**
+   * Map to transform the ok value of the result, leaving errors unchanged. See `ResultOperations.mapCatch`.
+   */
+  mapCatch<TNextOkValue, TNextErrorDetails extends AbstractErrorResultDetails = AllErrorResultDetails>(
+    onOk: (value: TOkValue) => TNextOkValue,
+    errorResultFactory: ErrorResultFactory<TNextErrorDetails>,
+  ): AsyncResultChain<TNextOkValue, TNextErrorDetails | TErrorDetails> {
+    return this._chain((result) => result.mapCatch(onOk, errorResultFactory));
+  }
+
+  /**
+   * Map to transform an error result to a different error details type, leaving successes unchanged. See `ResultOperations.mapError`.
+   */
+  mapError<TNextErrorDetails extends AbstractErrorResultDetails = AllErrorResultDetails>(
+    onError: (errorDetails: TErrorDetails) => TNextErrorDetails,
+  ): AsyncResultChain<TOkValue, TNextErrorDetails> {
+    return this._chain((result) => result.mapError(onError));
+  }
+
+  /**
+   * A monadic bind / flatMap operator to sequence/chain operations that each return a Result. See `ResultOperations.andThenNoCatch`.
+   */
+  andThenNoCatch<TNextOkValue, TNextErrorDetails extends AbstractErrorResultDetails = AllErrorResultDetails>(
+    onOk: (value: TOkValue) => Result<TNextOkValue, TNextErrorDetails>,
+  ): AsyncResultChain<TNextOkValue, TNextErrorDetails> {
+    return this._chain((result) => result.andThenNoCatch(onOk));
+  }
+
+  /**
+   * A monadic bind / flatMap operator to sequence/chain operations that each return a Result. See `ResultOperations.andThenCatchDefault`.
+   */
+  andThenCatchDefault<TNextOkValue, TNextErrorDetails extends AbstractErrorResultDetails = AllErrorResultDetails>(
+    logProperties: StandardLogPropertiesCore,
+    onOk: (value: TOkValue) => Result<TNextOkValue, TNextErrorDetails>,
+  ): AsyncResultChain<TNextOkValue, TNextErrorDetails | ClassifiedErrorResultDetails> {
+    return this._chain((result) => result.andThenCatchDefault(logProperties, onOk));
+  }
+
+  /**
+   * A monadic bind / flatMap operator to sequence/chain operations that each return a Result. See `ResultOperations.andThenCatch`.
+   */
+  andThenCatch<TNextOkValue, TNextOkErrorDetails extends AbstractErrorResultDetails = AllErrorResultDetails, TErrorResultFactoryErrorDetails extends AbstractErrorResultDetails = AllErrorResultDetails>(
+    onOk: (value: TOkValue) => Result<TNextOkValue, TNextOkErrorDetails>,
+    errorResultFactory: ErrorResultFactory<TErrorResultFactoryErrorDetails>,
+  ): AsyncResultChain<TNextOkValue, TNextOkErrorDetails | TErrorResultFactoryErrorDetails | TErrorDetails> {
+    return this._chain((result) => result.andThenCatch(onOk, errorResultFactory));
+  }
+
+  /**
+   * A monadic bind / flatMap operator to transform an error result to a new result instance. See `ResultOperations.orElseNoCatch`.
+   */
+  orElseNoCatch<TNextOkValue, TNextErrorDetails extends AbstractErrorResultDetails = AllErrorResultDetails>(
+    onError: (errorDetails: TErrorDetails) => Result<TNextOkValue, TNextErrorDetails>,
+  ): AsyncResultChain<TOkValue | TNextOkValue, TNextErrorDetails> {
+    return this._chain((result) => result.orElseNoCatch(onError));
+  }
+
+  /**
+   * A monadic bind / flatMap operator to transform an error result to a new result instance. See `ResultOperations.orElseCatchDefault`.
+   */
+  orElseCatchDefault<TNextOkValue, TNextErrorDetails extends AbstractErrorResultDetails = AllErrorResultDetails>(
+    logProperties: StandardLogPropertiesCore,
+    onError: (errorDetails: TErrorDetails) => Result<TNextOkValue, TNextErrorDetails>,
+  ): AsyncResultChain<TOkValue | TNextOkValue, TNextErrorDetails | ClassifiedErrorResultDetails> {
+    return this._chain((result) => result.orElseCatchDefault(logProperties, onError));
+  }
+
+  /**
+   * A monadic bind / flatMap operator to transform an error result to a new result instance. See `ResultOperations.orElseCatch`.
+   */
+  orElseCatch<TNextOkValue, TNextErrorDetails extends AbstractErrorResultDetails = AllErrorResultDetails, TErrorResultFactoryErrorDetails extends AbstractErrorResultDetails = AllErrorResultDetails>(
+    onError: (errorDetails: TErrorDetails) => Result<TNextOkValue, TNextErrorDetails>,
+    errorResultFactory: ErrorResultFactory<TErrorResultFactoryErrorDetails>,
+  ): AsyncResultChain<TOkValue | TNextOkValue, TNextErrorDetails | TErrorResultFactoryErrorDetails> {
+    return this._chain((result) => result.orElseCatch(onError, errorResultFactory));
+  }
+
+  /**
+   * Map to transform the ok value of the result with an asynchronous function, leaving errors unchanged.
+   * NOTE: If the given function throws an error (or rejects), it is NOT caught, so the chain will reject.
+   */
+  mapNoCatchAsync<TNextOkValue>(onOk: (value: TOkValue) => PromiseLike<TNextOkValue>): AsyncResultChain<TNextOkValue, TErrorDetails> {
+    return this._chainAsync<TNextOkValue, TErrorDetails>(async (result) => {
+      if (result.isError) {
+        return result;
+      }
+      return Result.ok(await onOk(result.value));
+    });
+  }
+
+  /**
+   * Map to transform the ok value of the result with an asynchronous function, leaving errors unchanged.
+   * NOTE: If the given function throws an error (or rejects), it is caught, logged using the given log properties, and returned as per `Result.classifiedError()` (a TechnicalErrorResult unless an error classifier recognises it).
+   */
+  mapCatchDefaultAsync<TNextOkValue>(
+    logProperties: StandardLogPropertiesCore,
+    onOk: (value: TOkValue) => PromiseLike<TNextOkValue>,
+  ): AsyncResultChain<TNextOkValue, TErrorDetails | ClassifiedErrorResultDetails> {
+    return this._chainAsync<TNextOkValue, TErrorDetails | ClassifiedErrorResultDetails>(async (result) => {
+      if (result.isError) {
+        return result;
+      }
+      try {
+        return Result.ok(await onOk(result.value));
+      } catch (err) {
+        return Result.classifiedError(logProperties, 'UNEXPECTED', err);
+      }
+    });
+  }
+
+  /**
+   * Map to transform the ok value of the result with an asynchronous function, leaving errors unchanged.
+   * NOTE: If the given function throws an error (or rejects), it is caught and the value from the given error result factory is returned.
+   */
+  mapCatchAsync<TNextOkValue, TNextErrorDetails extends AbstractErrorResultDetails = AllErrorResultDetails>(
+    onOk: (value: TOkValue) => PromiseLike<TNextOkValue>,
+    errorResultFactory: ErrorResultFactory<TNextErrorDetails>,
+  ): AsyncResultChain<TNextOkValue, TNextErrorDetails | TErrorDetails> {
+    return this._chainAsync<TNextOkValue, TNextErrorDetails | TErrorDetails>(async (result) => {
+      if (result.isError) {
+        return result;
+      }
+      try {
+        return Result.ok(await onOk(result.value));
+      } catch (err) {
+        return errorResultFactory(err);
+      }
+    });
+  }
+
+  /**
+   * A monadic bind / flatMap operator to sequence/chain asynchronous operations that each return an AsyncResult.
+   * NOTE: If the given function throws an error (or rejects), it is NOT caught, so the chain will reject.
+   */
+  andThenNoCatchAsync<TNextOkValue, TNextErrorDetails extends AbstractErrorResultDetails = AllErrorResultDetails>(
+    onOk: (value: TOkValue) => PromiseLike<Result<TNextOkValue, TNextErrorDetails>>,
+  ): AsyncResultChain<TNextOkValue, TNextErrorDetails> {
+    return this._chainAsync<TNextOkValue, TNextErrorDetails>(async (result) => {
+      if (result.isError) {
+        return result as unknown as ErrorResult<TNextErrorDetails>;
+      }
+      return onOk(result.value);
+    });
+  }
+
+  /**
+   * A monadic bind / flatMap operator to sequence/chain asynchronous operations that each return an AsyncResult.
+   * NOTE: If the given function throws an error (or rejects), it is caught, logged using the given log properties, and returned as per `Result.classifiedError()` (a TechnicalErrorResult unless an error classifier recognises it).
+   */
+  andThenCatchDefaultAsync<TNextOkValue, TNextErrorDetails extends AbstractErrorResultDetails = AllErrorResultDetails>(
+    logProperties: StandardLogPropertiesCore,
+    onOk: (value: TOkValue) => PromiseLike<Result<TNextOkValue, TNextErrorDetails>>,
+  ): AsyncResultChain<TNextOkValue, TNextErrorDetails | ClassifiedErrorResultDetails> {
+    return this._chainAsync<TNextOkValue, TNextErrorDetails | ClassifiedErrorResultDetails>(async (result) => {
+      if (result.isError) {
+        return result as unknown as ErrorResult<TNextErrorDetails>;
+      }
+      try {
+        return await onOk(result.value);
+      } catch (err) {
+        return Result.classifiedError(logProperties, 'UNEXPECTED', err);
+      }
+    });
+  }
+
+  /**
+   * A monadic bind / flatMap operator to sequence/chain asynchronous operations that each return an AsyncResult.
+   * NOTE: If the given function throws an error (or rejects), it is caught and the value from the given error result factory is returned.
+   */
+  andThenCatchAsync<TNextOkValue, TNextOkErrorDetails extends AbstractErrorResultDetails = AllErrorResultDetails, TErrorResultFactoryErrorDetails extends AbstractErrorResultDetails = AllErrorResultDetails>(
+    onOk: (value: TOkValue) => PromiseLike<Result<TNextOkValue, TNextOkErrorDetails>>,
+    errorResultFactory: ErrorResultFactory<TErrorResultFactoryErrorDetails>,
+  ): AsyncResultChain<TNextOkValue, TNextOkErrorDetails | TErrorResultFactoryErrorDetails | TErrorDetails> {
+    return this._chainAsync<TNextOkValue, TNextOkErrorDetails | TErrorResultFactoryErrorDetails | TErrorDetails>(async (result) => {
+      if (result.isError) {
+        return result;
+      }
+      try {
+        return await onOk(result.value);
+      } catch (err) {
+        return errorResultFactory(err);
+      }
+    });
+  }
+
+  /**
+   * A monadic bind / flatMap operator to transform an error result to a new result instance using an asynchronous function.
+   * NOTE: If the given function throws an error (or rejects), it is NOT caught, so the chain will reject.
+   */
+  orElseNoCatchAsync<TNextOkValue, TNextErrorDetails extends AbstractErrorResultDetails = AllErrorResultDetails>(
+    onError: (errorDetails: TErrorDetails) => PromiseLike<Result<TNextOkValue, TNextErrorDetails>>,
+  ): AsyncResultChain<TOkValue | TNextOkValue, TNextErrorDetails> {
+    return this._chainAsync<TOkValue | TNextOkValue, TNextErrorDetails>(async (result) => {
+      if (result.isOk) {
+        return result;
+      }
+      return onError(result.errorDetails);
+    });
+  }
+
+  /**
+   * A monadic bind / flatMap operator to transform an error result to a new result instance using an asynchronous function.
+   * NOTE: If the given function throws an error (or rejects), it is caught, logged using the given log properties, and returned as per `Result.classifiedError()` (a TechnicalErrorResult unless an error classifier recognises it).
+   */
+  orElseCatchDefaultAsync<TNextOkValue, TNextErrorDetails extends AbstractErrorResultDetails = AllErrorResultDetails>(
+    logProperties: StandardLogPropertiesCore,
+    onError: (errorDetails: TErrorDetails) => PromiseLike<Result<TNextOkValue, TNextErrorDetails>>,
+  ): AsyncResultChain<TOkValue | TNextOkValue, TNextErrorDetails | ClassifiedErrorResultDetails> {
+    return this._chainAsync<TOkValue | TNextOkValue, TNextErrorDetails | ClassifiedErrorResultDetails>(async (result) => {
+      if (result.isOk) {
+        return result;
+      }
+      try {
+        return await onError(result.errorDetails);
+      } catch (err) {
+        return Result.classifiedError(logProperties, 'UNEXPECTED', err);
+      }
+    });
+  }
+
+  /**
+   * A monadic bind / flatMap operator to transform an error result to a new result instance using an asynchronous function.
+   * NOTE: If the given function throws an error (or rejects), it is caught and the value from the given error result factory is returned.
+   */
+  orElseCatchAsync<TNextOkValue, TNextErrorDetails extends AbstractErrorResultDetails = AllErrorResultDetails, TErrorResultFactoryErrorDetails extends AbstractErrorResultDetails = AllErrorResultDetails>(
+    onError: (errorDetails: TErrorDetails) => PromiseLike<Result<TNextOkValue, TNextErrorDetails>>,
+    errorResultFactory: ErrorResultFactory<TErrorResultFactoryErrorDetails>,
+  ): AsyncResultChain<TOkValue | TNextOkValue, TNextErrorDetails | TErrorResultFactoryErrorDetails> {
+    return this._chainAsync<TOkValue | TNextOkValue, TNextErrorDetails | TErrorResultFactoryErrorDetails>(async (result) => {
+      if (result.isOk) {
+        return result;
+      }
+      try {
+        return await onError(result.errorDetails);
+      } catch (err) {
+        return errorResultFactory(err);
+      }
+    });
+  }
+
+  /**
+   * @returns the awaited result, typed as its `ResultOperations` so that the (generic) operation methods can be called on it.
+   */
+  private async _operations(): Promise<ResultOperations<TOkValue, TErrorDetails>> {
+    return await this._promise as ResultOperations<TOkValue, TErrorDetails>;
+  }
+
+  /**
+   * @returns a new chain with the given synchronous operation applied to the awaited result.
+   */
+  private _chain<TNextOkValue, TNextErrorDetails extends AbstractErrorResultDetails>(
+    operation: (result: ResultOperations<TOkValue, TErrorDetails>) => Result<TNextOkValue, TNextErrorDetails> | ResultInstance<TNextOkValue, TNextErrorDetails>
+  ): AsyncResultChain<TNextOkValue, TNextErrorDetails> {
+    return new AsyncResultChain<TNextOkValue, TNextErrorDetails>(
+      this._operations().then(operation) as PromiseLike<Result<TNextOkValue, TNextErrorDetails>>
+    );
+  }
+
+  /**
+   * @returns a new chain with the given asynchronous operation applied to the awaited result.
+   */
+  private _chainAsync<TNextOkValue, TNextErrorDetails extends AbstractErrorResultDetails>(
+    operation: (result: ResultInstance<TOkValue, TErrorDetails>) => Promise<Result<TNextOkValue, TNextErrorDetails> | ResultInstance<TNextOkValue, TNextErrorDetails>>
+  ): AsyncResultChain<TNextOkValue, TNextErrorDetails> {
+    return new AsyncResultChain<TNextOkValue, TNextErrorDetails>(
+      this._promise.then(operation) as PromiseLike<Result<TNextOkValue, TNextErrorDetails>>
+    );
+  }
+}
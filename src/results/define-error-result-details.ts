@@ -0,0 +1,185 @@
+// Types
+import type { DefaultErrorResultFactoryOptions, ErrorResultDetailsConstructorOptions, ErrorResultDetailsJSON } from './result.types';
+import type { UniqueDiscriminantTag } from './error-result-details.types';
+
+// Results
+import type { AbstractResult } from './abstract-result';
+import { ErrorResult } from './error-result';
+
+// Error Result Details
+import { AbstractErrorResultDetails } from './error-result-details/abstract-error-result-details';
+import { ErrorResultDetailsRegistry } from './error-result-details-registry';
+
+// Utilities
+import { ErrorUtils } from '../errors/error.utilities';
+import { LOG } from '../logging/logging.utilities';
+import { LogPropertiesUtils } from '../logging/log-properties.utilities';
+import { ObjectUtils } from '../objects/object.utilities';
+
+/**
+ * The definition of a custom error result details type (see `defineErrorResultDetails()`).
+ */
+export type ErrorResultDetailsDefinition<TDiscriminantTag extends string> = {
+  /**
+   * The discriminant tag of the error result details.
+   * NOTE: This must not be one of the `ErrorResultDetailsDiscriminantTags` (checked at compile-time) or another defined discriminant tag (checked at runtime).
+   */
+  tag: TDiscriminantTag & UniqueDiscriminantTag<TDiscriminantTag>;
+
+  /**
+   * The name of the error result details class (defaults to `${tag}ResultDetails`).
+   */
+  name?: string | undefined;
+
+  /**
+   * The error message to use when the creator is not given one.
+   */
+  defaultErrorMessage?: string | undefined;
+
+  /**
+   * The level that the creator logs at if options.log is not false (defaults to 'error').
+   */
+  logLevel?: 'debug' | 'info' | 'warn' | 'error' | undefined;
+};
+
+/**
+ * An instance of an error result details type defined with `defineErrorResultDetails()`.
+ */
+export type DefinedErrorResultDetails<TDiscriminantTag extends string, TProperties extends object> = AbstractErrorResultDetails & {
+  readonly discriminantTag: TDiscriminantTag;
+
+  /**
+   * The additional properties of the error.
+   */
+  readonly properties: Readonly<TProperties>;
+};
+
+/**
+ * Options for creating an error result with the creator of an error result details type defined with `defineErrorResultDetails()`.
+ * NOTE: The additional properties are only optional if every property is optional.
+ */
+export type DefinedErrorResultFactoryOptions<TProperties extends object> = DefaultErrorResultFactoryOptions
+  & ({} extends TProperties ? { properties?: TProperties | undefined } : { properties: TProperties });
+
+/**
+ * The error result details type defined with `defineErrorResultDetails()`: the class, the discriminant tag, the type guards and the creator.
+ */
+export type ErrorResultDetailsType<TDiscriminantTag extends string, TProperties extends object> = {
+  /**
+   * The discriminant tag of the error result details.
+   */
+  readonly discriminantTag: TDiscriminantTag;
+
+  /**
+   * The error result details class.
+   */
+  readonly ErrorResultDetails: new (options: ErrorResultDetailsConstructorOptions, properties: TProperties) => DefinedErrorResultDetails<TDiscriminantTag, TProperties>;
+
+  /**
+   * @returns true if the object is an instance of the error result details class.
+   */
+  isInstance(object: unknown): object is DefinedErrorResultDetails<TDiscriminantTag, TProperties>;
+
+  /**
+   * @returns true if the result is an error result with an instance of the error result details class.
+   */
+  isErrorResult(result: AbstractResult): result is ErrorResult<DefinedErrorResultDetails<TDiscriminantTag, TProperties>>;
+
+  /**
+   * Creates a Result Pattern ErrorResult with the error result details (and logs at the defined level if options.log is not false).
+   */
+  create(
+    options: DefinedErrorResultFactoryOptions<TProperties>,
+    errorCode: string | undefined,
+    errorMessage?: string
+  ): ErrorResult<DefinedErrorResultDetails<TDiscriminantTag, TProperties>>;
+};
+
+/**
+ * Defines a custom error result details type at runtime (without editing `CustomErrorResultDetailsDiscriminantTags`, `AllCustomErrorResultDetails`, or `AbstractResult`).
+ * The error result details is also registered in the `ErrorResultDetailsRegistry` so that it can be rehydrated with `Result.fromJSON()`.
+ * NOTE: Specify the type parameters explicitly to give the error result details additional properties.
+ * @throws {AssertionFailedError} if the discriminant tag has already been defined.
+ *
+ * @example
+ * ```typescript
+ * const RateLimitedError = defineErrorResultDetails<'RateLimitedError', { retryAfterSeconds: number }>({ tag: 'RateLimitedError', logLevel: 'warn' });
+ *
+ * const result = RateLimitedError.create({ ...logProperties, properties: { retryAfterSeconds: 30 } }, 'TooManyRequests', 'Slow down');
+ * if (RateLimitedError.isErrorResult(result)) {
+ *   result.errorDetails.properties.retryAfterSeconds; // 30
+ * }
+ *
+ * type RateLimitedErrorResultDetails = InstanceType<typeof RateLimitedError.ErrorResultDetails>;
+ * ```
+ */
+export function defineErrorResultDetails<TDiscriminantTag extends string, TProperties extends object = {}>(
+  definition: ErrorResultDetailsDefinition<TDiscriminantTag>
+): ErrorResultDetailsType<TDiscriminantTag, TProperties> {
+  const discriminantTag: TDiscriminantTag = definition.tag;
+  const name = definition.name ?? `${discriminantTag}ResultDetails`;
+  const logLevel = definition.logLevel ?? 'error';
+
+  const ErrorResultDetails = class extends AbstractErrorResultDetails {
+    private _properties: TProperties;
+
+    override readonly discriminantTag = discriminantTag;
+    override readonly name = name;
+
+    /**
+     * The additional properties of the error.
+     */
+    get properties(): Readonly<TProperties> {
+      return this._properties;
+    }
+
+    /**
+     * Instantiates a new instance of the defined error result details.
+     * @param options The options for the error result details.
+     * @param properties The additional properties of the error.
+     */
+    constructor(options: ErrorResultDetailsConstructorOptions, properties: TProperties) {
+      super(options);
+      this._properties = properties;
+    }
+
+    /**
+     * @returns the JSON representation of the error result details (including the additional properties).
+     */
+    override toJSON(): ErrorResultDetailsJSON {
+      return { ...super.toJSON(), properties: this._properties };
+    }
+  };
+  Object.defineProperty(ErrorResultDetails, 'name', { value: name });
+
+  ErrorResultDetailsRegistry.register(discriminantTag, (json, options) => new ErrorResultDetails(options, (json.properties ?? {}) as TProperties));
+
+  return {
+    discriminantTag,
+    ErrorResultDetails,
+    isInstance: (object: unknown): object is DefinedErrorResultDetails<TDiscriminantTag, TProperties> =>
+      ObjectUtils.isInstanceOf(ErrorResultDetails, object),
+    isErrorResult: (result: AbstractResult): result is ErrorResult<DefinedErrorResultDetails<TDiscriminantTag, TProperties>> =>
+      result.isErrorDetailsInstanceOf(ErrorResultDetails),
+    create: (options, errorCode, errorMessage = definition.defaultErrorMessage) => {
+      if (options.log !== false) {
+        const contextPrefix = `defineErrorResultDetails - ${name}`;
+        const amendedOptions = LogPropertiesUtils.withContextPrefix({
+          context: options.context,
+          errorInstanceId: options.errorInstanceId,
+          correlationId: options.correlationId,
+        }, contextPrefix);
+        LOG[logLevel](amendedOptions, errorMessage, `ErrorCode: ${errorCode}`, ...(options.properties ? [options.properties] : []));
+      }
+
+      const createOptions: ErrorResultDetailsConstructorOptions = {
+        context: options.context,
+        errorInstanceId: options.errorInstanceId,
+        errorMessage: ObjectUtils.isNullOrUndefined(errorMessage) ? undefined : ErrorUtils.toErrorString(errorMessage),
+        errorCode,
+        correlationId: options.correlationId,
+      };
+      return new ErrorResult(new ErrorResultDetails(createOptions, (options.properties ?? {}) as TProperties));
+    },
+  };
+}
@@ -0,0 +1,72 @@
+// Types
+import type { ClassifiedErrorResultDetails, ErrorClassifier } from './result.types';
+import type { StandardLogPropertiesCore } from '../logging/logging.types';
+
+// Results
+import type { ErrorResult } from './error-result';
+import { ResultFactory } from './result.factory';
+
+/**
+ * The error code of the TechnicalErrorResult that a network failure (e.g. `TypeError: fetch failed`) is converted into.
+ */
+export const networkErrorCode = 'NETWORK';
+
+/**
+ * A registry of the functions that convert caught errors into error results (see `ErrorClassifier`),
+ * consulted by `tryCatchDefault()`, `tryCatchDefaultAsync()`, `wrapDefault()`, `fromErrorObject()` and the `*CatchDefault` operations.
+ * The custom error classifiers are consulted in the order that they are registered, before the default error classifiers:
+ * - an `AbortError` is converted into a CancelledErrorResult,
+ * - a network failure (`TypeError: fetch failed`) is converted into a TechnicalErrorResult with the `NETWORK` error code.
+ * NOTE: Add any custom error result details types that your error classifiers return to `ClassifiedErrorResultDetails`.
+ *
+ * @example
+ * ```typescript
+ * ErrorClassifierRegistry.register((err, logProperties) => err instanceof NotFoundError
+ *   ? Result.userError(logProperties, 'NOT_FOUND', err.message)
+ *   : undefined);
+ * ```
+ */
+export abstract class ErrorClassifierRegistry {
+  private static readonly _defaultClassifiers: readonly ErrorClassifier[] = [
+    (err, logProperties) => err instanceof Error && err.name === 'AbortError'
+      ? ResultFactory.cancelledError(logProperties, /* errorCode */ undefined)
+      : undefined,
+    (err, logProperties) => err instanceof TypeError && err.message === 'fetch failed'
+      ? ResultFactory.technicalError(logProperties, networkErrorCode, err)
+      : undefined,
+  ];
+  private static readonly _classifiers: ErrorClassifier[] = [];
+
+  /**
+   * Registers the error classifier (consulted after the previously registered ones, but before the default ones).
+   */
+  static register(classifier: ErrorClassifier): void {
+    ErrorClassifierRegistry._classifiers.push(classifier);
+  }
+
+  /**
+   * Unregisters the error classifier.
+   * @returns true if the error classifier was registered.
+   */
+  static unregister(classifier: ErrorClassifier): boolean {
+    const index = ErrorClassifierRegistry._classifiers.indexOf(classifier);
+    if (index === -1) {
+      return false;
+    }
+    ErrorClassifierRegistry._classifiers.splice(index, 1);
+    return true;
+  }
+
+  /**
+   * @returns the error result of the first error classifier that recognises the error, or undefined if none does.
+   */
+  static classify(err: unknown, logProperties: StandardLogPropertiesCore): ErrorResult<ClassifiedErrorResultDetails> | undefined {
+    for (const classifier of [...ErrorClassifierRegistry._classifiers, ...ErrorClassifierRegistry._defaultClassifiers]) {
+      const errorResult = classifier(err, logProperties);
+      if (errorResult) {
+        return errorResult;
+      }
+    }
+    return undefined;
+  }
+}
@@ -0,0 +1,99 @@
+// Types
+import type { ErrorResultDetailsConstructorOptions, ErrorResultDetailsJSON, ErrorResultDetailsReviver } from './result.types';
+import type { StandardApiErrorResponse } from '../apis/api.types';
+import type { ValidationFieldErrors } from './error-result-details/validation-error-result-details';
+import { ErrorResultDetailsDiscriminantTags } from './error-result-details.types';
+
+// Error Result Details
+import type { AbstractErrorResultDetails } from './error-result-details/abstract-error-result-details';
+import { AggregateErrorResultDetails } from './error-result-details/aggregate-error-result-details';
+import { ApiErrorResultDetails } from './error-result-details/api-error-result-details';
+import { AssertionFailedErrorResultDetails } from './error-result-details/assertion-failed-error-result-details';
+import { CancelledErrorResultDetails } from './error-result-details/cancelled-error-result-details';
+import { ShortCircuitedErrorResultDetails } from './error-result-details/short-circuited-error-result-details';
+import { TechnicalErrorResultDetails } from './error-result-details/technical-error-result-details';
+import { TimeoutErrorResultDetails } from './error-result-details/timeout-error-result-details';
+import { UserErrorResultDetails } from './error-result-details/user-error-result-details';
+import { ValidationErrorResultDetails } from './error-result-details/validation-error-result-details';
+
+// Utilities
+import { ErrorUtils } from '../errors/error.utilities';
+import { LOG } from '../logging/logging.utilities';
+import { ObjectUtils } from '../objects/object.utilities';
+import { StringUtils } from '../string.utilities';
+
+const classContext = 'ErrorResultDetailsRegistry';
+
+/**
+ * A registry of the functions that rehydrate each type of `error result details` from its JSON representation (keyed by discriminant tag).
+ * The standard error result details are registered by default - register your custom error result details here.
+ *
+ * @example
+ * ```typescript
+ * ErrorResultDetailsRegistry.register(ErrorResultDetailsDiscriminantTags.MyCustomError, (json, options) => new MyCustomErrorResultDetails(options, json.myProperty as string));
+ * ```
+ */
+export abstract class ErrorResultDetailsRegistry {
+  private static readonly _revivers = new Map<string, ErrorResultDetailsReviver>([
+    [ErrorResultDetailsDiscriminantTags.AggregateError, (json, options) => {
+      const childErrorDetails = json.childErrorDetails ?? [];
+      if (!Array.isArray(childErrorDetails)) {
+        ErrorUtils.throwAssertionFailedError(`${classContext}.fromJSON`, 'The childErrorDetails of the aggregate error result details JSON representation is not an array', json);
+      }
+      return new AggregateErrorResultDetails(options, (childErrorDetails as ErrorResultDetailsJSON[]).map((child) => ErrorResultDetailsRegistry.fromJSON(child)));
+    }],
+    [ErrorResultDetailsDiscriminantTags.ApiError, (json, options) => new ApiErrorResultDetails(options, json.errorResponse as StandardApiErrorResponse)],
+    [ErrorResultDetailsDiscriminantTags.AssertionFailedError, (_json, options) => new AssertionFailedErrorResultDetails(options)],
+    [ErrorResultDetailsDiscriminantTags.CancelledError, (_json, options) => new CancelledErrorResultDetails(options)],
+    [ErrorResultDetailsDiscriminantTags.ShortCircuitedError, (_json, options) => new ShortCircuitedErrorResultDetails(options)],
+    [ErrorResultDetailsDiscriminantTags.TechnicalError, (_json, options) => new TechnicalErrorResultDetails(options)],
+    [ErrorResultDetailsDiscriminantTags.TimeoutError, (json, options) => new TimeoutErrorResultDetails(options, json.timeoutMs as number)],
+    [ErrorResultDetailsDiscriminantTags.UserError, (_json, options) => new UserErrorResultDetails(options)],
+    [ErrorResultDetailsDiscriminantTags.ValidationError, (json, options) => new ValidationErrorResultDetails(options, (json.fieldErrors ?? {}) as ValidationFieldErrors)],
+  ]);
+
+  /**
+   * Registers the function that rehydrates the error result details with the given discriminant tag.
+   * @throws {AssertionFailedError} if a function is already registered for the discriminant tag.
+   */
+  static register(discriminantTag: string, reviver: ErrorResultDetailsReviver): void {
+    if (ErrorResultDetailsRegistry._revivers.has(discriminantTag)) {
+      ErrorUtils.throwAssertionFailedError(`${classContext}.register`, `An error result details reviver is already registered for the discriminant tag: ${discriminantTag}`);
+    }
+    ErrorResultDetailsRegistry._revivers.set(discriminantTag, reviver);
+  }
+
+  /**
+   * @returns true if a function is registered for the given discriminant tag.
+   */
+  static isRegistered(discriminantTag: string): boolean {
+    return ErrorResultDetailsRegistry._revivers.has(discriminantTag);
+  }
+
+  /**
+   * Rehydrates the error result details from the given JSON representation, using the function registered for its discriminant tag.
+   * NOTE: If no function is registered for the discriminant tag, a `TechnicalErrorResultDetails` (with the same context, errorCode, errorMessage, etc.) is returned
+   *       (and a warning is logged).
+   * @throws {AssertionFailedError} if the JSON is not an object with a string discriminant tag.
+   */
+  static fromJSON(json: ErrorResultDetailsJSON): AbstractErrorResultDetails {
+    if (!ObjectUtils.isTypeOfObject(json) || !StringUtils.isString(json.discriminantTag)) {
+      ErrorUtils.throwAssertionFailedError(`${classContext}.fromJSON`, 'The JSON is not an error result details JSON representation', json);
+    }
+
+    const options: ErrorResultDetailsConstructorOptions = {
+      context: json.context,
+      errorCode: json.errorCode,
+      errorMessage: json.errorMessage,
+      errorInstanceId: json.errorInstanceId,
+      correlationId: json.correlationId,
+      cause: json.cause,
+    };
+    const reviver = ErrorResultDetailsRegistry._revivers.get(json.discriminantTag);
+    if (!reviver) {
+      LOG.warn(`${classContext}.fromJSON`, `No error result details reviver is registered for the discriminant tag: ${json.discriminantTag} (rehydrated as TechnicalErrorResultDetails)`);
+      return new TechnicalErrorResultDetails(options);
+    }
+    return reviver(json, options);
+  }
+}
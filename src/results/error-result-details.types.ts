@@ -11,11 +11,15 @@ const CustomErrorResultDetailsDiscriminantTags = {
  * Standard error result details discriminant tags.
  */
 const StandardErrorResultDetailsDiscriminantTags = {
+  AggregateError: "AggregateError",
   ApiError: "ApiError",
   AssertionFailedError: "AssertionFailedError",
+  CancelledError: "CancelledError",
   ShortCircuitedError: "ShortCircuitedError",
   TechnicalError: "TechnicalError",
+  TimeoutError: "TimeoutError",
   UserError: "UserError",
+  ValidationError: "ValidationError",
 } as const;
 
 /**
@@ -28,6 +32,19 @@ export const ErrorResultDetailsDiscriminantTags = { ...StandardErrorResultDetail
  */
 export type ErrorResultDetailsDiscriminantTag = typeof ErrorResultDetailsDiscriminantTags[keyof typeof ErrorResultDetailsDiscriminantTags];
 
+/**
+ * A type for the discriminant tag of any error result details, including those defined at runtime with `defineErrorResultDetails()`.
+ */
+export type AnyErrorResultDetailsDiscriminantTag = ErrorResultDetailsDiscriminantTag | (string & {});
+
+/**
+ * A type that resolves to `unknown` if the given discriminant tag is unique, or to an error type (that no string is assignable to) if it is already used by a standard or custom discriminant tag.
+ * NOTE: This is the compile-time duplicate check for discriminant tags defined with `defineErrorResultDetails()`.
+ */
+export type UniqueDiscriminantTag<TDiscriminantTag extends string> = TDiscriminantTag extends ErrorResultDetailsDiscriminantTag
+  ? { readonly __duplicateDiscriminantTag: TDiscriminantTag }
+  : unknown;
+
 /**
  * Ensure there are no duplicate discriminant tags.
  */
@@ -1,12 +1,18 @@
 // Types
-import type { ErrorResultDetailsDiscriminantTag } from '../error-result-details.types';
-import type { ErrorResultDetailsConstructorOptions } from '../result.types';
+import type { AnyErrorResultDetailsDiscriminantTag } from '../error-result-details.types';
+import type { ErrorResultDetailsConstructorOptions, ErrorResultDetailsJSON } from '../result.types';
 import type { StandardCallerContext } from '../../logging/logging.types';
 
+// Errors
+import { ErrorResultError } from '../../errors/error-result-error';
+
 // Utilities
+import { ErrorSerializationUtils } from '../../errors/error-serialization.utilities';
 import { ErrorUtils } from '../../errors/error.utilities';
 import { ObjectUtils } from '../../objects/object.utilities';
 import { LoggingUtils } from '../../logging/logging.utilities';
+import { RedactionUtils } from '../../logging/redaction.utilities';
+import { getRequestContext } from '../../logging/request-context';
 
 const defaultErrorMessage = 'Sorry, something went wrong.';
 
@@ -19,11 +25,12 @@ export abstract class AbstractErrorResultDetails {
   private _errorCode: string | undefined;
   private _errorInstanceId: string | undefined;
   private _correlationId: string | undefined;
+  private _cause: unknown;
 
   /**
    * The discriminant tag of the error result details.
    */
-  abstract readonly discriminantTag: ErrorResultDetailsDiscriminantTag;
+  abstract readonly discriminantTag: AnyErrorResultDetailsDiscriminantTag;
 
   /**
    * The name of the error result details.
@@ -40,6 +47,7 @@ export abstract class AbstractErrorResultDetails {
       errorMessage: this._errorMessage,
       errorInstanceId: this._errorInstanceId,
       correlationId: this._correlationId,
+      cause: this._cause,
     }
   }
 
@@ -81,16 +89,25 @@ export abstract class AbstractErrorResultDetails {
     return this._correlationId;
   }
 
+  /**
+   * The original error (or any other thrown value) that caused the error, if any (e.g. the error caught by `Result.tryCatchDefault()`).
+   */
+  get cause(): unknown {
+    return this._cause;
+  }
+
   /**
    * Instantiates a new `AbstractStandardErrorResult`.
-   * @param options The options for the error result.
+   * @param options The options for the error result (the `context` and `correlationId` default to those of the ambient request context, see `runWithContext()`).
    */
   constructor(options: ErrorResultDetailsConstructorOptions) {
-    this._context = options.context;
+    const requestContext = getRequestContext();
+    this._context = options.context ?? requestContext?.context;
     this._errorCode = options.errorCode;
     this._errorMessage = options.errorMessage;
     this._errorInstanceId = options.errorInstanceId;
-    this._correlationId = options.correlationId;
+    this._correlationId = options.correlationId ?? requestContext?.correlationId;
+    this._cause = options.cause;
   }
 
   /**
@@ -100,6 +117,36 @@ export abstract class AbstractErrorResultDetails {
     const formattedContext = LoggingUtils.formatStandardCallerContext(this.context);
     const errorCode = ObjectUtils.isNullOrUndefined(this.errorCode) ? '' : String(this.errorCode);
     const errorMessage = ObjectUtils.isNullOrUndefined(this.errorMessage) ? '' : String(this.errorMessage);
-    return `${formattedContext} - ${errorCode} - ${errorMessage}`;
+    const formatted = `${formattedContext} - ${errorCode} - ${errorMessage}`;
+    if (ObjectUtils.isTypeOfUndefined(this._cause)) {
+      return formatted;
+    }
+    const formattedCause = this._cause instanceof Error ? `${this._cause.name}: ${this._cause.message}` : ErrorUtils.toErrorString(this._cause);
+    return `${formatted} - Cause: ${formattedCause}`;
+  }
+
+  /**
+   * @returns a throwable `ErrorResultError` with these error details (and their cause as its `cause`), e.g. to rethrow at a boundary that expects exceptions.
+   */
+  toError(): ErrorResultError<this> {
+    return new ErrorResultError(this);
+  }
+
+  /**
+   * @returns the JSON representation of the error result details, which can be rehydrated with `Result.fromJSON()`.
+   * NOTE: The errorInstanceId is included (and created if it has not been already) so that it stays the same when rehydrated.
+   *       The cause is included serialised and redacted (see `ErrorSerializationUtils` and `RedactionUtils`).
+   */
+  toJSON(): ErrorResultDetailsJSON {
+    return {
+      discriminantTag: this.discriminantTag,
+      name: this.name,
+      context: this._context,
+      errorCode: this._errorCode,
+      errorMessage: this.errorMessage,
+      errorInstanceId: this.errorInstanceId,
+      correlationId: this._correlationId,
+      ...(ObjectUtils.isTypeOfUndefined(this._cause) ? {} : { cause: RedactionUtils.redact(ErrorSerializationUtils.serialize(this._cause)) }),
+    };
   }
 }
@@ -0,0 +1,77 @@
+// Types
+import type { Constructor } from '../../objects/object.types';
+import type { ErrorResultDetailsConstructorOptions, ErrorResultDetailsJSON } from '../result.types';
+import { ErrorResultDetailsDiscriminantTags } from '../error-result-details.types';
+
+// Errors
+import { AbstractErrorResultDetails } from './abstract-error-result-details';
+
+// Utilities
+import { ObjectUtils } from '../../objects/object.utilities';
+
+/**
+ * An error result that represents multiple failures (e.g. multiple failed validations or multiple failed service calls).
+ */
+export class AggregateErrorResultDetails<TChildErrorDetails extends AbstractErrorResultDetails = AbstractErrorResultDetails> extends AbstractErrorResultDetails {
+  private _childErrorDetails: TChildErrorDetails[];
+
+  override readonly discriminantTag = ErrorResultDetailsDiscriminantTags.AggregateError;
+  override readonly name = AggregateErrorResultDetails.name;
+
+  /**
+   * The error details of each of the failures.
+   */
+  get childErrorDetails(): readonly TChildErrorDetails[] {
+    return this._childErrorDetails;
+  }
+
+  /**
+   * @returns true if the object is an instance of `AggregateErrorResultDetails`.
+   */
+  static isInstance(object: unknown): object is AggregateErrorResultDetails {
+    return ObjectUtils.isInstanceOf(AggregateErrorResultDetails, object);
+  }
+
+  /**
+   * Instantiates a new `AggregateErrorResultDetails`.
+   * @param options The options for the error result details.
+   * @param childErrorDetails The error details of each of the failures.
+   */
+  constructor(options: ErrorResultDetailsConstructorOptions, childErrorDetails: readonly TChildErrorDetails[]) {
+    super(options);
+    this._childErrorDetails = [...childErrorDetails];
+  }
+
+  /**
+   * @returns the child error details that are instances of the given error details constructor.
+   */
+  filterChildErrorDetails<TFilteredErrorDetails extends AbstractErrorResultDetails>(
+    ctor: Constructor<TFilteredErrorDetails>
+  ): Array<TChildErrorDetails & TFilteredErrorDetails> {
+    return this._childErrorDetails.filter((child): child is TChildErrorDetails & TFilteredErrorDetails => ObjectUtils.isInstanceOf(ctor, child));
+  }
+
+  /**
+   * @returns true if any of the child error details is an instance of the given error details constructor.
+   */
+  hasChildErrorDetailsInstanceOf<TFilteredErrorDetails extends AbstractErrorResultDetails>(
+    ctor: Constructor<TFilteredErrorDetails>
+  ): boolean {
+    return this._childErrorDetails.some((child) => ObjectUtils.isInstanceOf(ctor, child));
+  }
+
+  /**
+   * Formats the error result error details (and the error details of each of the failures) into a string.
+   */
+  override formatErrorResult(): string {
+    const formattedChildren = this._childErrorDetails.map((child, index) => `  [${index + 1}] ${child.formatErrorResult()}`);
+    return [super.formatErrorResult(), ...formattedChildren].join('\n');
+  }
+
+  /**
+   * @returns the JSON representation of the error result details (including the JSON representation of each child error details).
+   */
+  override toJSON(): ErrorResultDetailsJSON {
+    return { ...super.toJSON(), childErrorDetails: this._childErrorDetails.map((child) => child.toJSON()) };
+  }
+}
@@ -1,5 +1,5 @@
 // Types
-import type { ApiErrorResultConstructorOptions, ErrorResultDetailsConstructorOptions } from '../result.types';
+import type { ApiErrorResultConstructorOptions, ErrorResultDetailsConstructorOptions, ErrorResultDetailsJSON } from '../result.types';
 import type { StandardApiErrorResponse } from '../../apis/api.types';
 import { ErrorResultDetailsDiscriminantTags } from '../error-result-details.types';
 
@@ -48,4 +48,11 @@ export class ApiErrorResultDetails extends AbstractErrorResultDetails {
     super(constructorOptions);
     this._errorResponse = apiErrorResponse;
   }
+
+  /**
+   * @returns the JSON representation of the error result details (including the error response).
+   */
+  override toJSON(): ErrorResultDetailsJSON {
+    return { ...super.toJSON(), errorResponse: this._errorResponse };
+  }
 }
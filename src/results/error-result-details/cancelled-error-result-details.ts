@@ -0,0 +1,32 @@
+// Types
+import type { ErrorResultDetailsConstructorOptions } from '../result.types';
+import { ErrorResultDetailsDiscriminantTags } from '../error-result-details.types';
+
+// Errors
+import { AbstractErrorResultDetails } from './abstract-error-result-details';
+
+// Utilities
+import { ObjectUtils } from '../../objects/object.utilities';
+
+/**
+ * An error result that indicates that an operation was cancelled (e.g. via an `AbortSignal`) before it completed.
+ */
+export class CancelledErrorResultDetails extends AbstractErrorResultDetails {
+  override readonly discriminantTag = ErrorResultDetailsDiscriminantTags.CancelledError;
+  override readonly name = CancelledErrorResultDetails.name;
+
+  /**
+   * @returns true if the object is an instance of `CancelledErrorResultDetails`.
+   */
+  static isInstance(object: unknown): object is CancelledErrorResultDetails {
+    return ObjectUtils.isInstanceOf(CancelledErrorResultDetails, object);
+  }
+
+  /**
+   * Instantiates a new `CancelledErrorResultDetails`.
+   * @param options The options for the error result details.
+   */
+  constructor(options: ErrorResultDetailsConstructorOptions) {
+    super(options);
+  }
+}
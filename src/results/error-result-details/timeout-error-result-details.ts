@@ -0,0 +1,50 @@
+// Types
+import type { ErrorResultDetailsConstructorOptions, ErrorResultDetailsJSON } from '../result.types';
+import { ErrorResultDetailsDiscriminantTags } from '../error-result-details.types';
+
+// Errors
+import { AbstractErrorResultDetails } from './abstract-error-result-details';
+
+// Utilities
+import { ObjectUtils } from '../../objects/object.utilities';
+
+/**
+ * An error result that indicates that an operation did not complete within its timeout.
+ */
+export class TimeoutErrorResultDetails extends AbstractErrorResultDetails {
+  private _timeoutMs: number;
+
+  override readonly discriminantTag = ErrorResultDetailsDiscriminantTags.TimeoutError;
+  override readonly name = TimeoutErrorResultDetails.name;
+
+  /**
+   * The timeout (in milliseconds) that was exceeded.
+   */
+  get timeoutMs(): number {
+    return this._timeoutMs;
+  }
+
+  /**
+   * @returns true if the object is an instance of `TimeoutErrorResultDetails`.
+   */
+  static isInstance(object: unknown): object is TimeoutErrorResultDetails {
+    return ObjectUtils.isInstanceOf(TimeoutErrorResultDetails, object);
+  }
+
+  /**
+   * Instantiates a new `TimeoutErrorResultDetails`.
+   * @param options The options for the error result details.
+   * @param timeoutMs The timeout (in milliseconds) that was exceeded.
+   */
+  constructor(options: ErrorResultDetailsConstructorOptions, timeoutMs: number) {
+    super(options);
+    this._timeoutMs = timeoutMs;
+  }
+
+  /**
+   * @returns the JSON representation of the error result details (including the timeout).
+   */
+  override toJSON(): ErrorResultDetailsJSON {
+    return { ...super.toJSON(), timeoutMs: this._timeoutMs };
+  }
+}
@@ -0,0 +1,115 @@
+// Types
+import type { AspNetValidationProblemDetails } from '../../apis/http.aspnet.types';
+import type { ErrorResultDetailsConstructorOptions, ErrorResultDetailsJSON } from '../result.types';
+import { ErrorResultDetailsDiscriminantTags } from '../error-result-details.types';
+
+// Errors
+import { AbstractErrorResultDetails } from './abstract-error-result-details';
+
+// Utilities
+import { ObjectUtils } from '../../objects/object.utilities';
+
+/**
+ * The validation error messages keyed by field path (e.g. `email` or `address.postcode`).
+ * NOTE: This is the same shape as `AspNetValidationProblemDetails.errors`.
+ */
+export type ValidationFieldErrors = Record<string, string[]>;
+
+/**
+ * An error result that represents one or more (user) validation errors on specific fields.
+ */
+export class ValidationErrorResultDetails extends AbstractErrorResultDetails {
+  private _fieldErrors: ValidationFieldErrors;
+
+  override readonly discriminantTag = ErrorResultDetailsDiscriminantTags.ValidationError;
+  override readonly name = ValidationErrorResultDetails.name;
+
+  /**
+   * The validation error messages keyed by field path.
+   */
+  get fieldErrors(): Readonly<ValidationFieldErrors> {
+    return this._fieldErrors;
+  }
+
+  /**
+   * The field paths that have validation errors.
+   */
+  get fieldPaths(): string[] {
+    return Object.keys(this._fieldErrors);
+  }
+
+  /**
+   * @returns true if the object is an instance of `ValidationErrorResultDetails`.
+   */
+  static isInstance(object: unknown): object is ValidationErrorResultDetails {
+    return ObjectUtils.isInstanceOf(ValidationErrorResultDetails, object);
+  }
+
+  /**
+   * Creates a new `ValidationErrorResultDetails` from the `errors` (and title) of an ASP.NET validation problem details response.
+   * @param options The options for the error result details.
+   * @param problemDetails The ASP.NET validation problem details.
+   */
+  static fromAspNetValidationProblemDetails(
+    options: ErrorResultDetailsConstructorOptions,
+    problemDetails: AspNetValidationProblemDetails
+  ): ValidationErrorResultDetails {
+    const constructorOptions: ErrorResultDetailsConstructorOptions = {
+      ...options,
+      errorMessage: options.errorMessage ?? problemDetails.title ?? problemDetails.detail,
+      errorInstanceId: options.errorInstanceId ?? problemDetails.instance,
+    };
+    return new ValidationErrorResultDetails(constructorOptions, problemDetails.errors ?? {});
+  }
+
+  /**
+   * Instantiates a new `ValidationErrorResultDetails`.
+   * @param options The options for the error result details.
+   * @param fieldErrors The validation error messages keyed by field path.
+   */
+  constructor(options: ErrorResultDetailsConstructorOptions, fieldErrors: ValidationFieldErrors) {
+    super(options);
+    this._fieldErrors = Object.fromEntries(
+      Object.entries(fieldErrors).map(([fieldPath, messages]) => [fieldPath, [...messages]])
+    );
+  }
+
+  /**
+   * @returns the validation error messages for the given field path (or an empty array if the field has no errors).
+   */
+  getFieldErrors(fieldPath: string): readonly string[] {
+    return this._fieldErrors[fieldPath] ?? [];
+  }
+
+  /**
+   * @returns true if the given field path has any validation errors.
+   */
+  hasFieldErrors(fieldPath: string): boolean {
+    return this.getFieldErrors(fieldPath).length > 0;
+  }
+
+  /**
+   * @returns the validation errors in the shape of `AspNetValidationProblemDetails.errors`.
+   */
+  toAspNetValidationErrors(): NonNullable<AspNetValidationProblemDetails['errors']> {
+    return Object.fromEntries(
+      Object.entries(this._fieldErrors).map(([fieldPath, messages]) => [fieldPath, [...messages]])
+    );
+  }
+
+  /**
+   * Formats the error result error details (and the validation errors of each field) into a string.
+   */
+  override formatErrorResult(): string {
+    const formattedFieldErrors = Object.entries(this._fieldErrors)
+      .map(([fieldPath, messages]) => `  ${fieldPath}: ${messages.join('; ')}`);
+    return [super.formatErrorResult(), ...formattedFieldErrors].join('\n');
+  }
+
+  /**
+   * @returns the JSON representation of the error result details (including the field errors).
+   */
+  override toJSON(): ErrorResultDetailsJSON {
+    return { ...super.toJSON(), fieldErrors: this.toAspNetValidationErrors() };
+  }
+}
@@ -1,15 +1,19 @@
 // Types
 import type { AbstractErrorResultDetails } from './error-result-details/abstract-error-result-details';
-import { Result, type AllErrorResultDetails, type ErrorResultFactory, type ResultOperations } from './result.types';
+import { Result, type AllErrorResultDetails, type ClassifiedErrorResultDetails, type ErrorResultFactory, type ErrorResultJSON, type ResultMatcher, type ResultOperations } from './result.types';
 import { ResultDiscriminantTags } from './result.types';
 import type { StandardLogPropertiesCore } from '../logging/logging.types';
 
-// Error Result Details
-import type { TechnicalErrorResultDetails } from './error-result-details/technical-error-result-details';
+// Errors
+import type { ErrorResultError } from '../errors/error-result-error';
+import { UnreachableError } from '../errors/unreachable-error';
 
 // Results
 import { AbstractResult } from './abstract-result';
 
+// Utilities
+import { matchErrorDetails, matchErrorDetailsAsync } from './match-error-details';
+
 /**
  * A Result Pattern result that represents an error.
  */
@@ -30,6 +34,34 @@ export class ErrorResult<TErrorDetails extends AbstractErrorResultDetails> exten
     this.errorDetails = errorDetails;
   }
 
+  /**
+   * Makes the result usable with `yield*` in `Result.gen()` / `Result.genAsync()`, where it yields itself to short-circuit the generator.
+   */
+  *[Symbol.iterator](): Generator<ErrorResult<TErrorDetails>, never, unknown> {
+    yield this;
+    // NOTE: The generator is never resumed after yielding an error result.
+    throw new UnreachableError();
+  }
+
+  /**
+   * @returns the JSON representation of the result, which can be rehydrated with `Result.fromJSON()`.
+   */
+  toJSON(): ErrorResultJSON {
+    return { discriminantTag: this.discriminantTag, errorDetails: this.errorDetails.toJSON() };
+  }
+
+  /**
+   * @returns a throwable `ErrorResultError` with the error details (whose `cause` is the original error, if any).
+   * @example
+   * ```typescript
+   * const r = Result.tryCatchDefault(logProperties, () => JSON.parse(text));
+   * if (r.isError) throw r.toError(); // error.cause is the original SyntaxError
+   * ```
+   */
+  toError(): ErrorResultError<TErrorDetails> {
+    return this.errorDetails.toError();
+  }
+
   /**
    * @returns the result as a tuple of [value, errorDetails].
    * If the result is an ok result, the errorDetails will be undefined.
@@ -161,11 +193,29 @@ export class ErrorResult<TErrorDetails extends AbstractErrorResultDetails> exten
     return onError(this.errorDetails);
   }
 
+  /**
+   * Processes and unwraps a `Result` with the handler for the ok value or for the discriminant tag of the error details.
+   * NOTE: In an error result, the implementation always calls the handler for the discriminant tag of the error details (or the `_` fallback handler).
+   *       If the handler throws an error, it is NOT caught, so it will be propagated.
+   */
+  match<TReturn>(matcher: ResultMatcher<never, TErrorDetails, TReturn>): TReturn {
+    return matchErrorDetails(this.errorDetails, matcher);
+  }
+
+  /**
+   * Processes and unwraps a `Result` with the (possibly asynchronous) handler for the ok value or for the discriminant tag of the error details.
+   * NOTE: In an error result, the implementation always calls the handler for the discriminant tag of the error details (or the `_` fallback handler).
+   *       If the handler throws an error (or rejects), the returned promise rejects.
+   */
+  matchAsync<TReturn>(matcher: ResultMatcher<never, TErrorDetails, TReturn | PromiseLike<TReturn>>): Promise<TReturn> {
+    return matchErrorDetailsAsync(this.errorDetails, matcher);
+  }
+
   /**
    * A functional style method to process and unwrap a `Result` using callbacks (as opposed to using if/else branches to check isOk).
    * @param logProperties The log properties to use for logging if the onOk callback throws an error. 
    * @param onOk The callback to call if the result is an ok result.
-   *             If the callback throws an error, it is caught, logged at the Error level using the given log properties, and a TechnicalErrorResult is returned.
+   *             If the callback throws an error, it is caught, logged using the given log properties, and returned as per `Result.classifiedError()` (a TechnicalErrorResult unless an error classifier recognises it).
    * @param onError The callback to call if the result is an error result.
    */
   foldCatchDefault<TNextOkValue, TErrorReturn>(
@@ -208,11 +258,11 @@ export class ErrorResult<TErrorDetails extends AbstractErrorResultDetails> exten
   /**
    * Map to transform the ok value of the result, leaving errors unchanged.
    * NOTE: In an ok result, the implementation always calls the given function.
-   *       If an error is thrown in the given function, it is caught, logged at the Error level using the given log properties, and a TechnicalErrorResult is returned.
+   *       If an error is thrown in the given function, it is caught, logged using the given log properties, and returned as per `Result.classifiedError()` (a TechnicalErrorResult unless an error classifier recognises it).
    * NOTE: In an error result, the implementation always retypes the Result to a different ok value type.
    */
-  mapCatchDefault<TNextOkValue>(_logProperties: StandardLogPropertiesCore, _onOk: (value: never) => TNextOkValue): ErrorResult<TErrorDetails | TechnicalErrorResultDetails>;
-  mapCatchDefault<TNextOkValue>(_logProperties: StandardLogPropertiesCore, _onOk: (value: never) => TNextOkValue): Result<TNextOkValue, TErrorDetails | TechnicalErrorResultDetails> {
+  mapCatchDefault<TNextOkValue>(_logProperties: StandardLogPropertiesCore, _onOk: (value: never) => TNextOkValue): ErrorResult<TErrorDetails | ClassifiedErrorResultDetails>;
+  mapCatchDefault<TNextOkValue>(_logProperties: StandardLogPropertiesCore, _onOk: (value: never) => TNextOkValue): Result<TNextOkValue, TErrorDetails | ClassifiedErrorResultDetails> {
     return this as unknown as Result<TNextOkValue, TErrorDetails>;
   }
 
@@ -263,13 +313,13 @@ export class ErrorResult<TErrorDetails extends AbstractErrorResultDetails> exten
   /**
    * A monadic bind / flatMap operator to sequence/chain operations that each return a Result.
    * NOTE: In an ok result, the implementation always calls the given function.
-   *       If an error is thrown in the given function, it is caught, logged at the Error level using the given log properties, and a TechnicalErrorResult is returned.
+   *       If an error is thrown in the given function, it is caught, logged using the given log properties, and returned as per `Result.classifiedError()` (a TechnicalErrorResult unless an error classifier recognises it).
    * NOTE: In an error result, the implementation always returns the current error details - the same as map(). 
    */
   andThenCatchDefault<TNextOkValue, TNextErrorDetails extends AbstractErrorResultDetails = AllErrorResultDetails>(
     _logProperties: StandardLogPropertiesCore,
     _onOk: (value: never) => Result<TNextOkValue, TNextErrorDetails>,
-  ): Result<TNextOkValue, TNextErrorDetails | TechnicalErrorResultDetails> {
+  ): Result<TNextOkValue, TNextErrorDetails | ClassifiedErrorResultDetails> {
     return this as unknown as Result<TNextOkValue, TNextErrorDetails>;
   }
 
@@ -306,16 +356,16 @@ export class ErrorResult<TErrorDetails extends AbstractErrorResultDetails> exten
    * This can be used to perform compensation actions when an error result is encountered.
    * NOTE: In an ok result, the implementation simply retypes the current ok result instance to a different error type - same as mapError().
    * NOTE: In an error result, the implementation always calls the given function.
-   *       If an error is thrown in the given function, it is caught, logged at the Error level using the given log properties, and a TechnicalErrorResult is returned.
+   *       If an error is thrown in the given function, it is caught, logged using the given log properties, and returned as per `Result.classifiedError()` (a TechnicalErrorResult unless an error classifier recognises it).
    */
   orElseCatchDefault<TNextOkValue, TNextErrorDetails extends AbstractErrorResultDetails = AllErrorResultDetails>(
     logProperties: StandardLogPropertiesCore,
     onError: (errorDetails: TErrorDetails) => Result<TNextOkValue, TNextErrorDetails>,
-  ): Result<TNextOkValue, TNextErrorDetails | TechnicalErrorResultDetails> {
+  ): Result<TNextOkValue, TNextErrorDetails | ClassifiedErrorResultDetails> {
     try {
       return onError(this.errorDetails);
     } catch (err) {
-      return Result.technicalError(logProperties, 'UNEXPECTED', err);
+      return Result.classifiedError(logProperties, 'UNEXPECTED', err);
     }
   }
 
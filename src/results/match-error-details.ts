@@ -0,0 +1,69 @@
+// Types
+import type { AbstractErrorResultDetails } from './error-result-details/abstract-error-result-details';
+import type { ErrorDetailsHandlers, ErrorDetailsHandlersWithFallback, ErrorDetailsMatcher } from './result.types';
+
+// Utilities
+import { ErrorUtils } from '../errors/error.utilities';
+
+/**
+ * Calls the handler for the discriminant tag of the given error details (or the `_` fallback handler if there is no handler for it).
+ * A handler is required for every discriminant tag of the error details union unless a `_` fallback handler is given.
+ * If the handler throws an error, it is NOT caught, so it will be propagated.
+ * @throws {UnreachableError} if there is no handler for the discriminant tag and no fallback handler (which the types prevent).
+ *
+ * @example
+ * ```typescript
+ * const status = matchErrorDetails(result.errorDetails, {
+ *   ApiError: (errorDetails) => errorDetails.errorResponse.status,
+ *   UserError: () => 400,
+ *   _: () => 500,
+ * });
+ * ```
+ */
+export function matchErrorDetails<TErrorDetails extends AbstractErrorResultDetails, TReturn>(
+  errorDetails: TErrorDetails,
+  matcher: ErrorDetailsHandlers<TErrorDetails, TReturn>
+): TReturn;
+export function matchErrorDetails<TErrorDetails extends AbstractErrorResultDetails, TReturn>(
+  errorDetails: TErrorDetails,
+  matcher: ErrorDetailsHandlersWithFallback<TErrorDetails, TReturn>
+): TReturn;
+export function matchErrorDetails<TErrorDetails extends AbstractErrorResultDetails, TReturn>(
+  errorDetails: TErrorDetails,
+  matcher: ErrorDetailsMatcher<TErrorDetails, TReturn>
+): TReturn;
+export function matchErrorDetails<TErrorDetails extends AbstractErrorResultDetails, TReturn>(
+  errorDetails: TErrorDetails,
+  matcher: ErrorDetailsMatcher<TErrorDetails, TReturn>
+): TReturn {
+  const handlers = matcher as Partial<Record<string, (errorDetails: TErrorDetails) => TReturn>>;
+  const handler = Object.hasOwn(handlers, errorDetails.discriminantTag) ? handlers[errorDetails.discriminantTag] : handlers._;
+  if (!handler) {
+    return ErrorUtils.throwUnreachableError();
+  }
+  return handler(errorDetails);
+}
+
+/**
+ * Calls the (possibly asynchronous) handler for the discriminant tag of the given error details (or the `_` fallback handler if there is no handler for it).
+ * A handler is required for every discriminant tag of the error details union unless a `_` fallback handler is given.
+ * If the handler throws an error (or rejects), the returned promise rejects.
+ */
+export function matchErrorDetailsAsync<TErrorDetails extends AbstractErrorResultDetails, TReturn>(
+  errorDetails: TErrorDetails,
+  matcher: ErrorDetailsHandlers<TErrorDetails, TReturn | PromiseLike<TReturn>>
+): Promise<TReturn>;
+export function matchErrorDetailsAsync<TErrorDetails extends AbstractErrorResultDetails, TReturn>(
+  errorDetails: TErrorDetails,
+  matcher: ErrorDetailsHandlersWithFallback<TErrorDetails, TReturn | PromiseLike<TReturn>>
+): Promise<TReturn>;
+export function matchErrorDetailsAsync<TErrorDetails extends AbstractErrorResultDetails, TReturn>(
+  errorDetails: TErrorDetails,
+  matcher: ErrorDetailsMatcher<TErrorDetails, TReturn | PromiseLike<TReturn>>
+): Promise<TReturn>;
+export async function matchErrorDetailsAsync<TErrorDetails extends AbstractErrorResultDetails, TReturn>(
+  errorDetails: TErrorDetails,
+  matcher: ErrorDetailsMatcher<TErrorDetails, TReturn | PromiseLike<TReturn>>
+): Promise<TReturn> {
+  return matchErrorDetails(errorDetails, matcher);
+}
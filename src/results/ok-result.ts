@@ -1,12 +1,9 @@
 // Types
 import type { AbstractErrorResultDetails } from './error-result-details/abstract-error-result-details';
-import { Result, type AllErrorResultDetails, type ErrorResultFactory, type ResultOperations } from './result.types';
+import { Result, type AllErrorResultDetails, type ClassifiedErrorResultDetails, type ErrorResultFactory, type OkResultJSON, type ResultOperations } from './result.types';
 import { ResultDiscriminantTags } from './result.types';
 import type { StandardLogPropertiesCore } from '../logging/logging.types';
 
-// Error Result Details
-import type { TechnicalErrorResultDetails } from './error-result-details/technical-error-result-details';
-
 // Results
 import type { ErrorResult } from './error-result';
 import { AbstractResult } from './abstract-result';
@@ -40,6 +37,20 @@ export class OkResult<TOkValue> extends AbstractResult
     this._value = okValue;
   }
 
+  /**
+   * Makes the result usable with `yield*` in `Result.gen()` / `Result.genAsync()`, where it evaluates to the ok value.
+   */
+  *[Symbol.iterator](): Generator<never, TOkValue, unknown> {
+    return this._value;
+  }
+
+  /**
+   * @returns the JSON representation of the result, which can be rehydrated with `Result.fromJSON()`.
+   */
+  toJSON(): OkResultJSON<TOkValue> {
+    return { discriminantTag: this.discriminantTag, value: this._value };
+  }
+
   /**
    * @returns the result with a void ok value type.
    */
@@ -178,22 +189,40 @@ export class OkResult<TOkValue> extends AbstractResult
     return onOk(this.value);
   }
 
+  /**
+   * Processes and unwraps a `Result` with the handler for the ok value or for the discriminant tag of the error details.
+   * NOTE: In an ok result, the implementation always calls the `ok` handler.
+   *       If the handler throws an error, it is NOT caught, so it will be propagated.
+   */
+  match<TReturn>(matcher: { ok: (value: TOkValue) => TReturn }): TReturn {
+    return matcher.ok(this._value);
+  }
+
+  /**
+   * Processes and unwraps a `Result` with the (possibly asynchronous) handler for the ok value or for the discriminant tag of the error details.
+   * NOTE: In an ok result, the implementation always calls the `ok` handler.
+   *       If the handler throws an error (or rejects), the returned promise rejects.
+   */
+  async matchAsync<TReturn>(matcher: { ok: (value: TOkValue) => TReturn | PromiseLike<TReturn> }): Promise<TReturn> {
+    return matcher.ok(this._value);
+  }
+
   /**
    * A functional style method to process and unwrap a `Result` using callbacks (as opposed to using if/else branches to check isOk).
    * @param logProperties The log properties to use for logging if the onOk callback throws an error. 
    * @param onOk The callback to call if the result is an ok result.
-   *             If the callback throws an error, it is caught, logged at the Error level using the given log properties, and a TechnicalErrorResult is returned.
+   *             If the callback throws an error, it is caught, logged using the given log properties, and returned as per `Result.classifiedError()` (a TechnicalErrorResult unless an error classifier recognises it).
    * @param onError The callback to call if the result is an error result.
    */
   foldCatchDefault<TNextOkValue, TErrorReturn>(
     logProperties: StandardLogPropertiesCore,
     onOk: (value: TOkValue) => TNextOkValue,
     onError: (error: never) => TErrorReturn
-  ): TNextOkValue | ErrorResult<TechnicalErrorResultDetails> | TErrorReturn {
+  ): TNextOkValue | ErrorResult<ClassifiedErrorResultDetails> | TErrorReturn {
     try {
       return onOk(this.value);
     } catch (err) {
-      return Result.technicalError(logProperties, 'UNEXPECTED', err);
+      return Result.classifiedError(logProperties, 'UNEXPECTED', err);
     }
   }
 
@@ -235,15 +264,15 @@ export class OkResult<TOkValue> extends AbstractResult
   /**
    * Map to transform the ok value of the result, leaving errors unchanged.
    * NOTE: In an ok result, the implementation always calls the given function.
-   *       If an error is thrown in the given function, it is caught, logged at the Error level using the given log properties, and a TechnicalErrorResult is returned.
+   *       If an error is thrown in the given function, it is caught, logged using the given log properties, and returned as per `Result.classifiedError()` (a TechnicalErrorResult unless an error classifier recognises it).
    * NOTE: In an error result, the implementation always retypes the Result to a different ok value type.
    */
-  mapCatchDefault<TNextOkValue>(logProperties: StandardLogPropertiesCore, onOk: (value: TOkValue) => TNextOkValue): Result<TNextOkValue, TechnicalErrorResultDetails>;
-  mapCatchDefault<TNextOkValue>(logProperties: StandardLogPropertiesCore, onOk: (value: TOkValue) => TNextOkValue): OkResult<TNextOkValue> | ErrorResult<TechnicalErrorResultDetails> {
+  mapCatchDefault<TNextOkValue>(logProperties: StandardLogPropertiesCore, onOk: (value: TOkValue) => TNextOkValue): Result<TNextOkValue, ClassifiedErrorResultDetails>;
+  mapCatchDefault<TNextOkValue>(logProperties: StandardLogPropertiesCore, onOk: (value: TOkValue) => TNextOkValue): OkResult<TNextOkValue> | ErrorResult<ClassifiedErrorResultDetails> {
     try {
       return new OkResult(onOk(this.value));
     } catch (err) {
-      return Result.technicalError(logProperties, 'UNEXPECTED', err);
+      return Result.classifiedError(logProperties, 'UNEXPECTED', err);
     }
   }
 
@@ -298,17 +327,17 @@ export class OkResult<TOkValue> extends AbstractResult
   /**
    * A monadic bind / flatMap operator to sequence/chain operations that each return a Result.
    * NOTE: In an ok result, the implementation always calls the given function.
-   *       If an error is thrown in the given function, it is caught, logged at the Error level using the given log properties, and a TechnicalErrorResult is returned.
+   *       If an error is thrown in the given function, it is caught, logged using the given log properties, and returned as per `Result.classifiedError()` (a TechnicalErrorResult unless an error classifier recognises it).
    * NOTE: In an error result, the implementation always returns the current error details - the same as map(). 
    */
   andThenCatchDefault<TNextOkValue, TNextErrorDetails extends AbstractErrorResultDetails = AllErrorResultDetails>(
     logProperties: StandardLogPropertiesCore,
     onOk: (value: TOkValue) => Result<TNextOkValue, TNextErrorDetails>,
-  ): Result<TNextOkValue, TNextErrorDetails | TechnicalErrorResultDetails> {
+  ): Result<TNextOkValue, TNextErrorDetails | ClassifiedErrorResultDetails> {
     try {
       return onOk(this.value);
     } catch (err) {
-      return Result.technicalError(logProperties, 'UNEXPECTED', err);
+      return Result.classifiedError(logProperties, 'UNEXPECTED', err);
     }
   }
 
@@ -349,12 +378,12 @@ export class OkResult<TOkValue> extends AbstractResult
    * This can be used to perform compensation actions when an error result is encountered.
    * NOTE: In an ok result, the implementation simply retypes the current ok result instance to a different error type - same as mapError().
    * NOTE: In an error result, the implementation always calls the given function.
-   *       If an error is thrown in the given function, it is caught, logged at the Error level using the given log properties, and a TechnicalErrorResult is returned.
+   *       If an error is thrown in the given function, it is caught, logged using the given log properties, and returned as per `Result.classifiedError()` (a TechnicalErrorResult unless an error classifier recognises it).
    */
   orElseCatchDefault<TNextOkValue, TNextErrorDetails extends AbstractErrorResultDetails = AllErrorResultDetails>(
     logProperties: StandardLogPropertiesCore,
     onError: (errorDetails: never) => Result<TNextOkValue, TNextErrorDetails>,
-  ): Result<TOkValue | TNextOkValue, TNextErrorDetails | TechnicalErrorResultDetails> {
+  ): Result<TOkValue | TNextOkValue, TNextErrorDetails | ClassifiedErrorResultDetails> {
     return this as unknown as Result<TOkValue, TNextErrorDetails>;
   }
 
@@ -0,0 +1,79 @@
+// Types
+import type { AssertionFailure } from '../errors/error.types';
+import type { Constructor } from '../objects/object.types';
+import type { DefaultErrorResultFactoryOptions } from './result.types';
+import { Result } from './result.types';
+
+// Error Result Details (type only to avoid circular dependencies)
+import type { AssertionFailedErrorResultDetails } from './error-result-details/assertion-failed-error-result-details';
+
+// Results (type only to avoid circular dependencies)
+import type { ErrorResult } from './error-result';
+import type { OkResult } from './ok-result';
+
+// Utilities
+import { AssertionChecks } from '../errors/assert';
+
+/**
+ * Runtime assertions that return an ok result with the (narrowed) value, or an AssertionFailedErrorResult
+ * (logged at the Error level if options.log is not false) with the error code of the assertion (see `AssertionErrorCodes`).
+ * Use `Assert` instead to throw an `AssertionFailedError`.
+ * @example
+ * ```typescript
+ * const result = ResultAssert.nonEmptyString(logProperties, request.userId, 'userId')
+ *   .andThenNoCatch((userId) => loadUser(userId));
+ * ```
+ */
+export abstract class ResultAssert {
+  /**
+   * Asserts that the value is not null or undefined.
+   */
+  static defined<TValue>(options: DefaultErrorResultFactoryOptions, value: TValue, name: string): Result<NonNullable<TValue>, AssertionFailedErrorResultDetails> {
+    return ResultAssert._toResult(options, value as NonNullable<TValue>, AssertionChecks.defined(value, name));
+  }
+
+  /**
+   * Asserts that the value is a string that is not empty or whitespace.
+   */
+  static nonEmptyString(options: DefaultErrorResultFactoryOptions, value: unknown, name: string): Result<string, AssertionFailedErrorResultDetails> {
+    return ResultAssert._toResult(options, value as string, AssertionChecks.nonEmptyString(value, name));
+  }
+
+  /**
+   * Asserts that the value is a number between the minimum and the maximum (inclusive).
+   */
+  static inRange(options: DefaultErrorResultFactoryOptions, value: unknown, minimum: number, maximum: number, name: string): Result<number, AssertionFailedErrorResultDetails> {
+    return ResultAssert._toResult(options, value as number, AssertionChecks.inRange(value, minimum, maximum, name));
+  }
+
+  /**
+   * Asserts that the value is one of the allowed values (compared with `===`).
+   */
+  static oneOf<const TAllowedValue>(options: DefaultErrorResultFactoryOptions, value: unknown, allowedValues: readonly TAllowedValue[], name: string): Result<TAllowedValue, AssertionFailedErrorResultDetails> {
+    return ResultAssert._toResult(options, value as TAllowedValue, AssertionChecks.oneOf(value, allowedValues, name));
+  }
+
+  /**
+   * Asserts that the value is a string that matches the pattern.
+   */
+  static matches(options: DefaultErrorResultFactoryOptions, value: unknown, pattern: RegExp, name: string): Result<string, AssertionFailedErrorResultDetails> {
+    return ResultAssert._toResult(options, value as string, AssertionChecks.matches(value, pattern, name));
+  }
+
+  /**
+   * Asserts that the value is an instance of the constructor (as per `ObjectUtils.isInstanceOf()`).
+   */
+  static instanceOf<TInstance>(options: DefaultErrorResultFactoryOptions, value: unknown, ctor: Constructor<TInstance>, name: string): Result<TInstance, AssertionFailedErrorResultDetails> {
+    return ResultAssert._toResult(options, value as TInstance, AssertionChecks.instanceOf(value, ctor, name));
+  }
+
+  /**
+   * @returns an ok result with the value if the assertion passed, otherwise an AssertionFailedErrorResult.
+   */
+  private static _toResult<TValue>(options: DefaultErrorResultFactoryOptions, value: TValue, failure: AssertionFailure | undefined): Result<TValue, AssertionFailedErrorResultDetails>;
+  private static _toResult<TValue>(options: DefaultErrorResultFactoryOptions, value: TValue, failure: AssertionFailure | undefined): OkResult<TValue> | ErrorResult<AssertionFailedErrorResultDetails> {
+    return failure
+      ? Result.assertionFailedError(options, failure.errorCode, failure.errorMessage)
+      : Result.ok(value);
+  }
+}
@@ -0,0 +1,110 @@
+// Types
+import type { DefaultErrorResultFactoryOptions } from './result.types';
+import type { ValidationFieldErrors } from './error-result-details/validation-error-result-details';
+import { Result } from './result.types';
+
+// Error Result Details (type only to avoid circular dependencies)
+import type { ValidationErrorResultDetails } from './error-result-details/validation-error-result-details';
+
+// Results (type only to avoid circular dependencies)
+import type { ErrorResult } from './error-result';
+import type { OkResult } from './ok-result';
+
+/**
+ * A validation rule that returns undefined if the value is valid, or the validation error message(s) if the value is invalid.
+ */
+export type ValidationRule<TValue> = (value: TValue) => string | readonly string[] | undefined;
+
+/**
+ * A builder that validates a value field by field and accumulates every validation failure.
+ *
+ * @example
+ * ```typescript
+ * const result = Result.validate(form)
+ *   .field('email', (email) => email.includes('@') ? undefined : 'Email is invalid')
+ *   .field('name', (name) => name ? undefined : 'Name is required')
+ *   .check('password', (f) => f.password === f.confirmPassword ? undefined : 'Passwords do not match')
+ *   .toResult(logProperties, 'InvalidForm'); // Result<Form, ValidationErrorResultDetails>
+ * ```
+ */
+export class ResultValidator<TValue> {
+  private _value: TValue;
+  private _fieldErrors: ValidationFieldErrors = {};
+
+  /**
+   * The value being validated.
+   */
+  get value(): TValue {
+    return this._value;
+  }
+
+  /**
+   * @returns true if no validation rule has failed so far.
+   */
+  get isValid(): boolean {
+    return Object.keys(this._fieldErrors).length === 0;
+  }
+
+  /**
+   * The validation error messages (accumulated so far) keyed by field path.
+   */
+  get fieldErrors(): Readonly<ValidationFieldErrors> {
+    return this._fieldErrors;
+  }
+
+  /**
+   * Instantiates a new `ResultValidator`.
+   * @param value The value to validate.
+   */
+  constructor(value: TValue) {
+    this._value = value;
+  }
+
+  /**
+   * Validates the given (top-level) field of the value with the given rules.
+   * Every failing rule adds its error message(s) to the field.
+   */
+  field<TFieldName extends keyof TValue & string>(fieldName: TFieldName, ...rules: ValidationRule<TValue[TFieldName]>[]): this {
+    for (const rule of rules) {
+      this.addFieldErrors(fieldName, rule(this._value[fieldName]));
+    }
+    return this;
+  }
+
+  /**
+   * Validates the whole value with the given rules, recording any failures against the given field path.
+   * Use this for nested field paths (e.g. `address.postcode`) or for rules that span multiple fields.
+   */
+  check(fieldPath: string, ...rules: ValidationRule<TValue>[]): this {
+    for (const rule of rules) {
+      this.addFieldErrors(fieldPath, rule(this._value));
+    }
+    return this;
+  }
+
+  /**
+   * Adds the given validation error message(s) to the given field path.
+   */
+  addFieldErrors(fieldPath: string, messages: string | readonly string[] | undefined): this {
+    if (messages === undefined) {
+      return this;
+    }
+    const messagesToAdd = typeof messages === 'string' ? [messages] : messages;
+    if (messagesToAdd.length > 0) {
+      this._fieldErrors[fieldPath] = [...(this._fieldErrors[fieldPath] ?? []), ...messagesToAdd];
+    }
+    return this;
+  }
+
+  /**
+   * @returns an ok result with the validated value if all the rules passed,
+   * or an ErrorResult with ValidationErrorResultDetails (logged at the Debug level if options.log is not false).
+   */
+  toResult(options: DefaultErrorResultFactoryOptions, errorCode?: string, validationErrorMessage?: string): Result<TValue, ValidationErrorResultDetails>;
+  toResult(options: DefaultErrorResultFactoryOptions, errorCode?: string, validationErrorMessage?: string): OkResult<TValue> | ErrorResult<ValidationErrorResultDetails> {
+    if (this.isValid) {
+      return Result.ok(this._value);
+    }
+    return Result.validationError(options, errorCode, this._fieldErrors, validationErrorMessage);
+  }
+}
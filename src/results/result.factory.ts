@@ -1,30 +1,55 @@
 import type { AbstractErrorResultDetails } from './error-result-details/abstract-error-result-details';
-import type { ApiErrorResultFactoryOptions, ApiErrorResultFactoryOptionsWithoutLogging, AsyncResult, DefaultErrorResultFactoryOptions, ErrorResultDetailsConstructorOptions, ErrorResultFactory } from './result.types';
+import type { AllErrorResultDetails, AnyResult, AnyResultInput, ApiErrorResultFactoryOptions, ApiErrorResultFactoryOptionsWithoutLogging, AsyncResult, AsyncResultFactoryOptions, ClassifiedErrorResultDetails, CombineAsyncResultsOptions, DefaultErrorResultFactoryOptions, ErrorDetailsOf, ErrorResultDetailsConstructorOptions, ErrorResultFactory, OkValuesOf, ResolvedResultOf, ResultJSON, RetryPolicy, SettledResults } from './result.types';
 import type { AnyAsyncFunction, AnyFunction, NotError } from '../objects/object.types';
 import type { Result } from './result.types';
-import type { StandardApiErrorResponse } from '../apis/api.types';
+import type { ResultOrPromiseLike } from './async-result-chain';
+import type { AnyApiErrorResponse } from '../apis/api.types';
 import type { StandardLogPropertiesCore } from '../logging/logging.types';
 
 // Errors
 import { AssertionFailedError } from '../errors/assertion-failed-error';
 
 // Results
+import { AsyncResultChain } from './async-result-chain';
 import { ErrorResult } from './error-result';
 import { OkResult } from './ok-result';
+import { ResultValidator } from './result-validator';
+import { ResultDiscriminantTags } from './result.types';
 
 // Error Result Details
+import { AggregateErrorResultDetails } from './error-result-details/aggregate-error-result-details';
 import { ApiErrorResultDetails } from './error-result-details/api-error-result-details';
 import { AssertionFailedErrorResultDetails } from './error-result-details/assertion-failed-error-result-details';
+import { CancelledErrorResultDetails } from './error-result-details/cancelled-error-result-details';
 import { ShortCircuitedErrorResultDetails } from './error-result-details/short-circuited-error-result-details';
 import { TechnicalErrorResultDetails } from './error-result-details/technical-error-result-details';
+import { TimeoutErrorResultDetails } from './error-result-details/timeout-error-result-details';
 import { UserErrorResultDetails } from './error-result-details/user-error-result-details';
+import { ValidationErrorResultDetails, type ValidationFieldErrors } from './error-result-details/validation-error-result-details';
+import { ErrorResultDetailsRegistry } from './error-result-details-registry';
+import { ErrorClassifierRegistry } from './error-classifier-registry';
 
 // Utilities
+import { ApiUtils } from '../apis/api.utilities';
 import { ErrorUtils } from '../errors/error.utilities';
 import { LOG } from '../logging/logging.utilities';
+import { LogPropertiesUtils } from '../logging/log-properties.utilities';
 import { ObjectUtils } from '../objects/object.utilities';
+import { RetryUtils } from './retry.utilities';
+import { StringUtils } from '../string.utilities';
 
 const classContext = 'ResultFactory';
+const defaultValidationErrorMessage = 'One or more validation errors occurred.';
+const defaultCancelledErrorMessage = 'The operation was cancelled.';
+const maxTimeoutMs = 2 ** 31 - 1; // the maximum delay of setTimeout()
+
+/**
+ * The outcome of running an abortable function (see `ResultFactory._runAbortable()`).
+ */
+type AbortableOutcome<TOkValue> =
+  | { outcome: 'completed', value: TOkValue }
+  | { outcome: 'timedOut', timeoutMs: number }
+  | { outcome: 'cancelled' };
 
 /**
  * Factory functions to create instances of Result Pattern Results.
@@ -37,25 +62,35 @@ export abstract class ResultFactory {
     return new OkResult<TOkValue>(okValue);
   }
 
+  /**
+   * Creates a chainable `AsyncResultChain` from the given `Result` or `AsyncResult` (does not log).
+   */
+  static chain<TOkValue, TErrorDetails extends AbstractErrorResultDetails = AllErrorResultDetails>(
+    resultOrPromise: ResultOrPromiseLike<TOkValue, TErrorDetails>
+  ): AsyncResultChain<TOkValue, TErrorDetails> {
+    return AsyncResultChain.from(resultOrPromise);
+  }
+
   /**
    * Creates a Result Pattern ErrorResult with ApiErrorResultDetails (does not log).
+   * NestJS and ASP.NET error responses are normalized into the standard API error response (see `ApiUtils.normalizeApiErrorResponse()`).
    */
-  static apiErrorNoLog(options: ApiErrorResultFactoryOptionsWithoutLogging, errorDetails: StandardApiErrorResponse): ErrorResult<ApiErrorResultDetails> {
+  static apiErrorNoLog(options: ApiErrorResultFactoryOptionsWithoutLogging, apiErrorResponse: AnyApiErrorResponse): ErrorResult<ApiErrorResultDetails> {
+    const errorDetails = ApiUtils.normalizeApiErrorResponse(apiErrorResponse);
     return new ErrorResult<ApiErrorResultDetails>(new ApiErrorResultDetails(options, errorDetails));
   }
 
   /**
    * Creates a Result Pattern ErrorResult with ApiErrorResultDetails (and logs at the Error level if options.log is not false).
+   * NestJS and ASP.NET error responses are normalized into the standard API error response (see `ApiUtils.normalizeApiErrorResponse()`).
    * NOTE: Only call this if you have already inspected the HTTP status code and error details and you are sure that you want to log the API error for the support team to investigate.
    */
-  static apiError(options: ApiErrorResultFactoryOptions, errorDetails: StandardApiErrorResponse): ErrorResult<ApiErrorResultDetails> {
+  static apiError(options: ApiErrorResultFactoryOptions, apiErrorResponse: AnyApiErrorResponse): ErrorResult<ApiErrorResultDetails> {
+    const errorDetails = ApiUtils.normalizeApiErrorResponse(apiErrorResponse);
     if (options.log !== false) {
       // LOG the API error (so it possibly can be sent to a logging service for monitoring by the support team)
       const contextPrefix = `${classContext} - ApiErrorResult`;
-      const amendedOptions = {
-        ...options,
-        context: options.context ? [contextPrefix, ...options.context] : [contextPrefix],
-      };
+      const amendedOptions = LogPropertiesUtils.withContextPrefix(options, contextPrefix);
       const amendedParams = [`ErrorCode: ${options.errorCode}`];
       LOG.apiError(amendedOptions, errorDetails, ...amendedParams);
     }
@@ -65,6 +100,7 @@ export abstract class ResultFactory {
 
   /**
    * Creates a Result Pattern ErrorResult with AssertionFailedErrorResultDetails (and logs at the Error level if options.log is not false).
+   * NOTE: If the assertion failed error message is not a string (e.g. a caught `AssertionFailedError`), it is kept as the `cause` of the error details.
    */
   static assertionFailedError(
     options: DefaultErrorResultFactoryOptions,
@@ -75,10 +111,7 @@ export abstract class ResultFactory {
     if (options.log !== false) {
       // LOG the error (so it possibly can be sent to a logging service for monitoring by the support team)
       const contextPrefix = `${classContext} - AssertionFailedErrorResult`;
-      const amendedOptions = {
-        ...options,
-        context: options.context ? [contextPrefix, ...options.context] : [contextPrefix],
-      };
+      const amendedOptions = LogPropertiesUtils.withContextPrefix(options, contextPrefix);
       const amendedParams = [`ErrorCode: ${errorCode}`, ...optionalParams];
       LOG.assertionFailed(amendedOptions, assertionFailedErrorMessage, ...amendedParams);
     }
@@ -89,6 +122,7 @@ export abstract class ResultFactory {
 
   /**
    * Creates a Result Pattern ErrorResult with TechnicalErrorResultDetails (and logs at the Error level if options.log is not false).
+   * NOTE: If the technical error message is not a string (e.g. a caught `Error`), it is kept as the `cause` of the error details.
    */
   static technicalError(
     options: DefaultErrorResultFactoryOptions,
@@ -99,10 +133,7 @@ export abstract class ResultFactory {
     if (options.log !== false) {
       // LOG the error (so it possibly can be sent to a logging service for monitoring by the support team)
       const contextPrefix = `${classContext} - TechnicalErrorResult`;
-      const amendedOptions = {
-        ...options,
-        context: options.context ? [contextPrefix, ...options.context] : [contextPrefix],
-      };
+      const amendedOptions = LogPropertiesUtils.withContextPrefix(options, contextPrefix);
       const amendedParams = [`ErrorCode: ${errorCode}`, ...optionalParams];
       LOG.technicalError(amendedOptions, technicalErrorMessage, ...amendedParams);
     }
@@ -121,10 +152,7 @@ export abstract class ResultFactory {
   ): ErrorResult<UserErrorResultDetails> {
     if (options.log !== false) {
       const contextPrefix = `${classContext} - UserErrorResult`;
-      const amendedOptions = {
-        ...options,
-        context: options.context ? [contextPrefix, ...options.context] : [contextPrefix],
-      };
+      const amendedOptions = LogPropertiesUtils.withContextPrefix(options, contextPrefix);
       const amendedParams = [`ErrorCode: ${errorCode}`];
       LOG.debug(amendedOptions, userErrorMessage, ...amendedParams);
     }
@@ -133,6 +161,79 @@ export abstract class ResultFactory {
     return new ErrorResult<UserErrorResultDetails>(new UserErrorResultDetails(createOptions));
   }
 
+  /**
+   * Creates a Result Pattern ErrorResult with ValidationErrorResultDetails (and logs at the Debug level if options.log is not false).
+   */
+  static validationError(
+    options: DefaultErrorResultFactoryOptions,
+    errorCode: string | undefined,
+    fieldErrors: ValidationFieldErrors,
+    validationErrorMessage: string = defaultValidationErrorMessage
+  ): ErrorResult<ValidationErrorResultDetails> {
+    if (options.log !== false) {
+      const contextPrefix = `${classContext} - ValidationErrorResult`;
+      const amendedOptions = LogPropertiesUtils.withContextPrefix(options, contextPrefix);
+      const amendedParams = [`ErrorCode: ${errorCode}`, fieldErrors];
+      LOG.debug(amendedOptions, validationErrorMessage, ...amendedParams);
+    }
+
+    const createOptions = this._createErrorResultConstructorOptions(options, errorCode, validationErrorMessage, []);
+    return new ErrorResult<ValidationErrorResultDetails>(new ValidationErrorResultDetails(createOptions, fieldErrors));
+  }
+
+  /**
+   * Creates a validation builder for the given value, which accumulates every validation failure and
+   * then creates a `Result<TValue, ValidationErrorResultDetails>` via `toResult()`.
+   * @example
+   * ```typescript
+   * const result = Result.validate(form)
+   *   .field('email', (email) => email.includes('@') ? undefined : 'Email is invalid')
+   *   .toResult(logProperties, 'InvalidForm');
+   * ```
+   */
+  static validate<TValue>(value: TValue): ResultValidator<TValue> {
+    return new ResultValidator(value);
+  }
+
+  /**
+   * Creates a Result Pattern ErrorResult with TimeoutErrorResultDetails (and logs at the Warn level if options.log is not false).
+   */
+  static timeoutError(
+    options: DefaultErrorResultFactoryOptions,
+    errorCode: string | undefined,
+    timeoutMs: number,
+    timeoutErrorMessage: string = `Timed out after ${timeoutMs}ms.`
+  ): ErrorResult<TimeoutErrorResultDetails> {
+    if (options.log !== false) {
+      const contextPrefix = `${classContext} - TimeoutErrorResult`;
+      const amendedOptions = LogPropertiesUtils.withContextPrefix(options, contextPrefix);
+      const amendedParams = [`ErrorCode: ${errorCode}`];
+      LOG.warn(amendedOptions, timeoutErrorMessage, ...amendedParams);
+    }
+
+    const createOptions = this._createErrorResultConstructorOptions(options, errorCode, timeoutErrorMessage, []);
+    return new ErrorResult<TimeoutErrorResultDetails>(new TimeoutErrorResultDetails(createOptions, timeoutMs));
+  }
+
+  /**
+   * Creates a Result Pattern ErrorResult with CancelledErrorResultDetails (and logs at the Debug level if options.log is not false).
+   */
+  static cancelledError(
+    options: DefaultErrorResultFactoryOptions,
+    errorCode: string | undefined,
+    cancelledErrorMessage: string = defaultCancelledErrorMessage
+  ): ErrorResult<CancelledErrorResultDetails> {
+    if (options.log !== false) {
+      const contextPrefix = `${classContext} - CancelledErrorResult`;
+      const amendedOptions = LogPropertiesUtils.withContextPrefix(options, contextPrefix);
+      const amendedParams = [`ErrorCode: ${errorCode}`];
+      LOG.debug(amendedOptions, cancelledErrorMessage, ...amendedParams);
+    }
+
+    const createOptions = this._createErrorResultConstructorOptions(options, errorCode, cancelledErrorMessage, []);
+    return new ErrorResult<CancelledErrorResultDetails>(new CancelledErrorResultDetails(createOptions));
+  }
+
   /**
    * Creates a Result Pattern ErrorResult with ShortCircuitedErrorResultDetails (and logs at the Debug level if options.log is not false).
    */
@@ -143,10 +244,7 @@ export abstract class ResultFactory {
   ): ErrorResult<ShortCircuitedErrorResultDetails> {
     if (options.log !== false) {
       const contextPrefix = `${classContext} - ShortCircuitedErrorResult`;
-      const amendedOptions = {
-        ...options,
-        context: options.context ? [contextPrefix, ...options.context] : [contextPrefix],
-      };
+      const amendedOptions = LogPropertiesUtils.withContextPrefix(options, contextPrefix);
       const amendedParams = [`ErrorCode: ${errorCode}`];
       LOG.debug(amendedOptions, shortCircuitedErrorMessage, ...amendedParams);
     }
@@ -156,32 +254,97 @@ export abstract class ResultFactory {
   }
 
   /**
-   * Creates a Result Pattern `Result` from the given error object (and logs at the Error level).
+   * Creates a Result Pattern ErrorResult with AggregateErrorResultDetails that holds the given error details of multiple failures
+   * (and logs at the Debug level if options.log is not false).
+   * NOTE: The given error details are expected to have already been logged when their error results were created.
    */
-  static fromErrorObject(logProperties: StandardLogPropertiesCore, err: unknown): Result<never, AssertionFailedErrorResultDetails | TechnicalErrorResultDetails> {
-    if (ObjectUtils.isNullOrUndefined(err) || !ObjectUtils.isTypeOfObject(err)) {
+  static aggregateError<TChildErrorDetails extends AbstractErrorResultDetails>(
+    options: DefaultErrorResultFactoryOptions,
+    errorCode: string | undefined,
+    childErrorDetails: readonly TChildErrorDetails[],
+    aggregateErrorMessage?: string
+  ): ErrorResult<AggregateErrorResultDetails<TChildErrorDetails>> {
+    const errorMessage = aggregateErrorMessage ?? `${childErrorDetails.length} error(s) occurred.`;
+
+    if (options.log !== false) {
+      const contextPrefix = `${classContext} - AggregateErrorResult`;
+      const amendedOptions = LogPropertiesUtils.withContextPrefix(options, contextPrefix);
+      const amendedParams = [`ErrorCode: ${errorCode}`, ...childErrorDetails.map((child) => child.formatErrorResult())];
+      LOG.debug(amendedOptions, errorMessage, ...amendedParams);
+    }
+
+    const createOptions = this._createErrorResultConstructorOptions(options, errorCode, errorMessage, []);
+    return new ErrorResult<AggregateErrorResultDetails<TChildErrorDetails>>(new AggregateErrorResultDetails(createOptions, childErrorDetails));
+  }
+
+  /**
+   * Creates a Result Pattern `Result` from the given error object (and logs at the Error level, unless an error classifier logs otherwise).
+   * An `AssertionFailedError` is returned as an AssertionFailedErrorResult, and any other error as per `classifiedError()`.
+   * The error object is kept as the `cause` of the error details (see `AbstractErrorResultDetails.cause` and `ErrorResult.toError()`).
+   */
+  static fromErrorObject(logProperties: StandardLogPropertiesCore, err: unknown): Result<never, AssertionFailedErrorResultDetails | ClassifiedErrorResultDetails> {
+    if (ObjectUtils.isNullOrUndefined(err)) {
       return ResultFactory.technicalError(logProperties, /* errorCode */ undefined, ErrorUtils.toErrorString(err));
     }
 
     if (AssertionFailedError.isInstance(err)) {
-      return ResultFactory.assertionFailedError(logProperties, /* errorCode */ undefined, err);
+      return ResultFactory.assertionFailedError(logProperties, err.errorCode, err);
+    }
+
+    return ResultFactory.classifiedError(logProperties, /* errorCode */ undefined, err);
+  }
+
+  /**
+   * Creates a Result Pattern ErrorResult from the given error object with the first error classifier that recognises it (see `ErrorClassifierRegistry`),
+   * or with TechnicalErrorResultDetails with the given error code (logged at the Error level) if none does.
+   */
+  static classifiedError(logProperties: StandardLogPropertiesCore, errorCode: string | undefined, err: unknown): ErrorResult<ClassifiedErrorResultDetails> {
+    // NOTE: The error is kept as the cause of the error details (so that its stack and class are not lost).
+    return ErrorClassifierRegistry.classify(err, logProperties) ?? ResultFactory.technicalError(logProperties, errorCode, err);
+  }
+
+  /**
+   * Rehydrates a Result Pattern `Result` from its JSON representation (as returned by `toJSON()`, or the JSON string thereof), e.g. after being sent across a process boundary.
+   * The error result details are rehydrated with the function registered in the `ErrorResultDetailsRegistry` for their discriminant tag (see `ErrorResultDetailsRegistry.fromJSON()`).
+   * NOTE: The ok value is not rehydrated, i.e. it remains as it was parsed from JSON.
+   * @throws {AssertionFailedError} if the JSON does not have a result discriminant tag, or the error details of an error result are not an object with a discriminant tag.
+   */
+  static fromJSON<TOkValue, TErrorDetails extends AbstractErrorResultDetails = AllErrorResultDetails>(
+    json: ResultJSON<TOkValue> | string
+  ): Result<TOkValue, TErrorDetails>;
+  static fromJSON<TOkValue>(
+    json: ResultJSON<TOkValue> | string
+  ): OkResult<TOkValue> | ErrorResult<AbstractErrorResultDetails> {
+    const resultJson: ResultJSON<TOkValue> = typeof json === 'string' ? JSON.parse(json) : json;
+    if (!ObjectUtils.isTypeOfObject(resultJson)) {
+      return ErrorUtils.throwAssertionFailedError(`${classContext}.fromJSON`, 'The JSON is not a Result JSON representation', resultJson);
     }
 
-    return ResultFactory.technicalError(logProperties, /* errorCode */ undefined, ErrorUtils.toErrorString(err));
+    switch (resultJson.discriminantTag) {
+      case ResultDiscriminantTags.OkResult:
+        return ResultFactory.ok(resultJson.value);
+      case ResultDiscriminantTags.ErrorResult:
+        if (!ObjectUtils.isTypeOfObject(resultJson.errorDetails)) {
+          return ErrorUtils.throwAssertionFailedError(`${classContext}.fromJSON`, 'The JSON is not an ErrorResult JSON representation (the errorDetails is not an object)', resultJson);
+        }
+        return new ErrorResult(ErrorResultDetailsRegistry.fromJSON(resultJson.errorDetails));
+      default:
+        return ErrorUtils.throwAssertionFailedError(`${classContext}.fromJSON`, 'The JSON is not a Result JSON representation', resultJson);
+    }
   }
 
   /**
    * Creates a Result Pattern `Result` from executing the given synchronous function.
-   * If the function throws an error, it is caught, logged (at the Error level) and returned as an ErrorResult with TechnicalErrorResultDetails or AssertionFailedErrorResultDetails.
+   * If the function throws an error, it is caught and returned (and logged) as per `fromErrorObject()`.
    */
   static tryCatchDefault<TOkValue>( 
     logProperties: StandardLogPropertiesCore,
     fn: () => TOkValue
-  ): Result<TOkValue, AssertionFailedErrorResultDetails | TechnicalErrorResultDetails>;
+  ): Result<TOkValue, AssertionFailedErrorResultDetails | ClassifiedErrorResultDetails>;
   static tryCatchDefault<TOkValue>( 
     logProperties: StandardLogPropertiesCore,
     fn: () => TOkValue
-  ): OkResult<TOkValue> | ErrorResult<AssertionFailedErrorResultDetails | TechnicalErrorResultDetails> {
+  ): OkResult<TOkValue> | ErrorResult<AssertionFailedErrorResultDetails | ClassifiedErrorResultDetails> {
     try {
       return ResultFactory.ok(fn());
     } catch (err: unknown) {
@@ -191,21 +354,44 @@ export abstract class ResultFactory {
 
   /**
    * Creates a Result Pattern `Result` from executing the given asynchronous function.
-   * If the function throws an error, it is caught, logged (at the Error level) and returned as an ErrorResult with TechnicalErrorResultDetails or AssertionFailedErrorResultDetails.
+   * If the function throws an error, it is caught and returned (and logged) as per `fromErrorObject()`.
+   * If `options.timeoutMs` elapses or `options.signal` is aborted first, the signal given to the function is aborted and
+   * an ErrorResult with TimeoutErrorResultDetails (logged at the Warn level) or CancelledErrorResultDetails (logged at the Debug level) is returned.
+   * @throws {AssertionFailedError} if `options.timeoutMs` is NaN, negative, or a finite number greater than 2^31 - 1 (Infinity is no timeout).
+   * @returns an `AsyncResultChain` so that further operations can be chained before awaiting.
    */
-  static async tryCatchDefaultAsync<TOkValue>( 
+  static tryCatchDefaultAsync<TOkValue>( 
     logProperties: StandardLogPropertiesCore,
-    fn: () => Promise<TOkValue>
-  ): AsyncResult<TOkValue, AssertionFailedErrorResultDetails | TechnicalErrorResultDetails>;
-  static async tryCatchDefaultAsync<TOkValue>( 
+    fn: (signal: AbortSignal) => Promise<TOkValue>
+  ): AsyncResultChain<TOkValue, AssertionFailedErrorResultDetails | ClassifiedErrorResultDetails>;
+  static tryCatchDefaultAsync<TOkValue>( 
     logProperties: StandardLogPropertiesCore,
-    fn: () => Promise<TOkValue>
-  ): Promise<OkResult<TOkValue> | ErrorResult<AssertionFailedErrorResultDetails | TechnicalErrorResultDetails>> {
-    try {
-      return ResultFactory.ok(await fn());
-    } catch (err: unknown) {
-      return this.fromErrorObject(logProperties, err);
-    }
+    fn: (signal: AbortSignal) => Promise<TOkValue>,
+    options: AsyncResultFactoryOptions
+  ): AsyncResultChain<TOkValue, AssertionFailedErrorResultDetails | ClassifiedErrorResultDetails | TimeoutErrorResultDetails | CancelledErrorResultDetails>;
+  static tryCatchDefaultAsync<TOkValue>( 
+    logProperties: StandardLogPropertiesCore,
+    fn: (signal: AbortSignal) => Promise<TOkValue>,
+    options: AsyncResultFactoryOptions = {}
+  ): AsyncResultChain<TOkValue, AssertionFailedErrorResultDetails | ClassifiedErrorResultDetails | TimeoutErrorResultDetails | CancelledErrorResultDetails> {
+    ResultFactory._assertTimeoutMs(`${classContext}.tryCatchDefaultAsync`, options);
+    type TErrorDetails = AssertionFailedErrorResultDetails | ClassifiedErrorResultDetails | TimeoutErrorResultDetails | CancelledErrorResultDetails;
+    const tryCatchDefaultCore = async (): Promise<OkResult<TOkValue> | ErrorResult<TErrorDetails>> => {
+      try {
+        const abortableOutcome = await ResultFactory._runAbortable(fn, options);
+        switch (abortableOutcome.outcome) {
+          case 'completed':
+            return ResultFactory.ok(abortableOutcome.value);
+          case 'timedOut':
+            return ResultFactory.timeoutError(logProperties, options.errorCode, abortableOutcome.timeoutMs);
+          case 'cancelled':
+            return ResultFactory.cancelledError(logProperties, options.errorCode);
+        }
+      } catch (err: unknown) {
+        return ResultFactory.fromErrorObject(logProperties, err);
+      }
+    };
+    return new AsyncResultChain(tryCatchDefaultCore() as AsyncResult<TOkValue, TErrorDetails>);
   }
 
   /**
@@ -230,20 +416,42 @@ export abstract class ResultFactory {
   /**
    * Creates a Result Pattern `Result` from executing the given asynchronous function.
    * If the function throws an error, it is caught and the given error result factory is called.
+   * If `options.timeoutMs` elapses or `options.signal` is aborted first, the signal given to the function is aborted and
+   * an ErrorResult with TimeoutErrorResultDetails or CancelledErrorResultDetails (with `options.logProperties` and `options.errorCode`) is returned (without logging).
+   * @throws {AssertionFailedError} if `options.timeoutMs` is NaN, negative, or a finite number greater than 2^31 - 1 (Infinity is no timeout).
+   * @returns an `AsyncResultChain` so that further operations can be chained before awaiting.
    */
-  static async tryCatchAsync<TOkValue, TErrorDetails extends AbstractErrorResultDetails>( 
-    fn: () => Promise<TOkValue>,
+  static tryCatchAsync<TOkValue, TErrorDetails extends AbstractErrorResultDetails>( 
+    fn: (signal: AbortSignal) => Promise<TOkValue>,
     errorResultFactory: ErrorResultFactory<TErrorDetails>,
-  ): AsyncResult<TOkValue, TErrorDetails>;
-  static async tryCatchAsync<TOkValue, TErrorDetails extends AbstractErrorResultDetails>( 
-    fn: () => Promise<TOkValue>,
+  ): AsyncResultChain<TOkValue, TErrorDetails>;
+  static tryCatchAsync<TOkValue, TErrorDetails extends AbstractErrorResultDetails>( 
+    fn: (signal: AbortSignal) => Promise<TOkValue>,
     errorResultFactory: ErrorResultFactory<TErrorDetails>,
-  ): Promise<OkResult<TOkValue> | ErrorResult<TErrorDetails>> {
-    try {
-      return ResultFactory.ok(await fn());
-    } catch (err: unknown) {
-      return errorResultFactory(err);
-    }
+    options: AsyncResultFactoryOptions
+  ): AsyncResultChain<TOkValue, TErrorDetails | TimeoutErrorResultDetails | CancelledErrorResultDetails>;
+  static tryCatchAsync<TOkValue, TErrorDetails extends AbstractErrorResultDetails>( 
+    fn: (signal: AbortSignal) => Promise<TOkValue>,
+    errorResultFactory: ErrorResultFactory<TErrorDetails>,
+    options: AsyncResultFactoryOptions = {}
+  ): AsyncResultChain<TOkValue, TErrorDetails | TimeoutErrorResultDetails | CancelledErrorResultDetails> {
+    ResultFactory._assertTimeoutMs(`${classContext}.tryCatchAsync`, options);
+    const tryCatchCore = async (): Promise<OkResult<TOkValue> | ErrorResult<TErrorDetails | TimeoutErrorResultDetails | CancelledErrorResultDetails>> => {
+      try {
+        const abortableOutcome = await ResultFactory._runAbortable(fn, options);
+        switch (abortableOutcome.outcome) {
+          case 'completed':
+            return ResultFactory.ok(abortableOutcome.value);
+          case 'timedOut':
+            return ResultFactory.timeoutError({ ...options.logProperties, log: false }, options.errorCode, abortableOutcome.timeoutMs);
+          case 'cancelled':
+            return ResultFactory.cancelledError({ ...options.logProperties, log: false }, options.errorCode);
+        }
+      } catch (err: unknown) {
+        return errorResultFactory(err);
+      }
+    };
+    return new AsyncResultChain(tryCatchCore() as AsyncResult<TOkValue, TErrorDetails | TimeoutErrorResultDetails | CancelledErrorResultDetails>);
   }
 
   /**
@@ -255,11 +463,11 @@ export abstract class ResultFactory {
   static wrapDefault<TFunction extends AnyFunction>(
     logProperties: StandardLogPropertiesCore,
     fn: TFunction
-  ): (...args: Parameters<TFunction>) => Result<ReturnType<TFunction>, AssertionFailedErrorResultDetails | TechnicalErrorResultDetails>;
+  ): (...args: Parameters<TFunction>) => Result<ReturnType<TFunction>, AssertionFailedErrorResultDetails | ClassifiedErrorResultDetails>;
   static wrapDefault<TFunction extends AnyFunction>(
     logProperties: StandardLogPropertiesCore,
     fn: TFunction
-  ): (...args: Parameters<TFunction>) => OkResult<ReturnType<TFunction>> | ErrorResult<AssertionFailedErrorResultDetails | TechnicalErrorResultDetails> {
+  ): (...args: Parameters<TFunction>) => OkResult<ReturnType<TFunction>> | ErrorResult<AssertionFailedErrorResultDetails | ClassifiedErrorResultDetails> {
     return function wrapped(...args: Parameters<TFunction>) {
       return ResultFactory.tryCatchDefault(logProperties, () => fn(...args));
     };
@@ -267,20 +475,30 @@ export abstract class ResultFactory {
 
   /**
    * @returns a function that wraps the given function in a try-catch block. If the function throws an error, it is caught, logged at the Error level and the default error result factory is called.
+   * If options are given, the wrapped function is also given an `AbortSignal` (as its last argument) that is aborted on a timeout or cancellation (see `tryCatchDefaultAsync()`).
    * 
    * @param logProperties the log properties to use when logging the error
    * @param fn the function to wrap 
+   * @param options optional timeout and cancellation options applied to each call (see `tryCatchDefaultAsync()`)
    */
   static wrapDefaultAsync<TFunction extends AnyAsyncFunction>(
     logProperties: StandardLogPropertiesCore,
     fn: TFunction
-  ): (...args: Parameters<TFunction>) => AsyncResult<Awaited<ReturnType<TFunction>>, AssertionFailedErrorResultDetails | TechnicalErrorResultDetails>;
-  static wrapDefaultAsync<TFunction extends AnyAsyncFunction>(
+  ): (...args: Parameters<TFunction>) => AsyncResultChain<Awaited<ReturnType<TFunction>>, AssertionFailedErrorResultDetails | ClassifiedErrorResultDetails>;
+  static wrapDefaultAsync<TArgs extends unknown[], TOkValue>(
     logProperties: StandardLogPropertiesCore,
-    fn: TFunction
-  ): (...args: Parameters<TFunction>) => Promise<OkResult<Awaited<ReturnType<TFunction>>> | ErrorResult<AssertionFailedErrorResultDetails | TechnicalErrorResultDetails>> {
-    return function wrappedAsync(...args: Parameters<TFunction>) {
-      return ResultFactory.tryCatchDefaultAsync(logProperties, () => fn(...args));
+    fn: (...args: [...TArgs, AbortSignal]) => Promise<TOkValue>,
+    options: AsyncResultFactoryOptions
+  ): (...args: TArgs) => AsyncResultChain<TOkValue, AssertionFailedErrorResultDetails | ClassifiedErrorResultDetails | TimeoutErrorResultDetails | CancelledErrorResultDetails>;
+  static wrapDefaultAsync(
+    logProperties: StandardLogPropertiesCore,
+    fn: AnyAsyncFunction,
+    options?: AsyncResultFactoryOptions
+  ): (...args: unknown[]) => AsyncResultChain<unknown, AssertionFailedErrorResultDetails | ClassifiedErrorResultDetails | TimeoutErrorResultDetails | CancelledErrorResultDetails> {
+    return function wrappedAsync(...args: unknown[]) {
+      return options
+        ? ResultFactory.tryCatchDefaultAsync(logProperties, (signal) => fn(...args, signal), options)
+        : ResultFactory.tryCatchDefaultAsync(logProperties, () => fn(...args));
     };
   }
 
@@ -307,25 +525,272 @@ export abstract class ResultFactory {
   /**
    * @returns a function that wraps the given function in a try-catch block. If the function throws an error, it is caught and the given error result factory is called.
    * It is the responsibility of the errorResultFactory to log the error appropriately.
+   * If options are given, the wrapped function is also given an `AbortSignal` (as its last argument) that is aborted on a timeout or cancellation (see `tryCatchAsync()`).
    * 
-   * @param logProperties the log properties to use when logging the error
+   * @param fn the function to wrap 
    * @param errorResultFactory optional error result factory to use when the function throws an error
+   * @param options optional timeout and cancellation options applied to each call (see `tryCatchAsync()`)
    */
   static wrapAsync<TFunction extends AnyAsyncFunction, TErrorDetails extends AbstractErrorResultDetails>(
     fn: TFunction,
     errorResultFactory: ErrorResultFactory<TErrorDetails>
-  ): (...args: Parameters<TFunction>) => AsyncResult<Awaited<ReturnType<TFunction>>, TErrorDetails>;
-  static wrapAsync<TFunction extends AnyAsyncFunction, TErrorDetails extends AbstractErrorResultDetails>(
-    fn: TFunction,
-    errorResultFactory: ErrorResultFactory<TErrorDetails>
-  ): (...args: Parameters<TFunction>) => Promise<OkResult<Awaited<ReturnType<TFunction>>> | ErrorResult<TErrorDetails>> {
-    return function wrappedAsync(...args: Parameters<TFunction>) {
-      return ResultFactory.tryCatchAsync(() => fn(...args), errorResultFactory);
+  ): (...args: Parameters<TFunction>) => AsyncResultChain<Awaited<ReturnType<TFunction>>, TErrorDetails>;
+  static wrapAsync<TArgs extends unknown[], TOkValue, TErrorDetails extends AbstractErrorResultDetails>(
+    fn: (...args: [...TArgs, AbortSignal]) => Promise<TOkValue>,
+    errorResultFactory: ErrorResultFactory<TErrorDetails>,
+    options: AsyncResultFactoryOptions
+  ): (...args: TArgs) => AsyncResultChain<TOkValue, TErrorDetails | TimeoutErrorResultDetails | CancelledErrorResultDetails>;
+  static wrapAsync<TErrorDetails extends AbstractErrorResultDetails>(
+    fn: AnyAsyncFunction,
+    errorResultFactory: ErrorResultFactory<TErrorDetails>,
+    options?: AsyncResultFactoryOptions
+  ): (...args: unknown[]) => AsyncResultChain<unknown, TErrorDetails | TimeoutErrorResultDetails | CancelledErrorResultDetails> {
+    return function wrappedAsync(...args: unknown[]) {
+      return options
+        ? ResultFactory.tryCatchAsync((signal) => fn(...args, signal), errorResultFactory, options)
+        : ResultFactory.tryCatchAsync(() => fn(...args), errorResultFactory);
     };
   }
 
+  /**
+   * Combines the given results into a single result (does not log).
+   * If all the results are ok results, an ok result with all the ok values (in the same tuple/array/record shape) is returned.
+   * Otherwise, the first error result (in the order of the given results) is returned.
+   * @example
+   * ```typescript
+   * const tupleResult = Result.all([Result.ok(1), Result.ok('a')]); // Result<[number, string], never>
+   * const recordResult = Result.all({ id: Result.ok(1), name: Result.ok('a') }); // Result<{ id: number, name: string }, never>
+   * ```
+   */
+  static all<const TResults extends readonly AnyResult[]>(
+    results: TResults
+  ): Result<OkValuesOf<TResults>, ErrorDetailsOf<TResults[number]>>;
+  static all<TResults extends Record<string, AnyResult>>(
+    results: TResults
+  ): Result<OkValuesOf<TResults>, ErrorDetailsOf<TResults[keyof TResults]>>;
+  static all(
+    results: readonly AnyResult[] | Record<string, AnyResult>
+  ): OkResult<unknown> | ErrorResult<AbstractErrorResultDetails> {
+    const okValues: Record<string, unknown> | unknown[] = Array.isArray(results) ? [] : {};
+    for (const [key, result] of Object.entries(results)) {
+      if (result.isError) {
+        return result;
+      }
+      (okValues as Record<string, unknown>)[key] = result.value;
+    }
+    return ResultFactory.ok(okValues);
+  }
+
+  /**
+   * Collects every ok value and every error details from the given results (does not log).
+   * Unlike `all()`, this does not stop at the first error result.
+   */
+  static allSettled<const TResults extends readonly AnyResult[]>(
+    results: TResults
+  ): SettledResults<OkValuesOf<TResults>, ErrorDetailsOf<TResults[number]>>;
+  static allSettled<TResults extends Record<string, AnyResult>>(
+    results: TResults
+  ): SettledResults<OkValuesOf<TResults>, ErrorDetailsOf<TResults[keyof TResults]>>;
+  static allSettled(
+    results: readonly AnyResult[] | Record<string, AnyResult>
+  ): SettledResults<Record<string, unknown> | unknown[], AbstractErrorResultDetails> {
+    const okValues: Record<string, unknown> | unknown[] = Array.isArray(results) ? new Array(results.length).fill(undefined) : {};
+    const errorDetails: AbstractErrorResultDetails[] = [];
+    for (const [key, result] of Object.entries(results)) {
+      if (result.isError) {
+        errorDetails.push(result.errorDetails);
+        if (!Array.isArray(okValues)) {
+          okValues[key] = undefined;
+        }
+      } else {
+        (okValues as Record<string, unknown>)[key] = result.value;
+      }
+    }
+    return { okValues, errorDetails };
+  }
+
+  /**
+   * Combines the given asynchronous results into a single result (does not log).
+   * Each item can be a `Result`, an `AsyncResult`, or a function that returns one of those (which is only called when there is capacity as per `options.concurrency`).
+   * If all the results are ok results, an ok result with all the ok values (in the same order) is returned.
+   * Otherwise, the first error result to resolve is returned as soon as it resolves (without waiting for the other results), and the remaining functions are not called.
+   * If an input rejects (or a function throws) first, the returned chain rejects with that error (as with a plain promise, it is NOT converted into an error result).
+   * @throws {AssertionFailedError} if `options.concurrency` is not a finite number of at least 1.
+   */
+  static allAsync<const TResultInputs extends readonly AnyResultInput[]>(
+    resultInputs: TResultInputs,
+    options?: CombineAsyncResultsOptions
+  ): AsyncResultChain<OkValuesOf<{ [TKey in keyof TResultInputs]: ResolvedResultOf<TResultInputs[TKey]> }>, ErrorDetailsOf<ResolvedResultOf<TResultInputs[number]>>>;
+  static allAsync(
+    resultInputs: readonly AnyResultInput[],
+    options?: CombineAsyncResultsOptions
+  ): AsyncResultChain<unknown, AbstractErrorResultDetails> {
+    const concurrency = ResultFactory._toConcurrency(`${classContext}.allAsync`, options, resultInputs.length);
+    const allCore = async (): Promise<OkResult<unknown> | ErrorResult<AbstractErrorResultDetails>> => {
+      const { results, firstErrorResult } = await ResultFactory._resolveResultInputs(resultInputs, concurrency, /* stopOnError */ true);
+      if (firstErrorResult) {
+        return firstErrorResult;
+      }
+      return ResultFactory.ok(results.map((result) => result?.valueOrUndefined()));
+    };
+    return new AsyncResultChain(allCore() as AsyncResult<unknown, AbstractErrorResultDetails>);
+  }
+
+  /**
+   * Collects every ok value and every error details from the given asynchronous results (does not log).
+   * Each item can be a `Result`, an `AsyncResult`, or a function that returns one of those (which is only called when there is capacity as per `options.concurrency`).
+   * Unlike `allAsync()`, this does not stop at the first error result. If an input rejects (or a function throws), the returned promise rejects with that error.
+   * @throws {AssertionFailedError} (i.e. rejects) if `options.concurrency` is not a finite number of at least 1.
+   */
+  static allSettledAsync<const TResultInputs extends readonly AnyResultInput[]>(
+    resultInputs: TResultInputs,
+    options?: CombineAsyncResultsOptions
+  ): Promise<SettledResults<OkValuesOf<{ [TKey in keyof TResultInputs]: ResolvedResultOf<TResultInputs[TKey]> }>, ErrorDetailsOf<ResolvedResultOf<TResultInputs[number]>>>>;
+  static async allSettledAsync(
+    resultInputs: readonly AnyResultInput[],
+    options?: CombineAsyncResultsOptions
+  ): Promise<SettledResults<unknown[], AbstractErrorResultDetails>> {
+    const concurrency = ResultFactory._toConcurrency(`${classContext}.allSettledAsync`, options, resultInputs.length);
+    const { results } = await ResultFactory._resolveResultInputs(resultInputs, concurrency, /* stopOnError */ false);
+    return ResultFactory.allSettled(results as AnyResult[]);
+  }
+
+  /**
+   * Calls the given function (which returns a `Result` or an `AsyncResult`) until it returns an ok result,
+   * the error result should not be retried (as per `policy.shouldRetry`), `policy.maxAttempts` is reached, or `policy.deadlineMs` would be exceeded.
+   * Each attempt is logged (at the Debug level) and each retry (at the Warn level) using `policy.logProperties`.
+   * If the function throws an error (or rejects), it is NOT caught, so the returned chain rejects.
+   * @throws {AssertionFailedError} if `policy.maxAttempts` is not an integer of at least 1.
+   * @returns an `AsyncResultChain` of the last result so that further operations can be chained before awaiting.
+   * @example
+   * ```typescript
+   * const result = await Result.retryAsync((attempt) => fetchUser(id), {
+   *   logProperties,
+   *   maxAttempts: 5,
+   *   backoff: { type: 'exponential', initialDelayMs: 100, maxDelayMs: 2000, jitter: 'full' },
+   *   deadlineMs: 10_000,
+   * });
+   * ```
+   */
+  static retryAsync<TOkValue, TErrorDetails extends AbstractErrorResultDetails>(
+    fn: (attempt: number) => ResultOrPromiseLike<TOkValue, TErrorDetails>,
+    policy: RetryPolicy<TErrorDetails>
+  ): AsyncResultChain<TOkValue, TErrorDetails> {
+    const contextPrefix = `${classContext} - retryAsync`;
+    const { logProperties } = policy;
+    const amendedOptions = LogPropertiesUtils.withContextPrefix(logProperties, contextPrefix);
+    const shouldRetry = policy.shouldRetry ?? RetryUtils.isTransientErrorDetails;
+    const { maxAttempts } = policy;
+    if (!(Number.isInteger(maxAttempts) && maxAttempts >= 1)) {
+      ErrorUtils.throwAssertionFailedError(amendedOptions, `The maximum number of attempts must be an integer of at least 1: ${maxAttempts}`);
+    }
+
+    const retryCore = async (): Promise<OkResult<TOkValue> | ErrorResult<TErrorDetails>> => {
+      const startTime = Date.now();
+      for (let attempt = 1; ; attempt++) {
+        LOG.debug(amendedOptions, `Attempt ${attempt} of ${maxAttempts}`);
+        const result = await fn(attempt) as OkResult<TOkValue> | ErrorResult<TErrorDetails>;
+        if (result.isOk) {
+          return result;
+        }
+
+        if (!shouldRetry(result.errorDetails, attempt)) {
+          LOG.debug(amendedOptions, `Attempt ${attempt} of ${maxAttempts} failed - not retrying as the error is not retryable`, result.errorDetails.formatErrorResult());
+          return result;
+        }
+
+        if (attempt >= maxAttempts) {
+          LOG.warn(amendedOptions, `Attempt ${attempt} of ${maxAttempts} failed - giving up as the maximum number of attempts has been reached`, result.errorDetails.formatErrorResult());
+          return result;
+        }
+
+        const delayMs = RetryUtils.calculateDelayMs(policy.backoff, attempt);
+        if (!ObjectUtils.isNullOrUndefined(policy.deadlineMs) && Date.now() - startTime + delayMs >= policy.deadlineMs) {
+          LOG.warn(amendedOptions, `Attempt ${attempt} of ${maxAttempts} failed - giving up as the deadline of ${policy.deadlineMs}ms would be exceeded`, result.errorDetails.formatErrorResult());
+          return result;
+        }
+
+        LOG.warn(amendedOptions, `Attempt ${attempt} of ${maxAttempts} failed - retrying in ${delayMs}ms`, result.errorDetails.formatErrorResult());
+        await new Promise((resolve) => setTimeout(resolve, delayMs));
+      }
+    };
+    return new AsyncResultChain(retryCore() as AsyncResult<TOkValue, TErrorDetails>);
+  }
+
+  /**
+   * Runs the given generator function as a pipeline of results ("do-notation"), where `yield*` on a result evaluates to its ok value.
+   * The pipeline short-circuits on the first error result, which is returned as-is. Otherwise, an ok result with the returned value is returned.
+   * If log properties are given, a thrown error is caught and returned (and logged) as per `fromErrorObject()`.
+   * @example
+   * ```typescript
+   * const result = Result.gen(function* () {
+   *   const user = yield* findUser(id);       // Result<User, UserErrorResultDetails>
+   *   const order = yield* findOrder(user);   // Result<Order, TechnicalErrorResultDetails>
+   *   return { user, order };
+   * }); // Result<{ user: User, order: Order }, UserErrorResultDetails | TechnicalErrorResultDetails>
+   * ```
+   */
+  static gen<TYield extends ErrorResult<AbstractErrorResultDetails>, TOkValue>(
+    generatorFn: () => Generator<TYield, TOkValue, unknown>
+  ): Result<TOkValue, ErrorDetailsOf<TYield>>;
+  static gen<TYield extends ErrorResult<AbstractErrorResultDetails>, TOkValue>(
+    logProperties: StandardLogPropertiesCore,
+    generatorFn: () => Generator<TYield, TOkValue, unknown>
+  ): Result<TOkValue, ErrorDetailsOf<TYield> | AssertionFailedErrorResultDetails | ClassifiedErrorResultDetails>;
+  static gen(
+    logPropertiesOrGeneratorFn: StandardLogPropertiesCore | (() => Generator<ErrorResult<AbstractErrorResultDetails>, unknown, unknown>),
+    generatorFn?: () => Generator<ErrorResult<AbstractErrorResultDetails>, unknown, unknown>
+  ): OkResult<unknown> | ErrorResult<AbstractErrorResultDetails> {
+    const logProperties = ObjectUtils.isTypeOfFunction(logPropertiesOrGeneratorFn) ? undefined : logPropertiesOrGeneratorFn;
+    const fn = (generatorFn ?? logPropertiesOrGeneratorFn) as () => Generator<ErrorResult<AbstractErrorResultDetails>, unknown, unknown>;
+    if (!logProperties) {
+      return ResultFactory._runGenerator(fn());
+    }
+
+    try {
+      return ResultFactory._runGenerator(fn());
+    } catch (err: unknown) {
+      return ResultFactory.fromErrorObject(logProperties, err);
+    }
+  }
+
+  /**
+   * Runs the given async generator function as a pipeline of results ("do-notation"), where `yield*` on a result
+   * (or on an `AsyncResultChain`) evaluates to its ok value. Use `yield* await asyncResult` for other `AsyncResult`s.
+   * The pipeline short-circuits on the first error result, which is returned as-is. Otherwise, an ok result with the returned value is returned.
+   * If log properties are given, a thrown error is caught and returned (and logged) as per `fromErrorObject()`.
+   * @returns an `AsyncResultChain` so that further operations can be chained before awaiting.
+   */
+  static genAsync<TYield extends ErrorResult<AbstractErrorResultDetails>, TOkValue>(
+    generatorFn: () => AsyncGenerator<TYield, TOkValue, unknown>
+  ): AsyncResultChain<TOkValue, ErrorDetailsOf<TYield>>;
+  static genAsync<TYield extends ErrorResult<AbstractErrorResultDetails>, TOkValue>(
+    logProperties: StandardLogPropertiesCore,
+    generatorFn: () => AsyncGenerator<TYield, TOkValue, unknown>
+  ): AsyncResultChain<TOkValue, ErrorDetailsOf<TYield> | AssertionFailedErrorResultDetails | ClassifiedErrorResultDetails>;
+  static genAsync(
+    logPropertiesOrGeneratorFn: StandardLogPropertiesCore | (() => AsyncGenerator<ErrorResult<AbstractErrorResultDetails>, unknown, unknown>),
+    generatorFn?: () => AsyncGenerator<ErrorResult<AbstractErrorResultDetails>, unknown, unknown>
+  ): AsyncResultChain<unknown, AbstractErrorResultDetails> {
+    const logProperties = ObjectUtils.isTypeOfFunction(logPropertiesOrGeneratorFn) ? undefined : logPropertiesOrGeneratorFn;
+    const fn = (generatorFn ?? logPropertiesOrGeneratorFn) as () => AsyncGenerator<ErrorResult<AbstractErrorResultDetails>, unknown, unknown>;
+    const genCore = async (): Promise<OkResult<unknown> | ErrorResult<AbstractErrorResultDetails>> => {
+      if (!logProperties) {
+        return ResultFactory._runAsyncGenerator(fn());
+      }
+
+      try {
+        return await ResultFactory._runAsyncGenerator(fn());
+      } catch (err: unknown) {
+        return ResultFactory.fromErrorObject(logProperties, err);
+      }
+    };
+    return new AsyncResultChain(genCore() as AsyncResult<unknown, AbstractErrorResultDetails>);
+  }
+
   /**
    * Creates a Result Pattern ErrorResult constructor options object.
+   * NOTE: Sensitive data is redacted from the error message (as per `ErrorUtils.toErrorString()`), and a message that is not a string is kept as the cause.
    * @param options 
    * @param errorCode 
    * @param assertionFailedErrorMessage 
@@ -351,7 +816,169 @@ export abstract class ResultFactory {
       errorCode,
       correlationId: options.correlationId,
     }
+    // Keep a message that is not a string (e.g. a caught `Error`) as the cause
+    if (!ObjectUtils.isTypeOfUndefined(assertionFailedErrorMessage) && !StringUtils.isString(assertionFailedErrorMessage)) {
+      createOptions.cause = assertionFailedErrorMessage;
+    }
 
     return createOptions;
   }
+
+  /**
+   * Runs the given function with an `AbortSignal` that is aborted when `options.timeoutMs` elapses or `options.signal` is aborted,
+   * whichever happens first (the function is not called at all if `options.signal` is already aborted).
+   * If the function throws an error (or rejects) before then, the returned promise rejects with that error.
+   * @returns the outcome of the function (its value, or whether it timed out or was cancelled).
+   */
+  private static _runAbortable<TOkValue>(
+    fn: (signal: AbortSignal) => Promise<TOkValue>,
+    options: AsyncResultFactoryOptions
+  ): Promise<AbortableOutcome<TOkValue>> {
+    const { timeoutMs, signal } = options;
+    if (signal?.aborted) {
+      return Promise.resolve({ outcome: 'cancelled' });
+    }
+
+    const controller = new AbortController();
+    return new Promise<AbortableOutcome<TOkValue>>((resolve, reject) => {
+      let timeoutId: ReturnType<typeof setTimeout> | undefined;
+      const cleanUp = () => {
+        clearTimeout(timeoutId);
+        signal?.removeEventListener('abort', onAbort);
+      };
+      const onAbort = () => {
+        cleanUp();
+        controller.abort(signal?.reason);
+        resolve({ outcome: 'cancelled' });
+      };
+
+      if (!ObjectUtils.isNullOrUndefined(timeoutMs) && timeoutMs !== Number.POSITIVE_INFINITY) {
+        timeoutId = setTimeout(() => {
+          cleanUp();
+          controller.abort(new DOMException(`Timed out after ${timeoutMs}ms.`, 'TimeoutError'));
+          resolve({ outcome: 'timedOut', timeoutMs });
+        }, timeoutMs);
+      }
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      try {
+        fn(controller.signal).then(
+          (value) => {
+            cleanUp();
+            resolve({ outcome: 'completed', value });
+          },
+          (err: unknown) => {
+            cleanUp();
+            reject(err);
+          }
+        );
+      } catch (err: unknown) {
+        cleanUp();
+        reject(err);
+      }
+    });
+  }
+
+  /**
+   * @returns the number of result factory functions to call at the same time (all of them if `options.concurrency` is omitted).
+   * @throws {AssertionFailedError} if `options.concurrency` is not a finite number of at least 1.
+   */
+  private static _toConcurrency(context: string, options: CombineAsyncResultsOptions | undefined, resultInputCount: number): number {
+    const concurrency = options?.concurrency ?? resultInputCount;
+    if (options?.concurrency !== undefined && !(Number.isFinite(concurrency) && concurrency >= 1)) {
+      ErrorUtils.throwAssertionFailedError(context, `The concurrency must be a finite number of at least 1: ${concurrency}`);
+    }
+    return Math.min(Math.floor(concurrency), resultInputCount);
+  }
+
+  /**
+   * Asserts that `options.timeoutMs` (if given) is a number of milliseconds that `setTimeout()` supports, or `Infinity` (no timeout).
+   * @throws {AssertionFailedError} if `options.timeoutMs` is NaN, negative, or a finite number greater than 2^31 - 1.
+   */
+  private static _assertTimeoutMs(context: string, options: AsyncResultFactoryOptions): void {
+    const { timeoutMs } = options;
+    if (!ObjectUtils.isNullOrUndefined(timeoutMs) && timeoutMs !== Number.POSITIVE_INFINITY && !(timeoutMs >= 0 && timeoutMs <= maxTimeoutMs)) {
+      ErrorUtils.throwAssertionFailedError(context, `The timeout must be a number of milliseconds between 0 and ${maxTimeoutMs} (or Infinity): ${timeoutMs}`);
+    }
+  }
+
+  /**
+   * Resolves the given result inputs into results, calling at most the given number of result factory functions at a time.
+   * If stopping on an error, this resolves as soon as the first error result resolves (without waiting for the results that are in flight).
+   * If an input rejects (or a function throws), this rejects with that error as soon as it rejects (even if no worker has reached that input yet).
+   * @returns the results in the same order as the given inputs (undefined for any input that was not resolved due to stopping on an error),
+   *          and the first error result to resolve (if stopping on an error).
+   */
+  private static _resolveResultInputs(
+    resultInputs: readonly AnyResultInput[],
+    concurrency: number,
+    stopOnError: boolean
+  ): Promise<{ results: Array<OkResult<unknown> | ErrorResult<AbstractErrorResultDetails> | undefined>, firstErrorResult?: ErrorResult<AbstractErrorResultDetails> }> {
+    const results = new Array<OkResult<unknown> | ErrorResult<AbstractErrorResultDetails> | undefined>(resultInputs.length).fill(undefined);
+    let nextIndex = 0;
+
+    return new Promise((resolve, reject) => {
+      let isStopped = false;
+      const fail = (err: unknown) => {
+        isStopped = true;
+        reject(err);
+      };
+
+      // NOTE: A rejection handler is attached to every given promise up front, as a worker may never reach it (e.g. after stopping on an error).
+      for (const resultInput of resultInputs) {
+        if (!ObjectUtils.isTypeOfFunction(resultInput)) {
+          Promise.resolve(resultInput).then(undefined, fail);
+        }
+      }
+
+      const worker = async () => {
+        while (!isStopped && nextIndex < resultInputs.length) {
+          const index = nextIndex++;
+          const resultInput = resultInputs[index];
+          const result = await (ObjectUtils.isTypeOfFunction(resultInput) ? resultInput() : resultInput) as OkResult<unknown> | ErrorResult<AbstractErrorResultDetails>;
+          if (isStopped) {
+            return;
+          }
+          results[index] = result;
+          if (stopOnError && result.isError) {
+            // NOTE: No further functions are called, and the results that are in flight are ignored.
+            isStopped = true;
+            resolve({ results, firstErrorResult: result });
+          }
+        }
+      };
+
+      Promise.all(Array.from({ length: concurrency }, worker)).then(() => resolve({ results }), fail);
+    });
+  }
+
+  /**
+   * Runs the given generator until it yields its first error result (which is returned) or it returns an ok value.
+   * NOTE: The generator is closed after yielding an error result so that any `finally` blocks are run.
+   */
+  private static _runGenerator(
+    generator: Generator<ErrorResult<AbstractErrorResultDetails>, unknown, unknown>
+  ): OkResult<unknown> | ErrorResult<AbstractErrorResultDetails> {
+    const iteratorResult = generator.next();
+    if (iteratorResult.done) {
+      return ResultFactory.ok(iteratorResult.value);
+    }
+    generator.return(undefined);
+    return iteratorResult.value;
+  }
+
+  /**
+   * Runs the given async generator until it yields its first error result (which is returned) or it returns an ok value.
+   * NOTE: The generator is closed after yielding an error result so that any `finally` blocks are run.
+   */
+  private static async _runAsyncGenerator(
+    generator: AsyncGenerator<ErrorResult<AbstractErrorResultDetails>, unknown, unknown>
+  ): Promise<OkResult<unknown> | ErrorResult<AbstractErrorResultDetails>> {
+    const iteratorResult = await generator.next();
+    if (iteratorResult.done) {
+      return ResultFactory.ok(iteratorResult.value);
+    }
+    await generator.return(undefined);
+    return iteratorResult.value;
+  }
 }
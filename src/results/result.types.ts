@@ -1,17 +1,22 @@
 // Types
-import type { StandardLogPropertiesCore } from '../logging/logging.types';
+import type { StandardCallerContext, StandardLogPropertiesCore } from '../logging/logging.types';
 
 // Results (type only to avoid circular dependencies)
 import type { ErrorResult } from './error-result';
+import type { ResultOrPromiseLike } from './async-result-chain';
 import type { OkResult } from './ok-result';
 
 // Error Result Details (type only to avoid circular dependencies)
 import type { AbstractErrorResultDetails } from './error-result-details/abstract-error-result-details';
+import type { AggregateErrorResultDetails } from './error-result-details/aggregate-error-result-details';
 import type { ApiErrorResultDetails } from './error-result-details/api-error-result-details';
 import type { AssertionFailedErrorResultDetails } from './error-result-details/assertion-failed-error-result-details';
+import type { CancelledErrorResultDetails } from './error-result-details/cancelled-error-result-details';
 import type { ShortCircuitedErrorResultDetails } from './error-result-details/short-circuited-error-result-details';
 import type { TechnicalErrorResultDetails } from './error-result-details/technical-error-result-details';
+import type { TimeoutErrorResultDetails } from './error-result-details/timeout-error-result-details';
 import type { UserErrorResultDetails } from './error-result-details/user-error-result-details';
+import type { ValidationErrorResultDetails } from './error-result-details/validation-error-result-details';
 
 // Utilities
 import { ResultFactory } from './result.factory';
@@ -24,16 +29,39 @@ export type AllErrorResultDetails = AllStandardErrorResultDetails | AllCustomErr
 /**
  * A union of all the custom ErrorResultDetails types.
  */
-type AllCustomErrorResultDetails = never; // TODO: Add your custom ErrorResultDetails types here. 
+type AllCustomErrorResultDetails = never; // TODO: Add your custom ErrorResultDetails types here (e.g. `InstanceType<typeof MyError.ErrorResultDetails>` for those defined with `defineErrorResultDetails()`).
 
 /**
  * A union of all the out of the box ErrorResultDetails types.
  */
 type AllStandardErrorResultDetails =
+  | AggregateErrorResultDetails
   | ApiErrorResultDetails
   | AssertionFailedErrorResultDetails
+  | CancelledErrorResultDetails
   | ShortCircuitedErrorResultDetails
   | TechnicalErrorResultDetails
+  | TimeoutErrorResultDetails
+  | UserErrorResultDetails
+  | ValidationErrorResultDetails;
+
+/**
+ * A union of the ErrorResultDetails types that a caught error is converted into by the error classifiers (see `ErrorClassifierRegistry`),
+ * i.e. by `tryCatchDefault()`, `wrapDefault()`, `fromErrorObject()` and the `*CatchDefault` operations (TechnicalErrorResultDetails if no classifier matches).
+ */
+export type ClassifiedErrorResultDetails = StandardClassifiedErrorResultDetails | CustomClassifiedErrorResultDetails;
+
+/**
+ * A union of the custom ErrorResultDetails types that the error classifiers can return.
+ */
+type CustomClassifiedErrorResultDetails = never; // TODO: Add the custom ErrorResultDetails types that your error classifiers return here (e.g. `InstanceType<typeof MyError.ErrorResultDetails>`).
+
+/**
+ * A union of the out of the box ErrorResultDetails types that the error classifiers can return.
+ */
+type StandardClassifiedErrorResultDetails =
+  | CancelledErrorResultDetails
+  | TechnicalErrorResultDetails
   | UserErrorResultDetails;
 
 /**
@@ -87,6 +115,228 @@ export type AsyncResult<TOkValue, TErrorDetails extends AbstractErrorResultDetai
  */
 export type ApiResult<TOkValue> = Result<TOkValue, ApiErrorResultDetails>;
 
+/**
+ * Any `Result` (regardless of its ok value and error details types).
+ */
+export type AnyResult = OkResult<unknown> | ErrorResult<AbstractErrorResultDetails>;
+
+/**
+ * Any `Result`, `AsyncResult`, or a function that returns one of those (so that it can be started lazily).
+ */
+export type AnyResultInput = ResultOrPromiseLike<unknown, AbstractErrorResultDetails> | (() => ResultOrPromiseLike<unknown, AbstractErrorResultDetails>);
+
+/**
+ * The ok value type of the given `Result` type (or a union of the ok value types if given a union of results).
+ */
+export type OkValueOf<TResult> = TResult extends OkResult<infer TOkValue> ? TOkValue : never;
+
+/**
+ * The error details type of the given `Result` type (or a union of the error details types if given a union of results).
+ */
+export type ErrorDetailsOf<TResult> = TResult extends ErrorResult<infer TErrorDetails> ? TErrorDetails : never;
+
+/**
+ * The `Result` type that the given `AnyResultInput` type resolves to.
+ */
+export type ResolvedResultOf<TResultInput> = TResultInput extends () => infer TReturn ? Awaited<TReturn> : Awaited<TResultInput>;
+
+/**
+ * The ok values of the given tuple/array/record of results, in the same shape.
+ */
+export type OkValuesOf<TResults> = { -readonly [TKey in keyof TResults]: OkValueOf<TResults[TKey]> };
+
+/**
+ * The settled outcome of a collection of results, containing every ok value and every error details.
+ */
+export type SettledResults<TOkValues, TErrorDetails extends AbstractErrorResultDetails> = {
+  /**
+   * The ok values in the same shape as the given results (undefined where the result was an error result).
+   */
+  okValues: { [TKey in keyof TOkValues]: TOkValues[TKey] | undefined };
+
+  /**
+   * The error details of every error result (in the order of the given results).
+   */
+  errorDetails: TErrorDetails[];
+}
+
+/**
+ * Options for combining asynchronous results in the Result Factory.
+ */
+export type CombineAsyncResultsOptions = {
+  /**
+   * The maximum number of result factory functions to run at the same time (defaults to all of them).
+   * NOTE: Only applies to the given functions - promises that are given directly have already been started.
+   */
+  concurrency?: number | undefined;
+};
+
+/**
+ * The JSON representation of an `error result details` (as returned by its `toJSON()`).
+ * NOTE: Error result details with additional state (e.g. `ApiErrorResultDetails`) add their own properties.
+ */
+export type ErrorResultDetailsJSON = {
+  discriminantTag: string;
+  name: string;
+  context?: StandardCallerContext | undefined;
+  errorCode?: string | undefined;
+  errorMessage: string;
+  errorInstanceId?: string | undefined;
+  correlationId?: string | undefined;
+
+  /**
+   * The serialised cause (see `ErrorSerializationUtils`), which is rehydrated as-is (i.e. not as an `Error`).
+   */
+  cause?: unknown;
+  [property: string]: unknown;
+};
+
+/**
+ * The JSON representation of an `OkResult` (as returned by its `toJSON()`).
+ */
+export type OkResultJSON<TOkValue> = {
+  discriminantTag: typeof ResultDiscriminantTags.OkResult;
+  value: TOkValue;
+};
+
+/**
+ * The JSON representation of an `ErrorResult` (as returned by its `toJSON()`).
+ */
+export type ErrorResultJSON = {
+  discriminantTag: typeof ResultDiscriminantTags.ErrorResult;
+  errorDetails: ErrorResultDetailsJSON;
+};
+
+/**
+ * The JSON representation of a `Result` (as returned by its `toJSON()`), which can be rehydrated with `Result.fromJSON()`.
+ */
+export type ResultJSON<TOkValue> = OkResultJSON<TOkValue> | ErrorResultJSON;
+
+/**
+ * A function that rehydrates an `error result details` instance from its JSON representation.
+ * @param json The JSON representation of the error result details.
+ * @param options The constructor options (context, errorCode, errorMessage, etc.) already read from the JSON representation.
+ */
+export type ErrorResultDetailsReviver = (json: ErrorResultDetailsJSON, options: ErrorResultDetailsConstructorOptions) => AbstractErrorResultDetails;
+
+/**
+ * A function that converts a caught error into an error result (e.g. a domain `NotFoundError` into a UserErrorResult),
+ * or returns undefined if it does not recognise the error (see `ErrorClassifierRegistry`).
+ * @param err The caught error (or any other thrown value).
+ * @param logProperties The log properties to create (and log) the error result with.
+ */
+export type ErrorClassifier = (err: unknown, logProperties: StandardLogPropertiesCore) => ErrorResult<ClassifiedErrorResultDetails> | undefined;
+
+/**
+ * A handler for each discriminant tag of the given error details union (each handler is given the narrowed error details).
+ */
+export type ErrorDetailsHandlers<TErrorDetails extends AbstractErrorResultDetails, TReturn> = {
+  [TTag in TErrorDetails['discriminantTag']]: (errorDetails: Extract<TErrorDetails, { discriminantTag: TTag }>) => TReturn;
+};
+
+/**
+ * A handler for some of the discriminant tags of the given error details union, with a `_` fallback handler for the rest.
+ */
+export type ErrorDetailsHandlersWithFallback<TErrorDetails extends AbstractErrorResultDetails, TReturn> =
+  Partial<ErrorDetailsHandlers<TErrorDetails, TReturn>> & { _: (errorDetails: TErrorDetails) => TReturn };
+
+/**
+ * Either a handler for every discriminant tag of the given error details union, or a handler for some of them with a `_` fallback handler for the rest.
+ */
+export type ErrorDetailsMatcher<TErrorDetails extends AbstractErrorResultDetails, TReturn> =
+  | ErrorDetailsHandlers<TErrorDetails, TReturn>
+  | ErrorDetailsHandlersWithFallback<TErrorDetails, TReturn>;
+
+/**
+ * The handlers for `result.match()`: an `ok` handler and the error details handlers (see `ErrorDetailsMatcher`).
+ */
+export type ResultMatcher<TOkValue, TErrorDetails extends AbstractErrorResultDetails, TReturn> =
+  { ok: (value: TOkValue) => TReturn } & ErrorDetailsMatcher<TErrorDetails, TReturn>;
+
+/**
+ * Options for timing out and cancelling the asynchronous functions of the Result Factory (e.g. `tryCatchDefaultAsync()`).
+ */
+export type AsyncResultFactoryOptions = {
+  /**
+   * The time (in milliseconds) after which the result is a `TimeoutErrorResult` (and the signal given to the function is aborted),
+   * between 0 and 2^31 - 1 (the maximum delay of `setTimeout()`), or `Infinity` for no timeout.
+   */
+  timeoutMs?: number | undefined;
+
+  /**
+   * The signal that, when aborted, makes the result a `CancelledErrorResult` (and aborts the signal given to the function).
+   */
+  signal?: AbortSignal | undefined;
+
+  /**
+   * The log properties (e.g. the context and correlation ID) of the `TimeoutErrorResult` or `CancelledErrorResult` of `tryCatchAsync()` and `wrapAsync()`
+   * (which do not log them). `tryCatchDefaultAsync()` and `wrapDefaultAsync()` use their own log properties instead.
+   */
+  logProperties?: StandardLogPropertiesCore | undefined;
+
+  /**
+   * The error code of the `TimeoutErrorResult` or `CancelledErrorResult`.
+   */
+  errorCode?: string | undefined;
+};
+
+/**
+ * The jitter to apply to a retry delay: 'none' (the full delay), 'full' (a random delay between 0 and the full delay),
+ * or 'equal' (half the delay plus a random delay between 0 and the other half).
+ */
+export type RetryJitter = 'none' | 'full' | 'equal';
+
+/**
+ * The backoff between retry attempts: a fixed delay, or an exponentially increasing delay (optionally with jitter).
+ */
+export type RetryBackoff =
+  | {
+    type: 'fixed';
+    delayMs: number;
+    jitter?: RetryJitter | undefined;
+  }
+  | {
+    type: 'exponential';
+    initialDelayMs: number;
+    /**
+     * The factor to multiply the delay by after each attempt (defaults to 2).
+     */
+    multiplier?: number | undefined;
+    maxDelayMs?: number | undefined;
+    jitter?: RetryJitter | undefined;
+  };
+
+/**
+ * The policy for `Result.retryAsync()`.
+ */
+export type RetryPolicy<TErrorDetails extends AbstractErrorResultDetails> = {
+  /**
+   * The log properties of the caller, used to log each attempt.
+   */
+  logProperties: StandardLogPropertiesCore;
+
+  /**
+   * The maximum number of attempts (including the first attempt), an integer of at least 1.
+   */
+  maxAttempts: number;
+
+  /**
+   * The backoff between attempts (defaults to no delay).
+   */
+  backoff?: RetryBackoff | undefined;
+
+  /**
+   * The total time (in milliseconds from the start of the first attempt) after which no further attempt is started.
+   * NOTE: An attempt that is in progress is not aborted.
+   */
+  deadlineMs?: number | undefined;
+
+  /**
+   * Decides whether the error result of an attempt should be retried (defaults to `RetryUtils.isTransientErrorDetails`).
+   */
+  shouldRetry?: ((errorDetails: TErrorDetails, attempt: number) => boolean) | undefined;
+};
+
 /**
  * Options for creating an `error result details`.
  */
@@ -100,6 +350,11 @@ export type ErrorResultDetailsConstructorOptions = StandardLogPropertiesCore & {
    * Human-readable description of the error.
    */
   errorMessage?: string | undefined;
+
+  /**
+   * The original error (or any other thrown value) that caused the error, e.g. the error caught by `Result.tryCatchDefault()`.
+   */
+  cause?: unknown;
 }
 
 /**
@@ -251,17 +506,39 @@ export interface ResultOperations<TOkValue, TErrorDetails extends AbstractErrorR
     onError: (error: TErrorDetails) => TErrorReturn,
   ): TNextOkValue | TErrorReturn;
 
+  /**
+   * Processes and unwraps a `Result` with the handler for the ok value or for the discriminant tag of the error details.
+   * A handler is required for every discriminant tag of the error details union unless a `_` fallback handler is given.
+   * If a handler throws an error, it is NOT caught, so it will be propagated.
+   * @example
+   * ```typescript
+   * const message = result.match({
+   *   ok: (user) => `Hello ${user.name}`,
+   *   UserError: (errorDetails) => errorDetails.errorMessage,
+   *   _: () => 'Sorry, something went wrong.',
+   * });
+   * ```
+   */
+  match<TReturn>(matcher: ResultMatcher<TOkValue, TErrorDetails, TReturn>): TReturn;
+
+  /**
+   * Processes and unwraps a `Result` with the (possibly asynchronous) handler for the ok value or for the discriminant tag of the error details.
+   * A handler is required for every discriminant tag of the error details union unless a `_` fallback handler is given.
+   * If a handler throws an error (or rejects), the returned promise rejects.
+   */
+  matchAsync<TReturn>(matcher: ResultMatcher<TOkValue, TErrorDetails, TReturn | PromiseLike<TReturn>>): Promise<TReturn>;
+
   /**
    * A functional style method to process and unwrap a `Result` using callbacks (as opposed to using if/else branches to check isOk).
    * @param logProperties The log properties to use for logging if the onOk callback throws an error. 
    * @param onOk The callback to call if the result is an ok result.
-   *             If the callback throws an error, it is caught, logged at the Error level using the given log properties, and a TechnicalErrorResult is returned.
+   *             If the callback throws an error, it is caught, logged using the given log properties, and returned as per `Result.classifiedError()` (a TechnicalErrorResult unless an error classifier recognises it).
    * @param onError The callback to call if the result is an error result.
    */
   foldCatchDefault<TNextOkValue, TErrorReturn>(
     logProperties: StandardLogPropertiesCore,
     onOk: (value: TOkValue) => TNextOkValue,
-    onError: (error: TErrorDetails) => TErrorReturn): TNextOkValue | ErrorResult<TechnicalErrorResultDetails> | TErrorReturn;
+    onError: (error: TErrorDetails) => TErrorReturn): TNextOkValue | ErrorResult<ClassifiedErrorResultDetails> | TErrorReturn;
 
   /**
    * A functional style method to process and unwrap a `Result` using callbacks (as opposed to using if/else branches to check isOk).
@@ -292,11 +569,11 @@ export interface ResultOperations<TOkValue, TErrorDetails extends AbstractErrorR
   /**
    * Map to transform the ok value of the result, leaving errors unchanged.
    * NOTE: In an ok result, the implementation always calls the given function.
-   *       If an error is thrown in the given function, it is caught, logged at the Error level using the given log properties, and a TechnicalErrorResult is returned.
+   *       If an error is thrown in the given function, it is caught, logged using the given log properties, and returned as per `Result.classifiedError()` (a TechnicalErrorResult unless an error classifier recognises it).
    * NOTE: In an error result, the implementation always retypes the Result to a different ok value type.
    */
-  mapCatchDefault<TNextOkValue>(logProperties: StandardLogPropertiesCore, onOk: (value: TOkValue) => TNextOkValue): Result<TNextOkValue, TErrorDetails | TechnicalErrorResultDetails>;
-  mapCatchDefault<TNextOkValue>(logProperties: StandardLogPropertiesCore, onOk: (value: TOkValue) => TNextOkValue): OkResult<TNextOkValue> | ErrorResult<TErrorDetails | TechnicalErrorResultDetails>;
+  mapCatchDefault<TNextOkValue>(logProperties: StandardLogPropertiesCore, onOk: (value: TOkValue) => TNextOkValue): Result<TNextOkValue, TErrorDetails | ClassifiedErrorResultDetails>;
+  mapCatchDefault<TNextOkValue>(logProperties: StandardLogPropertiesCore, onOk: (value: TOkValue) => TNextOkValue): OkResult<TNextOkValue> | ErrorResult<TErrorDetails | ClassifiedErrorResultDetails>;
 
   /**
    * Map to transform the ok value of the result, leaving errors unchanged.
@@ -339,13 +616,13 @@ export interface ResultOperations<TOkValue, TErrorDetails extends AbstractErrorR
   /**
    * A monadic bind / flatMap operator to sequence/chain operations that each return a Result.
    * NOTE: In an ok result, the implementation always calls the given function.
-   *       If an error is thrown in the given function, it is caught, logged at the Error level using the given log properties, and a TechnicalErrorResult is returned.
+   *       If an error is thrown in the given function, it is caught, logged using the given log properties, and returned as per `Result.classifiedError()` (a TechnicalErrorResult unless an error classifier recognises it).
    * NOTE: In an error result, the implementation always returns the current error details - the same as map(). 
    */
   andThenCatchDefault<TNextOkValue, TNextErrorDetails extends AbstractErrorResultDetails = AllErrorResultDetails>(
     logProperties: StandardLogPropertiesCore,
     onOk: (value: TOkValue) => Result<TNextOkValue, TNextErrorDetails>,
-  ): Result<TNextOkValue, TNextErrorDetails | TechnicalErrorResultDetails>;
+  ): Result<TNextOkValue, TNextErrorDetails | ClassifiedErrorResultDetails>;
 
   /**
    * A monadic bind / flatMap operator to sequence/chain operations that each return a Result.
@@ -376,12 +653,12 @@ export interface ResultOperations<TOkValue, TErrorDetails extends AbstractErrorR
    * This can be used to perform compensation actions when an error result is encountered.
    * NOTE: In an ok result, the implementation simply retypes the current ok result instance to a different error type - same as mapError().
    * NOTE: In an error result, the implementation always calls the given function.
-   *       If an error is thrown in the given function, it is caught, logged at the Error level using the given log properties, and a TechnicalErrorResult is returned.
+   *       If an error is thrown in the given function, it is caught, logged using the given log properties, and returned as per `Result.classifiedError()` (a TechnicalErrorResult unless an error classifier recognises it).
    */
   orElseCatchDefault<TNextOkValue, TNextErrorDetails extends AbstractErrorResultDetails = AllErrorResultDetails>(
     logProperties: StandardLogPropertiesCore,
     onError: (errorDetails: TErrorDetails) => Result<TNextOkValue, TNextErrorDetails>,
-  ): Result<TOkValue | TNextOkValue, TNextErrorDetails | TechnicalErrorResultDetails>;
+  ): Result<TOkValue | TNextOkValue, TNextErrorDetails | ClassifiedErrorResultDetails>;
 
   /**
    * A monadic bind / flatMap operator to sequence/chain operations that each return a Result.
@@ -0,0 +1,65 @@
+// Types
+import type { RetryBackoff } from './result.types';
+
+// Error Result Details
+import type { AbstractErrorResultDetails } from './error-result-details/abstract-error-result-details';
+import { ApiErrorResultDetails } from './error-result-details/api-error-result-details';
+import { TechnicalErrorResultDetails } from './error-result-details/technical-error-result-details';
+import { TimeoutErrorResultDetails } from './error-result-details/timeout-error-result-details';
+
+// Utilities
+import { HttpStatusCodeUtils } from '../apis/http-status-code.utilities';
+import { ObjectUtils } from '../objects/object.utilities';
+
+const defaultExponentialMultiplier = 2;
+
+/**
+ * Utility functions for retrying results.
+ */
+export abstract class RetryUtils {
+  /**
+   * @returns true if the given error details represent a (possibly) transient failure:
+   * a `TechnicalErrorResultDetails`, a `TimeoutErrorResultDetails`, or an `ApiErrorResultDetails` with a retryable status (see `HttpStatusCodeUtils.isRetryable`).
+   */
+  static isTransientErrorDetails(errorDetails: AbstractErrorResultDetails): boolean {
+    if (TechnicalErrorResultDetails.isInstance(errorDetails) || TimeoutErrorResultDetails.isInstance(errorDetails)) {
+      return true;
+    }
+
+    if (ApiErrorResultDetails.isInstance(errorDetails)) {
+      const status = errorDetails.errorResponse.status;
+      return !ObjectUtils.isNullOrUndefined(status) && HttpStatusCodeUtils.isRetryable(status);
+    }
+
+    return false;
+  }
+
+  /**
+   * @returns the delay (in milliseconds) before the given retry (1 for the first retry, i.e. the second attempt) as per the given backoff.
+   */
+  static calculateDelayMs(backoff: RetryBackoff | undefined, retryNumber: number): number {
+    if (ObjectUtils.isNullOrUndefined(backoff)) {
+      return 0;
+    }
+
+    let delayMs: number;
+    switch (backoff.type) {
+      case 'fixed':
+        delayMs = backoff.delayMs;
+        break;
+      case 'exponential':
+        delayMs = backoff.initialDelayMs * Math.pow(backoff.multiplier ?? defaultExponentialMultiplier, retryNumber - 1);
+        delayMs = Math.min(delayMs, backoff.maxDelayMs ?? Number.POSITIVE_INFINITY);
+        break;
+    }
+
+    switch (backoff.jitter ?? 'none') {
+      case 'full':
+        return Math.round(Math.random() * delayMs);
+      case 'equal':
+        return Math.round(delayMs / 2 + Math.random() * (delayMs / 2));
+      default:
+        return Math.round(delayMs);
+    }
+  }
+}
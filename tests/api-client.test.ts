@@ -0,0 +1,332 @@
+import assert from 'node:assert/strict';
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { describe, test, before, after, beforeEach, afterEach, mock, type Mock } from 'node:test';
+
+// Results
+import { ErrorResult } from '../src/results/error-result';
+import { OkResult } from '../src/results/ok-result';
+
+// Error Result Details
+import { ApiErrorResultDetails } from '../src/results/error-result-details/api-error-result-details';
+import { TechnicalErrorResultDetails } from '../src/results/error-result-details/technical-error-result-details';
+
+// Factories
+import { ResultFactory } from '../src/results/result.factory';
+
+// APIs
+import { createApiClient } from '../src/apis/api-client';
+import { ApiUtils } from '../src/apis/api.utilities';
+
+// Logging
+import { runWithContext } from '../src/logging/request-context';
+
+let errorSpy: Mock<(typeof console)['error']>;
+
+beforeEach(() => {
+  mock.method(console, 'debug', () => undefined);
+  errorSpy = mock.method(console, 'error', () => undefined);
+});
+
+afterEach(() => {
+  mock.restoreAll();
+});
+
+const logProperties = { context: ['Domain', 'App', 'Service', 'op'], correlationId: 'corr-1' };
+
+type ReceivedRequest = {
+  method: string | undefined;
+  url: string | undefined;
+  headers: IncomingMessage['headers'];
+  body: string;
+};
+
+let server: Server;
+let baseUrl: string;
+let lastRequest: ReceivedRequest | undefined;
+
+/**
+ * A stand-in API server whose routes exercise each kind of response.
+ */
+const handleRequest = (request: IncomingMessage, response: ServerResponse, body: string) => {
+  lastRequest = { method: request.method, url: request.url, headers: request.headers, body };
+  const path = request.url?.split('?')[0];
+
+  switch (path) {
+    case '/api/users/1':
+      response.writeHead(200, { 'content-type': 'application/json' }).end(JSON.stringify({ id: '1', name: 'Ann' }));
+      return;
+    case '/api/echo':
+      response.writeHead(201, { 'content-type': 'application/json; charset=utf-8' }).end(body);
+      return;
+    case '/api/empty':
+      response.writeHead(204).end();
+      return;
+    case '/api/text':
+      response.writeHead(200, { 'content-type': 'text/plain' }).end('pong');
+      return;
+    case '/api/invalid-json':
+      response.writeHead(200, { 'content-type': 'application/json' }).end('{ nope');
+      return;
+    case '/api/problem':
+      response.writeHead(422, { 'content-type': 'application/problem+json' }).end(JSON.stringify({
+        type: 'https://example.com/problems/invalid-user',
+        title: 'Invalid user',
+        detail: 'The name is required',
+        instance: '/api/problem#ABCD-1234',
+      }));
+      return;
+    case '/api/html-error':
+      response.writeHead(503, 'Service Unavailable', { 'content-type': 'text/html' }).end('<h1>Down for maintenance</h1>');
+      return;
+    case '/api/nest-error':
+      response.writeHead(400, { 'content-type': 'application/json' }).end(JSON.stringify({
+        statusCode: 400,
+        message: ['email must be an email', 'name should not be empty'],
+        error: 'Bad Request',
+      }));
+      return;
+    case '/api/slow':
+      setTimeout(() => response.writeHead(200).end(), 1000).unref();
+      return;
+    default:
+      response.writeHead(404, 'Not Found').end();
+  }
+};
+
+before(async () => {
+  server = createServer((request, response) => {
+    let body = '';
+    request.on('data', (chunk: Buffer) => body += chunk.toString());
+    request.on('end', () => handleRequest(request, response, body));
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/`;
+});
+
+after(async () => {
+  server.closeAllConnections();
+  await new Promise((resolve) => server.close(resolve));
+});
+
+describe('createApiClient', () => {
+  test('returns an ok result with the parsed JSON body and sends the correlation ID header', async () => {
+    const api = createApiClient({ baseUrl, headers: { authorization: 'Bearer token' } });
+    const r = await api.get<{ id: string, name: string }>('/users/1', { logProperties, query: { expand: true, skip: undefined } });
+
+    assert.ok(r instanceof OkResult);
+    assert.deepEqual(r.value, { id: '1', name: 'Ann' });
+    assert.equal(lastRequest?.url, '/api/users/1?expand=true');
+    assert.equal(lastRequest?.headers['x-correlation-id'], 'corr-1');
+    assert.equal(lastRequest?.headers['authorization'], 'Bearer token');
+  });
+
+  test('sends the body as JSON', async () => {
+    const api = createApiClient({ baseUrl, correlationIdHeaderName: 'x-request-id' });
+    const r = await api.post<{ name: string }>('echo', { logProperties, body: { name: 'Ann' } });
+
+    assert.ok(r instanceof OkResult);
+    assert.deepEqual(r.value, { name: 'Ann' });
+    assert.equal(lastRequest?.method, 'POST');
+    assert.equal(lastRequest?.headers['content-type'], 'application/json');
+    assert.equal(lastRequest?.headers['x-request-id'], 'corr-1');
+  });
+
+  test('merges the header names case-insensitively, and sends a body with a content type that is not JSON as-is', async () => {
+    const api = createApiClient({ baseUrl, headers: { Accept: 'text/plain' } });
+    await api.post('echo', { logProperties, headers: { 'Content-Type': 'text/plain', 'X-Correlation-Id': 'corr-other' }, body: 'ping' });
+
+    assert.equal(lastRequest?.headers['content-type'], 'text/plain');
+    assert.equal(lastRequest?.headers['accept'], 'text/plain');
+    assert.equal(lastRequest?.headers['x-correlation-id'], 'corr-1');
+    assert.equal(lastRequest?.body, 'ping');
+
+    await api.post('echo', { logProperties, headers: { 'Content-Type': 'application/merge-patch+json' }, body: 'ping' });
+    assert.equal(lastRequest?.headers['content-type'], 'application/merge-patch+json');
+    assert.equal(lastRequest?.body, '"ping"');
+  });
+
+  test('sends the correlation ID of the request context when the log properties have none', async () => {
+    const api = createApiClient({ baseUrl });
+    await runWithContext({ correlationId: 'corr-ambient' }, () => api.get('users/1', { logProperties: {} }));
+
+    assert.equal(lastRequest?.headers['x-correlation-id'], 'corr-ambient');
+  });
+
+  test('returns undefined for an empty body and the text of a non-JSON body', async () => {
+    const api = createApiClient({ baseUrl });
+
+    const r1 = await api.delete<undefined>('empty', { logProperties });
+    assert.ok(r1 instanceof OkResult);
+    assert.equal(r1.value, undefined);
+
+    const r2 = await api.get<string>('text', { logProperties });
+    assert.ok(r2 instanceof OkResult);
+    assert.equal(r2.value, 'pong');
+  });
+
+  test('returns an ApiErrorResult with the RFC 9457 problem details of the response (without logging 4xx responses)', async () => {
+    const api = createApiClient({ baseUrl });
+    const r = await api.put('problem', { logProperties, errorCode: 'UpdateUserFailed', body: {} });
+
+    assert.ok(r instanceof ErrorResult);
+    assert.ok(r.errorDetails instanceof ApiErrorResultDetails);
+    assert.deepEqual(r.errorDetails.errorResponse, {
+      type: 'https://example.com/problems/invalid-user',
+      title: 'Invalid user',
+      status: 422,
+      detail: 'The name is required',
+      instance: '/api/problem#ABCD-1234',
+    });
+    assert.equal(r.errorDetails.errorCode, 'UpdateUserFailed');
+    assert.equal(r.errorDetails.errorInstanceId, '/api/problem#ABCD-1234');
+    assert.equal(r.errorDetails.correlationId, 'corr-1');
+    assert.equal(errorSpy.mock.calls.length, 0);
+  });
+
+  test('synthesises problem details for a non-JSON failure (and logs 5xx responses)', async () => {
+    const api = createApiClient({ baseUrl });
+    const r = await api.get('html-error', { logProperties });
+
+    assert.ok(r.isApiError());
+    assert.deepEqual(r.errorDetails.errorResponse, {
+      type: 'about:blank',
+      title: 'Service Unavailable',
+      status: 503,
+      detail: '<h1>Down for maintenance</h1>',
+    });
+    assert.ok(errorSpy.mock.calls.length > 0);
+  });
+
+  test('normalizes NestJS error responses into problem details', async () => {
+    const api = createApiClient({ baseUrl });
+    const r = await api.post('nest-error', { logProperties, body: {} });
+
+    assert.ok(r.isApiError());
+    assert.deepEqual(r.errorDetails.errorResponse, {
+      type: 'about:blank',
+      title: 'Bad Request',
+      status: 400,
+      detail: 'email must be an email; name should not be empty',
+    });
+  });
+
+  test('returns a TechnicalErrorResult for a network failure or an invalid JSON body', async () => {
+    const unreachableApi = createApiClient({ baseUrl: 'http://127.0.0.1:1' });
+    const r1 = await unreachableApi.get('users/1', { logProperties, errorCode: 'LoadUserFailed' });
+    assert.ok(r1 instanceof ErrorResult);
+    assert.ok(r1.errorDetails instanceof TechnicalErrorResultDetails);
+    assert.equal(r1.errorDetails.errorCode, 'LoadUserFailed');
+
+    const api = createApiClient({ baseUrl });
+    const r2 = await api.get('invalid-json', { logProperties });
+    assert.ok(r2 instanceof ErrorResult);
+    assert.ok(r2.errorDetails instanceof TechnicalErrorResultDetails);
+  });
+
+  test('returns a TechnicalErrorResult (without sending the request) for a body that cannot be serialized', async () => {
+    const fetchFn = mock.fn(async (_input: string | URL | Request, _init?: RequestInit) => new Response(null, { status: 204 }));
+    const api = createApiClient({ baseUrl: 'https://api.example.com', fetch: fetchFn });
+    const circular: Record<string, unknown> = {};
+    circular['self'] = circular;
+
+    for (const body of [{ amount: 1n }, circular]) {
+      const r = await api.post('payments', { logProperties, body, errorCode: 'CreatePaymentFailed' });
+      assert.ok(r instanceof ErrorResult);
+      assert.ok(r.errorDetails instanceof TechnicalErrorResultDetails);
+      assert.equal(r.errorDetails.errorCode, 'CreatePaymentFailed');
+    }
+    assert.equal(fetchFn.mock.calls.length, 0);
+  });
+
+  test('returns a TimeoutErrorResult (with the context, correlation ID and error code of the request) when the request exceeds the timeout', async () => {
+    const api = createApiClient({ baseUrl, timeoutMs: 20 });
+    const r = await api.get('slow', { logProperties, errorCode: 'LoadFailed' });
+
+    assert.ok(r.isTimeoutError());
+    assert.equal(r.errorDetails.timeoutMs, 20);
+    assert.deepEqual(r.errorDetails.context, logProperties.context);
+    assert.equal(r.errorDetails.correlationId, 'corr-1');
+    assert.equal(r.errorDetails.errorCode, 'LoadFailed');
+  });
+
+  test('uses the given fetch implementation', async () => {
+    const fetchFn = mock.fn(async (_input: string | URL | Request, _init?: RequestInit) => new Response('{"ok":true}', { headers: { 'content-type': 'application/json' } }));
+    const api = createApiClient({ baseUrl: 'https://api.example.com', fetch: fetchFn });
+    const r = await api.get<{ ok: boolean }>('health', { logProperties: {} });
+
+    assert.ok(r instanceof OkResult);
+    assert.deepEqual(r.value, { ok: true });
+    assert.equal(fetchFn.mock.calls[0]?.arguments[0], 'https://api.example.com/health');
+  });
+});
+
+describe('ApiUtils - toProblemDetails', () => {
+  test('defaults the status of RFC 9457 bodies to the response status and keeps extension members', () => {
+    const problemDetails = ApiUtils.toProblemDetails(409, 'Conflict', JSON.stringify({ title: 'Duplicate', balance: 30 }));
+    assert.deepEqual(problemDetails, { title: 'Duplicate', balance: 30, status: 409 });
+  });
+
+  test('synthesises problem details for JSON bodies that are not problem details', () => {
+    const problemDetails = ApiUtils.toProblemDetails(400, '', JSON.stringify(['nope']));
+    assert.deepEqual(problemDetails, { type: 'about:blank', title: 'Bad Request', status: 400, detail: '["nope"]' });
+  });
+});
+
+describe('ApiUtils - normalizeApiErrorResponse', () => {
+  test('converts NestJS error responses', () => {
+    assert.deepEqual(ApiUtils.normalizeApiErrorResponse({ statusCode: 404, message: 'User 1 not found', error: 'Not Found' }), {
+      type: 'about:blank',
+      title: 'Not Found',
+      status: 404,
+      detail: 'User 1 not found',
+    });
+    assert.deepEqual(ApiUtils.normalizeApiErrorResponse({ statusCode: 500, message: 42 }), {
+      type: 'about:blank',
+      title: 'Internal Server Error',
+      status: 500,
+      detail: '42',
+    });
+  });
+
+  test('keeps the errors of ASP.NET validation problem details and formats them as the detail', () => {
+    const problemDetails = {
+      type: 'https://tools.ietf.org/html/rfc9110#section-15.5.1',
+      title: 'One or more validation errors occurred.',
+      status: 400,
+      errors: { email: ['Email is invalid'], name: ['Name is required', 'Name is too short'] },
+    };
+
+    assert.deepEqual(ApiUtils.normalizeApiErrorResponse(problemDetails), {
+      ...problemDetails,
+      detail: 'email: Email is invalid; name: Name is required; Name is too short',
+    });
+  });
+
+  test('uses RFC 9457 problem details as-is', () => {
+    const problemDetails = { title: 'Conflict', status: 409, detail: 'Already exists' };
+    assert.equal(ApiUtils.normalizeApiErrorResponse(problemDetails), problemDetails);
+  });
+
+  test('is used by Result.apiError and Result.apiErrorNoLog', () => {
+    const r1 = ResultFactory.apiError({ log: false }, { statusCode: 403, message: 'Forbidden resource', error: 'Forbidden' });
+    assert.equal(r1.errorDetails.errorResponse.status, 403);
+    assert.equal(r1.errorDetails.errorMessage, 'Forbidden');
+
+    const r2 = ResultFactory.apiErrorNoLog({}, { title: 'Invalid', errors: { '': ['The request body is empty'] } });
+    assert.equal(r2.errorDetails.errorResponse.detail, 'The request body is empty');
+  });
+});
+
+describe('ApiUtils - toStandardApiErrorResponse', () => {
+  test('normalizes bodies of a known shape and synthesises problem details for anything else', () => {
+    assert.deepEqual(ApiUtils.toStandardApiErrorResponse({ statusCode: 401, message: 'Unauthorized' }, 500), {
+      type: 'about:blank',
+      title: 'Unauthorized',
+      status: 401,
+      detail: 'Unauthorized',
+    });
+    assert.deepEqual(ApiUtils.toStandardApiErrorResponse({ title: 'Gone' }, 410), { title: 'Gone', status: 410 });
+    assert.deepEqual(ApiUtils.toStandardApiErrorResponse(undefined, 502, 'Bad Gateway'), { type: 'about:blank', title: 'Bad Gateway', status: 502 });
+  });
+});
@@ -0,0 +1,130 @@
+import assert from 'node:assert/strict';
+import { describe, test, beforeEach, afterEach, mock, type Mock } from 'node:test';
+
+// Types
+import type { Result } from '../src/results/result.types';
+import { AssertionErrorCodes } from '../src/errors/error.types';
+
+// Errors
+import { Assert } from '../src/errors/assert';
+import { AssertionFailedError } from '../src/errors/assertion-failed-error';
+
+// Error Result Details
+import { AssertionFailedErrorResultDetails } from '../src/results/error-result-details/assertion-failed-error-result-details';
+
+// Results
+import { ErrorResult } from '../src/results/error-result';
+import { OkResult } from '../src/results/ok-result';
+import { ResultAssert } from '../src/results/result-assert';
+
+// Factories
+import { ResultFactory } from '../src/results/result.factory';
+
+let errorSpy: Mock<(typeof console)['error']>;
+
+beforeEach(() => {
+  errorSpy = mock.method(console, 'error', () => undefined);
+});
+
+afterEach(() => {
+  mock.restoreAll();
+});
+
+const logProperties = { context: ['Domain', 'App', 'Service', 'op'], correlationId: 'corr-1' };
+
+class User {
+  constructor(readonly id: string) {}
+}
+
+describe('Assert', () => {
+  test('narrows the type of the value if the assertion passes', () => {
+    const maybeUser: User | undefined = new User('u-1');
+    Assert.defined(logProperties, maybeUser, 'user');
+    const user: User = maybeUser;
+
+    const input: unknown = 'admin';
+    Assert.oneOf(logProperties, input, ['admin', 'member'], 'role');
+    const role: 'admin' | 'member' = input;
+
+    const pageSize: unknown = 20;
+    Assert.inRange(logProperties, pageSize, 1, 100, 'pageSize');
+    const size: number = pageSize;
+
+    const value: unknown = user;
+    Assert.instanceOf(logProperties, value, User, 'value');
+    const instance: User = value;
+
+    Assert.nonEmptyString(logProperties, instance.id, 'id');
+    Assert.matches(logProperties, instance.id, /^u-\d+$/, 'id');
+
+    assert.deepEqual([role, size, instance.id], ['admin', 20, 'u-1']);
+    assert.equal(errorSpy.mock.calls.length, 0);
+  });
+
+  test('logs and throws an AssertionFailedError with the error code if the assertion fails', () => {
+    assert.throws(() => Assert.defined(logProperties, null, 'user'), (err: unknown) =>
+      AssertionFailedError.isInstance(err) && err.message.includes(`${AssertionErrorCodes.Defined}: user must be defined, but was null.`));
+    assert.throws(() => Assert.nonEmptyString(logProperties, '  ', 'name'), /ASSERT_NON_EMPTY_STRING: name must be a non-empty string, but was an empty string/);
+    assert.throws(() => Assert.inRange(logProperties, 101, 1, 100, 'pageSize'), /ASSERT_IN_RANGE: pageSize must be a number between 1 and 100, but was 101/);
+    assert.throws(() => Assert.inRange(logProperties, Number.NaN, 1, 100, 'pageSize'), AssertionFailedError);
+    assert.throws(() => Assert.oneOf(logProperties, 'owner', ['admin', 'member'], 'role'), /ASSERT_ONE_OF: role must be one of: admin, member, but was a string/);
+    assert.throws(() => Assert.matches(logProperties, 'x-1', /^u-\d+$/, 'id'), /ASSERT_MATCHES: id must match/);
+    assert.throws(() => Assert.instanceOf(logProperties, new Date(), User, 'user'), /ASSERT_INSTANCE_OF: user must be an instance of User, but was an instance of Date/);
+
+    assert.equal(errorSpy.mock.calls.length, 7);
+  });
+
+  test('carries the error code on the AssertionFailedError, which the catch helpers keep on the AssertionFailedErrorResult', () => {
+    assert.throws(() => Assert.oneOf(logProperties, 'owner', ['admin', 'member'], 'role'), (err: unknown) =>
+      AssertionFailedError.isInstance(err) && err.errorCode === AssertionErrorCodes.OneOf);
+
+    const r = ResultFactory.tryCatchDefault(logProperties, () => Assert.nonEmptyString(logProperties, '', 'name'));
+    assert.ok(r instanceof ErrorResult);
+    assert.ok(r.errorDetails instanceof AssertionFailedErrorResultDetails);
+    assert.equal(r.errorDetails.errorCode, AssertionErrorCodes.NonEmptyString);
+    assert.equal(r.errorDetails.errorCode, ResultAssert.nonEmptyString({ ...logProperties, log: false }, '', 'name').errorDetails?.errorCode);
+  });
+
+  test('does not include the value in the error message', () => {
+    assert.throws(() => Assert.matches(logProperties, 'secret-value', /^u-\d+$/, 'id'), (err: unknown) =>
+      AssertionFailedError.isInstance(err) && !err.message.includes('secret-value'));
+  });
+
+  test('resets the last index of a global pattern', () => {
+    const pattern = /^u-\d+$/g;
+    Assert.matches(logProperties, 'u-1', pattern, 'id');
+    Assert.matches(logProperties, 'u-2', pattern, 'id');
+  });
+});
+
+describe('ResultAssert', () => {
+  test('returns an ok result with the narrowed value if the assertion passes', () => {
+    const maybeName: string | null = 'Ada';
+    const r: Result<string, AssertionFailedErrorResultDetails> = ResultAssert.defined(logProperties, maybeName, 'name');
+    const role: Result<'admin' | 'member', AssertionFailedErrorResultDetails> = ResultAssert.oneOf(logProperties, 'member', ['admin', 'member'], 'role');
+
+    assert.ok(r instanceof OkResult);
+    assert.equal(r.value, 'Ada');
+    assert.ok(role instanceof OkResult);
+    assert.ok(ResultAssert.inRange(logProperties, 1, 1, 100, 'pageSize').isOk);
+    assert.ok(ResultAssert.nonEmptyString(logProperties, 'Ada', 'name').isOk);
+    assert.ok(ResultAssert.matches(logProperties, 'u-1', /^u-\d+$/, 'id').isOk);
+    assert.ok(ResultAssert.instanceOf(logProperties, new User('u-1'), User, 'user').isOk);
+    assert.equal(errorSpy.mock.calls.length, 0);
+  });
+
+  test('returns an AssertionFailedErrorResult with the error code if the assertion fails (and logs unless options.log is false)', () => {
+    const r = ResultAssert.inRange(logProperties, 0, 1, 100, 'pageSize');
+
+    assert.ok(r instanceof ErrorResult);
+    assert.ok(r.errorDetails instanceof AssertionFailedErrorResultDetails);
+    assert.equal(r.errorDetails.errorCode, AssertionErrorCodes.InRange);
+    assert.equal(r.errorDetails.errorMessage, 'pageSize must be a number between 1 and 100, but was 0.');
+    assert.equal(errorSpy.mock.calls.length, 1);
+
+    const unlogged = ResultAssert.defined({ ...logProperties, log: false }, undefined, 'user');
+    assert.ok(unlogged.isError);
+    assert.equal(unlogged.errorDetails.errorCode, AssertionErrorCodes.Defined);
+    assert.equal(errorSpy.mock.calls.length, 1);
+  });
+});
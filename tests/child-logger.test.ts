@@ -0,0 +1,85 @@
+import assert from 'node:assert/strict';
+import { describe, test, beforeEach, afterEach } from 'node:test';
+
+// Results
+import { Result } from '../src/results/result.types';
+
+// Logging
+import { ChildLogger } from '../src/logging/child-logger';
+import { LOG } from '../src/logging/logging.utilities';
+import { LogPropertiesUtils } from '../src/logging/log-properties.utilities';
+import { MemoryLogger } from '../src/logging/memory-logger';
+
+const classContext = ['MyDomain', 'MyApp', 'MyService'];
+
+describe('ChildLogger', () => {
+  test('merges the bound log properties into every entry', () => {
+    const memoryLogger = new MemoryLogger();
+    const log = new ChildLogger(memoryLogger, { context: classContext, correlationId: 'corr-1', tenantId: 't-1' });
+
+    log.start('loadUser', 'Loading');
+    const callProperties = { context: ['loadUser'], correlationId: undefined, userId: 'u-1' };
+    log.technicalError(callProperties, 'boom');
+
+    assert.deepEqual(memoryLogger.entries.map(({ context }) => context), [
+      { context: [...classContext, 'loadUser'], correlationId: 'corr-1', tenantId: 't-1' },
+      { context: [...classContext, 'loadUser'], correlationId: 'corr-1', tenantId: 't-1', userId: 'u-1' },
+    ]);
+  });
+
+  test('creates nested child loggers and extendable log properties', () => {
+    const memoryLogger = new MemoryLogger();
+    const log = new ChildLogger(memoryLogger, { context: classContext }).child({ context: ['loadUser'], correlationId: 'corr-2' });
+    log.info({});
+
+    const logProperties = log.logProperties.extend('fetch', { attempt: 2 });
+    assert.deepEqual(memoryLogger.entries[0]?.context, { context: [...classContext, 'loadUser'], correlationId: 'corr-2' });
+    assert.deepEqual({ ...logProperties }, { context: [...classContext, 'loadUser', 'fetch'], correlationId: 'corr-2', attempt: 2 });
+    assert.deepEqual(logProperties.extend('parse').context, [...classContext, 'loadUser', 'fetch', 'parse']);
+  });
+});
+
+describe('LOG.child', () => {
+  const originalLogger = LOG.logger;
+  const originalConfiguration = LOG.configuration;
+  let memoryLogger: MemoryLogger;
+
+  beforeEach(() => {
+    memoryLogger = new MemoryLogger();
+    LOG.setLogger(memoryLogger);
+  });
+
+  afterEach(() => {
+    LOG.setLogger(originalLogger);
+    LOG.configure(originalConfiguration);
+  });
+
+  test('forwards to the current logger, filtered by the current levels', () => {
+    const log = LOG.child({ context: classContext, correlationId: 'corr-1' });
+    LOG.setLevel('info');
+    log.debug('loadUser', 'dropped');
+    LOG.setLevel('debug', 'MyDomain.MyApp');
+    log.debug('loadUser', 'kept');
+
+    assert.deepEqual(memoryLogger.entries.map(({ message }) => message), ['kept']);
+  });
+
+  test('provides log properties for the ResultFactory', () => {
+    const log = LOG.child({ context: classContext, correlationId: 'corr-1' });
+    const r = Result.technicalError(log.logProperties.extend('loadUser'), 'LoadUserFailed', new Error('boom'));
+
+    assert.equal(r.errorDetails.correlationId, 'corr-1');
+    assert.deepEqual(memoryLogger.find({ method: 'technicalError' })?.context, {
+      context: ['ResultFactory - TechnicalErrorResult', ...classContext, 'loadUser'],
+      correlationId: 'corr-1',
+    });
+  });
+});
+
+describe('LogPropertiesUtils', () => {
+  test('creates log properties whose extend() helper is not copied when spread', () => {
+    const logProperties = LogPropertiesUtils.create({ context: classContext });
+    assert.deepEqual(Object.keys(logProperties), ['context']);
+    assert.equal(JSON.stringify(logProperties.extend('op')), '{"context":["MyDomain","MyApp","MyService","op"]}');
+  });
+});
@@ -0,0 +1,111 @@
+import assert from 'node:assert/strict';
+import { describe, test, afterEach } from 'node:test';
+
+// Types
+import type { JsonLogEntry } from '../src/logging/logging.types';
+
+// Results
+import { Result } from '../src/results/result.types';
+
+// Logging
+import { ConfigurableLogger } from '../src/logging/configurable-logger';
+import { JsonLogger } from '../src/logging/json-logger';
+import { LOG } from '../src/logging/logging.utilities';
+import { LogLevelUtils } from '../src/logging/log-level.utilities';
+
+/**
+ * @returns a JsonLogger that writes to an array of lines, and a function that returns the prefix and context of each written entry.
+ */
+const createJsonLogger = () => {
+  const lines: string[] = [];
+  const logger = new JsonLogger({ output: { write: (line: string) => lines.push(line) } });
+  const entries = () => lines.map((line) => JSON.parse(line) as JsonLogEntry).map(({ prefix, context }) => `${prefix} ${context}`);
+  return { logger, entries };
+};
+
+describe('ConfigurableLogger', () => {
+  test('forwards the entries at or above the global minimum level', () => {
+    const { logger, entries } = createJsonLogger();
+    const configurableLogger = new ConfigurableLogger(logger, { level: 'warn' });
+
+    configurableLogger.debug('ctx');
+    configurableLogger.start('ctx');
+    configurableLogger.warn('ctx');
+    configurableLogger.technicalError('ctx', 'boom');
+
+    assert.deepEqual(entries(), ['WARN ctx', 'TECHNICAL_ERROR ctx']);
+  });
+
+  test('applies the level of the longest matching context prefix', () => {
+    const { logger, entries } = createJsonLogger();
+    const configurableLogger = new ConfigurableLogger(logger, {
+      level: 'info',
+      contexts: { 'MyDomain.MyApp': 'debug', 'MyDomain.MyApp.Noisy': 'error', 'Other': 'silent' },
+    });
+
+    configurableLogger.debug({ context: ['MyDomain', 'MyApp', 'MyService'] });
+    configurableLogger.debug({ context: ['MyDomain', 'MyApplication'] });
+    configurableLogger.debug({ context: ['Upstream', 'MyDomain', 'MyApp'] });
+    configurableLogger.debug({ context: ['ResultFactory - TechnicalErrorResult', 'MyDomain', 'MyApp', 'op'] });
+    configurableLogger.warn('MyDomain.MyApp.Noisy.op');
+    configurableLogger.error({ context: ['Other', 'op'] });
+    configurableLogger.error({ context: ['MyDomain', 'Other', 'op'] });
+    configurableLogger.info({});
+
+    assert.deepEqual(entries(), [
+      'DEBUG MyDomain.MyApp.MyService',
+      'DEBUG ResultFactory - TechnicalErrorResult.MyDomain.MyApp.op',
+      'ERROR MyDomain.Other.op',
+      'INFO UNKNOWN CONTEXT',
+    ]);
+  });
+
+  test('can change the levels and the logger it forwards to at runtime', () => {
+    const first = createJsonLogger();
+    const second = createJsonLogger();
+    const configurableLogger = new ConfigurableLogger(first.logger, { level: 'silent' });
+
+    configurableLogger.info('ctx', 'dropped');
+    configurableLogger.setLevel('info');
+    configurableLogger.info('ctx', 'first');
+    configurableLogger.setLogger(second.logger);
+    configurableLogger.setLevel('debug', 'Verbose');
+    configurableLogger.debug('Verbose.op');
+    configurableLogger.debug('ctx');
+
+    assert.deepEqual(first.entries(), ['INFO ctx']);
+    assert.deepEqual(second.entries(), ['DEBUG Verbose.op']);
+    assert.deepEqual(configurableLogger.configuration, { level: 'info', contexts: { Verbose: 'debug' } });
+  });
+});
+
+describe('LOG', () => {
+  const originalLogger = LOG.logger;
+  const originalConfiguration = LOG.configuration;
+
+  afterEach(() => {
+    LOG.setLogger(originalLogger);
+    LOG.configure(originalConfiguration);
+  });
+
+  test('filters the entries of the ResultFactory by the context prefix of the caller', () => {
+    const { logger, entries } = createJsonLogger();
+    LOG.setLogger(logger);
+    LOG.configure({ level: 'info', contexts: { 'MyDomain.MyApp': 'debug' } });
+
+    Result.shortCircuitedError({ context: ['MyDomain', 'Other'] }, 'Skipped', 'Not needed');
+    Result.shortCircuitedError({ context: ['MyDomain', 'MyApp', 'op'] }, 'Skipped', 'Not needed');
+
+    assert.deepEqual(entries(), ['DEBUG ResultFactory - ShortCircuitedErrorResult.MyDomain.MyApp.op']);
+  });
+});
+
+describe('LogLevelUtils', () => {
+  test('reads the configuration from the environment variables', () => {
+    assert.deepEqual(LogLevelUtils.fromEnvironment({ LOG_LEVEL: ' WARN ', LOG_CONTEXT_LEVELS: 'MyDomain.MyApp=debug, Noisy = error,=info,Bad=verbose' }), {
+      level: 'warn',
+      contexts: { 'MyDomain.MyApp': 'debug', Noisy: 'error' },
+    });
+    assert.deepEqual(LogLevelUtils.fromEnvironment({ LOG_LEVEL: 'verbose' }), { level: 'debug', contexts: {} });
+  });
+});
@@ -0,0 +1,121 @@
+import assert from 'node:assert/strict';
+import { describe, test, afterEach } from 'node:test';
+
+// Types
+import type { ErrorInstanceIdFormat } from '../src/errors/error.types';
+
+// Errors
+import { AssertionFailedError } from '../src/errors/assertion-failed-error';
+
+// Utilities
+import { ErrorInstanceIdUtils } from '../src/errors/error-instance-id.utilities';
+import { ErrorUtils } from '../src/errors/error.utilities';
+
+afterEach(() => {
+  ErrorInstanceIdUtils.configure({});
+});
+
+describe('ErrorInstanceIdUtils - create', () => {
+  test('creates random identifiers with a check character by default', () => {
+    const ids = Array.from({ length: 50 }, () => ErrorUtils.createErrorInstanceId());
+
+    ids.forEach((id) => {
+      assert.match(id, /^[0-9A-HJKMNP-TV-Z]{4}-[0-9A-HJKMNP-TV-Z]{4}-[0-9A-HJKMNP-TV-Z]$/);
+      assert.equal(ErrorInstanceIdUtils.isValid(id), true);
+    });
+    assert.equal(new Set(ids).size, ids.length);
+  });
+
+  test('creates ULIDs with a sortable timestamp', () => {
+    ErrorInstanceIdUtils.configure({ format: ErrorInstanceIdUtils.formats.ulid, checksum: false });
+    const before = Date.now();
+    const id = ErrorInstanceIdUtils.create();
+
+    assert.match(id, /^[0-7][0-9A-HJKMNP-TV-Z]{25}$/);
+    const parsed = ErrorInstanceIdUtils.parse(id);
+    assert.equal(parsed?.format, 'ulid');
+    assert.ok(parsed.timestamp && parsed.timestamp.getTime() >= before && parsed.timestamp.getTime() <= Date.now());
+  });
+
+  test('creates version 7 UUIDs with a sortable timestamp', () => {
+    ErrorInstanceIdUtils.configure({ format: ErrorInstanceIdUtils.formats.uuidv7 });
+    const before = Date.now();
+    const id = ErrorInstanceIdUtils.create();
+
+    assert.match(id, /^[0-9a-f]{8}-[0-9a-f]{4}-7[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}-[0-9A-Z]$/);
+    const parsed = ErrorInstanceIdUtils.parse(id);
+    assert.equal(parsed?.format, 'uuidv7');
+    assert.ok(parsed.timestamp && parsed.timestamp.getTime() >= before && parsed.timestamp.getTime() <= Date.now());
+    assert.equal(ErrorInstanceIdUtils.isValid(id), true);
+  });
+
+  test('prefixes the identifiers', () => {
+    ErrorInstanceIdUtils.configure({ prefix: 'PRD-' });
+    const id = ErrorInstanceIdUtils.create();
+
+    assert.ok(id.startsWith('PRD-'));
+    assert.equal(ErrorInstanceIdUtils.parse(id)?.prefix, 'PRD-');
+    assert.equal(ErrorInstanceIdUtils.isValid(id), true);
+  });
+
+  test('supports custom formats', () => {
+    const orderFormat: ErrorInstanceIdFormat = { name: 'order', generate: () => 'ORDER-1234', pattern: /ORDER-\d{4}/ };
+    ErrorInstanceIdUtils.configure({ format: orderFormat });
+    const id = ErrorInstanceIdUtils.create();
+
+    assert.match(id, /^ORDER-1234-[0-9A-Z]$/);
+    assert.deepEqual(ErrorInstanceIdUtils.parse(id.toLowerCase()), { prefix: '', format: 'order', body: 'order-1234', checksum: id.slice(-1), timestamp: undefined });
+    assert.equal(ErrorInstanceIdUtils.isValid(id), true);
+  });
+
+  test('throws on configuration if the checksum cannot be calculated for a custom format, or it does not match its pattern', () => {
+    const invalidFormat: ErrorInstanceIdFormat = { name: 'invalid', generate: () => 'ABC_123', pattern: /ABC_\d{3}/ };
+    assert.throws(() => ErrorInstanceIdUtils.configure({ format: invalidFormat }), AssertionFailedError);
+    assert.equal(ErrorInstanceIdUtils.options.format, ErrorInstanceIdUtils.formats.random);
+    ErrorInstanceIdUtils.configure({ format: invalidFormat, checksum: false });
+    assert.equal(ErrorInstanceIdUtils.create(), 'ABC_123');
+
+    assert.throws(() => ErrorInstanceIdUtils.configure({ format: { name: 'mismatched', generate: () => 'ORDER-12', pattern: /ORDER-\d{4}/ } }), AssertionFailedError);
+  });
+});
+
+describe('ErrorInstanceIdUtils - parse / isValid', () => {
+  test('detects mistyped characters and swapped adjacent characters', () => {
+    ErrorInstanceIdUtils.configure({ format: { name: 'fixed', generate: () => '7GQ2-XM4D', pattern: /[0-9A-Z]{4}-[0-9A-Z]{4}/i } });
+    const id = ErrorInstanceIdUtils.create();
+
+    assert.equal(ErrorInstanceIdUtils.isValid(id), true);
+    assert.equal(ErrorInstanceIdUtils.isValid(id.replace('7GQ2', '7GQ3')), false);
+    assert.equal(ErrorInstanceIdUtils.isValid(id.replace('7GQ2', 'G7Q2')), false);
+    assert.equal(ErrorInstanceIdUtils.isValid(id.replace('XM4D', 'XMD4')), false);
+  });
+
+  test('accepts lower case and the letters that are read as digits (I, L and O)', () => {
+    ErrorInstanceIdUtils.configure({ format: { name: 'fixed', generate: () => '10A0-1B01', pattern: /[0-9A-Z]{4}-[0-9A-Z]{4}/i } });
+    const id = ErrorInstanceIdUtils.create();
+
+    assert.equal(ErrorInstanceIdUtils.isValid(id.toLowerCase()), true);
+    assert.equal(ErrorInstanceIdUtils.isValid(id.replace('10A0', 'IOAO').replace('1B01', 'lB0L')), true);
+  });
+
+  test('does not accept U, which is not a Crockford base32 character', () => {
+    const id = ErrorInstanceIdUtils.create();
+    const idWithU = `U${id.slice(1)}`;
+
+    assert.equal(ErrorInstanceIdUtils.parse(idWithU), undefined);
+    assert.equal(ErrorInstanceIdUtils.isValid(idWithU), false);
+    assert.equal(ErrorInstanceIdUtils.parse('01JAB3C4D5E6F7G8H9JKMNPQRU'), undefined);
+  });
+
+  test('requires the check character unless the checksum is disabled', () => {
+    assert.equal(ErrorInstanceIdUtils.isValid('7GQ2-XM4D'), false);
+
+    ErrorInstanceIdUtils.configure({ checksum: false });
+    assert.equal(ErrorInstanceIdUtils.isValid('7GQ2-XM4D'), true);
+  });
+
+  test('does not parse identifiers in an unknown format', () => {
+    assert.equal(ErrorInstanceIdUtils.parse('not an id'), undefined);
+    assert.equal(ErrorInstanceIdUtils.isValid(''), false);
+  });
+});
@@ -0,0 +1,113 @@
+import assert from 'node:assert/strict';
+import { describe, test, mock } from 'node:test';
+
+// Results
+import { Result } from '../src/results/result.types';
+
+// Utilities
+import { ErrorSerializationUtils } from '../src/errors/error-serialization.utilities';
+import { ErrorUtils } from '../src/errors/error.utilities';
+
+describe('ErrorSerializationUtils', () => {
+  test('serialises errors with their custom properties, cause chains and aggregated errors', () => {
+    const rootCause = Object.assign(new TypeError('socket closed'), { code: 'ECONNRESET' });
+    const cause = new Error('connection failed', { cause: rootCause });
+    const error = new AggregateError([new RangeError('out of range'), 'not an error'], 'Loading failed', { cause });
+
+    const serialised = ErrorSerializationUtils.serializeError(error);
+    const serialisedCause = serialised.cause as Record<string, unknown>;
+    const serialisedRootCause = serialisedCause.cause as Record<string, unknown>;
+
+    assert.equal(serialised.name, 'AggregateError');
+    assert.equal(serialised.message, 'Loading failed');
+    assert.equal(typeof serialised.stack, 'string');
+    assert.equal(serialisedCause.message, 'connection failed');
+    assert.equal(serialisedRootCause.name, 'TypeError');
+    assert.equal(serialisedRootCause.code, 'ECONNRESET');
+    assert.equal((serialised.errors?.[0] as Record<string, unknown>).name, 'RangeError');
+    assert.equal(serialised.errors?.[1], 'not an error');
+  });
+
+  test('serialises circular references, bigints, maps, sets, dates and functions', () => {
+    const circularError = new Error('circular') as Error & { self?: unknown };
+    circularError.self = circularError;
+    const value = {
+      id: 10n,
+      map: new Map<unknown, unknown>([['a', 1], [2, new Set(['x'])]]),
+      at: new Date('2026-01-02T03:04:05.678Z'),
+      callback: function onDone() { return undefined; },
+      error: circularError,
+    };
+
+    const serialised = ErrorSerializationUtils.serialize(value) as Record<string, unknown>;
+    assert.equal(serialised.id, '10');
+    assert.deepEqual(serialised.map, [['a', 1], [2, ['x']]]);
+    assert.equal(serialised.at, '2026-01-02T03:04:05.678Z');
+    assert.equal(serialised.callback, '[Function onDone]');
+    assert.equal((serialised.error as Record<string, unknown>).self, '[Circular]');
+  });
+
+  test('limits the depth and number of items', () => {
+    const value = { items: [1, 2, 3, 4], nested: { deeper: { deepest: true } }, a: 1, b: 2 };
+
+    assert.deepEqual(ErrorSerializationUtils.serialize(value, { maxDepth: 2, maxItems: 3 }), {
+      items: [1, 2, 3, '[1 more items]'],
+      nested: { deeper: '[MaxDepth]' },
+      a: 1,
+      '...': '[1 more properties]',
+    });
+  });
+
+  test('replaces properties whose getter throws and values whose toJSON() throws, and detects toJSON() returning the object itself', () => {
+    const value = {
+      get detail(): string { throw new Error('getter boom'); },
+      report: { toJSON: () => { throw new Error('toJSON boom'); } },
+      self: { toJSON() { return this; } },
+      ok: true,
+    };
+
+    assert.deepEqual(ErrorSerializationUtils.serialize(value), {
+      detail: '[Unreadable: getter boom]',
+      report: '[Unreadable: toJSON boom]',
+      self: '[Circular]',
+      ok: true,
+    });
+  });
+});
+
+describe('ErrorUtils.toErrorString - serialisation', () => {
+  test('keeps the detail of errors and of objects with circular references', () => {
+    const error = Object.assign(new Error('Loading failed', { cause: new Error('timeout') }), { status: 504 });
+    const parsed = JSON.parse(ErrorUtils.toErrorString(error)) as Record<string, unknown>;
+    assert.equal(parsed.status, 504);
+    assert.equal((parsed.cause as Record<string, unknown>).message, 'timeout');
+
+    const circular: Record<string, unknown> = { name: 'circular', total: 5n };
+    circular.self = circular;
+    assert.equal(ErrorUtils.toErrorString(circular), '{"name":"circular","total":"5","self":"[Circular]"}');
+  });
+
+  test('falls back to the string of a value that cannot be serialised', () => {
+    const unlistable = new Proxy({}, { ownKeys: () => { throw new Error('ownKeys boom'); } });
+    assert.equal(ErrorUtils.toErrorString(unlistable), '[object Object]');
+
+    const unconvertible = new Proxy(Object.create(null) as object, { ownKeys: () => { throw new Error('ownKeys boom'); } });
+    assert.equal(ErrorUtils.toErrorString(unconvertible), '[Unserializable object]');
+  });
+
+  test('lets the catch helpers return an error result for a thrown object whose getter throws', () => {
+    mock.method(console, 'error', () => undefined);
+    try {
+      const r = Result.tryCatchDefault({ context: ['op'] }, () => { throw { get detail(): string { throw new Error('getter boom'); } }; });
+      assert.ok(r.isError);
+      assert.ok(r.errorDetails.errorMessage.includes('[Unreadable: getter boom]'));
+    } finally {
+      mock.restoreAll();
+    }
+  });
+
+  test('is used for the error messages of the ResultFactory', () => {
+    const r = Result.technicalError({ log: false }, 'LoadFailed', Object.assign(new Error('boom'), { retryable: true }));
+    assert.ok(r.errorDetails.errorMessage.includes('"retryable":true'));
+  });
+});
@@ -5,6 +5,7 @@ import type { StandardLogProperties } from "../src/logging/logging.types";
 
 // Utilities
 import { ApiErrorResultDetails } from "../src/results/error-result-details/api-error-result-details";
+import type { UserErrorResultDetails } from "../src/results/error-result-details/user-error-result-details";
 import { LOG } from "../src/logging/logging.utilities";
 import { ErrorResult } from '../src/results/error-result';
 
@@ -132,6 +133,14 @@ class MyService {
     // return someResult.toVoidResult()
   }
 
+  toStatusCode(result: Result<{ name: string }, ApiErrorResultDetails | UserErrorResultDetails>): number {
+    return result.match({
+      ok: () => 200,
+      ApiError: (errorDetails) => errorDetails.errorResponse.status ?? 500,
+      UserError: () => 400,
+    });
+  }
+
   toMessage(result: Result<{ name: string }>) {
     if (result.isError) {
       return `failed: ${String(result.errorDetails.errorMessage)}`;
@@ -147,6 +156,13 @@ class MyService {
     return Result.ok(n);
   }
 
+  validateSignUp(form: { email: string, name: string }): Result<{ email: string, name: string }> {
+    return Result.validate(form)
+      .field('email', (email) => email.includes('@') ? undefined : 'Email is invalid')
+      .field('name', (name) => name ? undefined : 'Name is required')
+      .toResult({ context: ["validateSignUp"] }, "InvalidSignUp");
+  }
+
   compute(input: string): Result<number> {
     return Result.ok(input)
       .mapNoCatch((s) => Number.parseInt(s, 10))
@@ -169,6 +185,25 @@ class MyService {
     });
   }
 
+  async loadUserName(id: string): AsyncResult<string> {
+    const logProperties: StandardLogProperties = { context: [...contextPrefix, this.loadUserName.name] };
+
+    return Result.tryCatchDefaultAsync(logProperties, () => Promise.resolve({ id, name: ` ${id} ` }))
+      .mapNoCatch((user) => user.name)
+      .andThenCatchDefaultAsync(logProperties, async (name) => Result.ok(name.trim()))
+      .orElseNoCatch(() => Result.ok("anonymous"));
+  }
+
+  async loadUserSummary(id: string): AsyncResult<{ id: string, name: string }> {
+    const logProperties: StandardLogProperties = { context: [...contextPrefix, this.loadUserSummary.name] };
+
+    return Result.genAsync(logProperties, async function* () {
+      const user = yield* await Promise.resolve(Result.ok({ id }));
+      const name = yield* Result.tryCatchDefaultAsync(logProperties, () => Promise.resolve('Ann'));
+      return { id: user.id, name };
+    });
+  }
+
   async tryCatchExample() {
     const logProperties: StandardLogProperties = { context: [...contextPrefix, this.tryCatchExample.name], correlationId: "corr-1" };
 
@@ -231,6 +266,9 @@ class MyService {
     const r1 = apiR5 as Result<number>;
 
     switch (r1.errorDetails?.discriminantTag) {
+      case ErrorResultDetailsDiscriminantTags.AggregateError:
+        const childErrorDetails = r1.errorDetails.childErrorDetails;
+        break;
       case ErrorResultDetailsDiscriminantTags.ApiError:
         const instanceId = r1.errorDetails.errorResponse.instance;
         break;
@@ -246,6 +284,15 @@ class MyService {
       case ErrorResultDetailsDiscriminantTags.ShortCircuitedError:
         const errorMessage4 = r1.errorDetails.errorMessage;
         break;
+      case ErrorResultDetailsDiscriminantTags.ValidationError:
+        const emailErrors = r1.errorDetails.getFieldErrors('email');
+        break;
+      case ErrorResultDetailsDiscriminantTags.TimeoutError:
+        const timeoutMs = r1.errorDetails.timeoutMs;
+        break;
+      case ErrorResultDetailsDiscriminantTags.CancelledError:
+        const errorMessage5 = r1.errorDetails.errorMessage;
+        break;
       default:
         break;
     }
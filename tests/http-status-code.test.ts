@@ -0,0 +1,46 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+
+// Types
+import { HttpStatusCode } from '../src/apis/http.ietf.types';
+
+// Utilities
+import { HttpStatusCodeUtils } from '../src/apis/http-status-code.utilities';
+
+describe('HttpStatusCodeUtils', () => {
+  test('getReasonPhrase returns the reason phrase of known status codes', () => {
+    assert.equal(HttpStatusCodeUtils.getReasonPhrase(HttpStatusCode.TooManyRequests429), 'Too Many Requests');
+    assert.equal(HttpStatusCodeUtils.getReasonPhrase(412), 'Precondition Failed');
+    assert.equal(HttpStatusCodeUtils.getReasonPhrase(599), undefined);
+  });
+
+  test('isKnownStatusCode returns true for the status codes of the registry', () => {
+    assert.equal(HttpStatusCodeUtils.isKnownStatusCode(HttpStatusCode.BadGateway502), true);
+    assert.equal(HttpStatusCodeUtils.isKnownStatusCode(299), false);
+  });
+
+  test('classifies status codes by class', () => {
+    const classify = (status: number) => [
+      HttpStatusCodeUtils.isInformational(status),
+      HttpStatusCodeUtils.isSuccess(status),
+      HttpStatusCodeUtils.isRedirection(status),
+      HttpStatusCodeUtils.isClientError(status),
+      HttpStatusCodeUtils.isServerError(status),
+      HttpStatusCodeUtils.isError(status),
+    ];
+
+    assert.deepEqual(classify(HttpStatusCode.EarlyHints103), [true, false, false, false, false, false]);
+    assert.deepEqual(classify(HttpStatusCode.NoContent204), [false, true, false, false, false, false]);
+    assert.deepEqual(classify(HttpStatusCode.PermanentRedirect308), [false, false, true, false, false, false]);
+    assert.deepEqual(classify(HttpStatusCode.RequestTimeout408), [false, false, false, true, false, true]);
+    assert.deepEqual(classify(HttpStatusCode.NetworkAuthenticationRequired511), [false, false, false, false, true, true]);
+  });
+
+  test('isRetryable returns true for (possibly) transient failures only', () => {
+    const retryable = [408, 425, 429, 500, 502, 503, 504];
+    const notRetryable = [200, 400, 404, 409, 422, 501, 505];
+
+    assert.deepEqual(retryable.map((status) => HttpStatusCodeUtils.isRetryable(status)), retryable.map(() => true));
+    assert.deepEqual(notRetryable.map((status) => HttpStatusCodeUtils.isRetryable(status)), notRetryable.map(() => false));
+  });
+});
@@ -0,0 +1,89 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+
+// Types
+import type { JsonLogEntry } from '../src/logging/logging.types';
+
+// Logging
+import { JsonLogger } from '../src/logging/json-logger';
+
+const now = () => new Date('2026-01-02T03:04:05.678Z');
+
+/**
+ * @returns a JsonLogger that writes to an array of lines, and a function that parses the written entries.
+ */
+const createLogger = () => {
+  const lines: string[] = [];
+  const logger = new JsonLogger({ output: { write: (line: string) => lines.push(line) }, now });
+  const entries = () => lines.map((line) => JSON.parse(line) as JsonLogEntry);
+  return { logger, lines, entries };
+};
+
+const logProperties = { context: ['MyDomain', 'MyApp', 'MyService', 'op'], correlationId: 'corr-1', errorInstanceId: 'ABCD-1234', userId: 'u-1' };
+
+describe('JsonLogger', () => {
+  test('writes one JSON object per line with the timestamp, level, prefix, dotted context and log properties', () => {
+    const { logger, lines, entries } = createLogger();
+    logger.start(logProperties, 'Loading');
+
+    assert.equal(lines.length, 1);
+    assert.ok(lines[0]?.endsWith('}\n'));
+    assert.deepEqual(entries()[0], {
+      userId: 'u-1',
+      timestamp: '2026-01-02T03:04:05.678Z',
+      level: 'info',
+      prefix: 'START',
+      context: 'MyDomain.MyApp.MyService.op',
+      correlationId: 'corr-1',
+      errorInstanceId: 'ABCD-1234',
+      message: 'Loading',
+    });
+  });
+
+  test('maps each method to its level and prefix', () => {
+    const { logger, entries } = createLogger();
+    logger.debug('ctx');
+    logger.end('ctx');
+    logger.warn('ctx');
+    logger.technicalError('ctx', 'boom');
+    logger.assertionFailed('ctx', 'nope');
+    logger.apiError('ctx', { title: 'Bad Request', status: 400 });
+
+    assert.deepEqual(entries().map(({ level, prefix }) => [level, prefix]), [
+      ['debug', 'DEBUG'],
+      ['info', 'END'],
+      ['warn', 'WARN'],
+      ['error', 'TECHNICAL_ERROR'],
+      ['error', 'ASSERTION_FAILED'],
+      ['error', 'API_ERROR'],
+    ]);
+    assert.deepEqual(entries()[5]?.data, { title: 'Bad Request', status: 400 });
+  });
+
+  test('serialises errors including their causes', () => {
+    const { logger, entries } = createLogger();
+    const cause = Object.assign(new Error('connection refused'), { code: 'ECONNREFUSED' });
+    logger.error(logProperties, new Error('Loading failed', { cause }), 'ErrorCode: LoadFailed');
+
+    const entry = entries()[0];
+    const error = entry?.error as Record<string, unknown>;
+    const serialisedCause = error.cause as Record<string, unknown>;
+    assert.equal(entry?.message, 'Loading failed');
+    assert.equal(error.name, 'Error');
+    assert.equal(error.message, 'Loading failed');
+    assert.equal(typeof error.stack, 'string');
+    assert.equal(serialisedCause.message, 'connection refused');
+    assert.equal(serialisedCause.code, 'ECONNREFUSED');
+    assert.deepEqual(entry?.params, ['ErrorCode: LoadFailed']);
+  });
+
+  test('writes values that cannot be stringified as-is', () => {
+    const { logger, entries } = createLogger();
+    const circular: Record<string, unknown> = { name: 'circular' };
+    circular.self = circular;
+    logger.info('ctx', circular, 10n);
+
+    assert.deepEqual(entries()[0]?.data, { name: 'circular', self: '[Circular]' });
+    assert.deepEqual(entries()[0]?.params, ['10']);
+  });
+});
@@ -0,0 +1,102 @@
+import assert from 'node:assert/strict';
+import { describe, test, beforeEach, afterEach, mock } from 'node:test';
+
+// Results
+import { Result } from '../src/results/result.types';
+
+// Logging
+import { CompositeLogger } from '../src/logging/composite-logger';
+import { LOG } from '../src/logging/logging.utilities';
+import { MemoryLogger } from '../src/logging/memory-logger';
+
+const logProperties = { context: ['MyDomain', 'MyApp', 'MyService', 'op'], correlationId: 'corr-1' };
+
+describe('MemoryLogger', () => {
+  test('records the method, level, context, message and params of each entry', () => {
+    const logger = new MemoryLogger();
+    logger.start(logProperties, 'Loading', 'extra');
+    logger.logRaw('raw', 1);
+
+    assert.deepEqual(logger.entries, [
+      { method: 'start', level: 'info', context: logProperties, message: 'Loading', params: ['extra'] },
+      { method: 'logRaw', level: 'info', context: undefined, message: undefined, params: ['raw', 1] },
+    ]);
+  });
+
+  test('queries the entries by method, level, context prefix and message', () => {
+    const logger = new MemoryLogger();
+    logger.debug('Other.op', 'Skipped');
+    logger.warn(logProperties, 'Retrying');
+    logger.technicalError(logProperties, new Error('Loading failed'));
+
+    assert.equal(logger.count(), 3);
+    assert.equal(logger.count({ level: 'error' }), 1);
+    assert.equal(logger.find({ context: 'MyDomain.MyApp.MyService' })?.method, 'warn');
+    assert.equal(logger.find({ context: 'MyApp.MyService' }), undefined);
+    assert.equal(logger.filter({ context: 'MyDomain', message: /fail/ })[0]?.method, 'technicalError');
+    assert.ok(logger.has({ method: 'debug', context: 'Other', message: 'Skip' }));
+    assert.ok(!logger.has({ method: 'debug', context: 'MyDomain' }));
+
+    logger.clear();
+    assert.equal(logger.entries.length, 0);
+  });
+});
+
+describe('CompositeLogger', () => {
+  test('forwards each entry to every sink at or above its minimum levels', () => {
+    const everything = new MemoryLogger();
+    const warnings = new MemoryLogger();
+    const appDebug = new MemoryLogger();
+    const logger = new CompositeLogger([
+      { logger: everything },
+      { logger: warnings, levels: 'warn' },
+      { logger: appDebug, levels: { level: 'silent', contexts: { 'MyDomain.MyApp': 'debug' } } },
+    ]);
+
+    logger.debug(logProperties, 'Loaded');
+    logger.info('Other.op', 'Started');
+    logger.assertionFailed('Other.op', 'Invariant');
+
+    assert.deepEqual(everything.entries.map(({ method }) => method), ['debug', 'info', 'assertionFailed']);
+    assert.deepEqual(warnings.entries.map(({ method }) => method), ['assertionFailed']);
+    assert.deepEqual(appDebug.entries.map(({ method }) => method), ['debug']);
+  });
+
+  test('forwards each entry to the other sinks when a sink throws, without throwing into the caller', () => {
+    const errorSpy = mock.method(console, 'error', () => undefined);
+    const throwing = new MemoryLogger();
+    mock.method(throwing, 'error', () => { throw new Error('stream closed'); });
+    const remaining = new MemoryLogger();
+    const logger = new CompositeLogger([{ logger: throwing }, { logger: remaining }]);
+
+    assert.doesNotThrow(() => logger.error(logProperties, 'Failed'));
+
+    assert.deepEqual(remaining.entries.map(({ method }) => method), ['error']);
+    assert.equal(errorSpy.mock.calls.length, 1);
+    mock.restoreAll();
+  });
+});
+
+describe('LOG - with a MemoryLogger', () => {
+  const originalLogger = LOG.logger;
+  let memoryLogger: MemoryLogger;
+
+  beforeEach(() => {
+    memoryLogger = new MemoryLogger();
+    LOG.setLogger(memoryLogger);
+  });
+
+  afterEach(() => {
+    LOG.setLogger(originalLogger);
+  });
+
+  test('records that Result.apiError logs unless log is false', () => {
+    Result.apiError({ ...logProperties, errorCode: 'LoadFailed' }, { title: 'Bad Gateway', status: 502 });
+    Result.apiError({ ...logProperties, log: false }, { title: 'Bad Gateway', status: 502 });
+
+    assert.equal(memoryLogger.count({ method: 'apiError' }), 1);
+    const entry = memoryLogger.find({ method: 'apiError', context: 'MyDomain.MyApp' });
+    assert.deepEqual(entry?.message, { title: 'Bad Gateway', status: 502 });
+    assert.deepEqual(entry?.params, ['ErrorCode: LoadFailed']);
+  });
+});
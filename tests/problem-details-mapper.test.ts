@@ -0,0 +1,120 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+
+// Types
+import { HttpStatusCode } from '../src/apis/http.ietf.types';
+
+// Results
+import { ErrorResult } from '../src/results/error-result';
+
+// Error Result Details
+import { ShortCircuitedErrorResultDetails } from '../src/results/error-result-details/short-circuited-error-result-details';
+
+// Factories
+import { ResultFactory } from '../src/results/result.factory';
+
+// APIs
+import { createProblemDetailsMapper } from '../src/apis/problem-details-mapper';
+
+const options = { context: ['Domain', 'App', 'Service', 'op'], log: false };
+
+describe('createProblemDetailsMapper', () => {
+  const toProblemDetails = createProblemDetailsMapper();
+
+  test('maps a user error to 400 with the error message as the detail and the error instance ID as the instance', () => {
+    const r = ResultFactory.userError({ ...options, errorInstanceId: 'ABCD-1234' }, 'NameRequired', 'Please enter a name');
+
+    assert.deepEqual(toProblemDetails(r), {
+      status: 400,
+      body: { type: 'about:blank', title: 'Bad Request', status: 400, detail: 'Please enter a name', instance: 'ABCD-1234' },
+    });
+  });
+
+  test('maps a validation error to 422 with the field errors', () => {
+    const r = ResultFactory.validationError({ ...options, errorInstanceId: 'ABCD-1234' }, 'InvalidSignUp', { email: ['Email is invalid'] });
+    const { status, body } = toProblemDetails(r);
+
+    assert.equal(status, 422);
+    assert.deepEqual(body, {
+      type: 'about:blank',
+      title: 'Unprocessable Content',
+      status: 422,
+      detail: 'One or more validation errors occurred.',
+      instance: 'ABCD-1234',
+      errors: { email: ['Email is invalid'] },
+    });
+  });
+
+  test('maps technical and assertion failed errors to 500 without exposing the error message', () => {
+    for (const r of [
+      ResultFactory.technicalError(options, 'DbFailed', 'connection refused'),
+      ResultFactory.assertionFailedError(options, 'Invalid', 'id is undefined'),
+    ]) {
+      const { status, body } = toProblemDetails(r);
+      assert.equal(status, 500);
+      assert.equal(body.title, 'Internal Server Error');
+      assert.equal(body.detail, undefined);
+      assert.equal(body.instance, r.errorDetails.errorInstanceId);
+    }
+  });
+
+  test('maps timeout and cancelled errors to 504 and 503', () => {
+    assert.equal(toProblemDetails(ResultFactory.timeoutError(options, undefined, 100)).status, 504);
+    assert.equal(toProblemDetails(ResultFactory.cancelledError(options, undefined)).status, 503);
+  });
+
+  test('passes API errors through', () => {
+    const errorResponse = { type: 'https://example.com/problems/not-found', title: 'User not found', status: HttpStatusCode.NotFound404, instance: '/users/1' };
+    const r = ResultFactory.apiError(options, errorResponse);
+
+    assert.deepEqual(toProblemDetails(r), { status: 404, body: errorResponse });
+  });
+
+  test('derives the status of aggregate errors from their children', () => {
+    const userError = ResultFactory.userError(options, 'UE', 'nope').errorDetails;
+    const validationError = ResultFactory.validationError(options, 'VE', { name: ['Name is required'] }).errorDetails;
+    const technicalError = ResultFactory.technicalError(options, 'TE', 'boom').errorDetails;
+
+    assert.equal(toProblemDetails(ResultFactory.aggregateError(options, 'AE', [userError, userError])).status, 400);
+    assert.equal(toProblemDetails(ResultFactory.aggregateError(options, 'AE', [userError, validationError])).status, 400);
+    assert.equal(toProblemDetails(ResultFactory.aggregateError(options, 'AE', [userError, technicalError])).status, 500);
+  });
+
+  test('accepts error details', () => {
+    const errorDetails = new ShortCircuitedErrorResultDetails({ errorMessage: 'Already processed' });
+    assert.equal(toProblemDetails(errorDetails).status, 400);
+    assert.equal(toProblemDetails(new ErrorResult(errorDetails)).body.detail, 'Already processed');
+  });
+});
+
+describe('createProblemDetailsMapper - options', () => {
+  test('uses the status codes of the given discriminant tags', () => {
+    const toProblemDetails = createProblemDetailsMapper({
+      statusCodes: { ShortCircuitedError: HttpStatusCode.Conflict409, UserError: HttpStatusCode.Unprocessable422 },
+    });
+
+    assert.equal(toProblemDetails(ResultFactory.shortCircuitedError(options, 'SC', 'Already processed')).status, 409);
+    assert.equal(toProblemDetails(ResultFactory.userError(options, 'UE', 'nope')).body.title, 'Unprocessable Content');
+  });
+
+  test('uses the type, title and status overrides of the error code', () => {
+    const toProblemDetails = createProblemDetailsMapper({
+      defaultType: 'https://example.com/problems/generic',
+      errorCodes: {
+        InsufficientFunds: { type: 'https://example.com/problems/insufficient-funds', title: 'Insufficient funds', status: HttpStatusCode.Conflict409 },
+        UpstreamFailed: { type: 'https://example.com/problems/upstream' },
+      },
+    });
+
+    const r1 = toProblemDetails(ResultFactory.userError(options, 'InsufficientFunds', 'Your balance is 30'));
+    assert.equal(r1.status, 409);
+    assert.equal(r1.body.type, 'https://example.com/problems/insufficient-funds');
+    assert.equal(r1.body.title, 'Insufficient funds');
+
+    const r2 = toProblemDetails(ResultFactory.apiError({ ...options, errorCode: 'UpstreamFailed' }, { title: 'Bad Gateway', status: HttpStatusCode.ServiceUnavailable503 }));
+    assert.deepEqual(r2, { status: 503, body: { type: 'https://example.com/problems/upstream', title: 'Bad Gateway', status: 503 } });
+
+    const r3 = toProblemDetails(ResultFactory.userError(options, 'toString', 'nope'));
+    assert.equal(r3.body.type, 'https://example.com/problems/generic');
+  });
+});
@@ -0,0 +1,127 @@
+import assert from 'node:assert/strict';
+import { describe, test, afterEach, mock } from 'node:test';
+
+// Types
+import type { JsonLogEntry } from '../src/logging/logging.types';
+
+// Results
+import { Result } from '../src/results/result.types';
+
+// Logging
+import { ConsoleLogger } from '../src/logging/console-logger';
+import { JsonLogger } from '../src/logging/json-logger';
+import { RedactionUtils } from '../src/logging/redaction.utilities';
+
+// Utilities
+import { ErrorUtils } from '../src/errors/error.utilities';
+
+afterEach(() => {
+  RedactionUtils.configure({});
+  mock.restoreAll();
+});
+
+describe('RedactionUtils', () => {
+  test('redacts the values of sensitive keys and sensitive parts of strings', () => {
+    const redacted = RedactionUtils.redact({
+      user: { email: 'ann@example.com', password: 'hunter2' },
+      headers: { Authorization: 'Bearer abc.def', accept: 'application/json' },
+      note: 'Called with Bearer abc123 by bob@example.org',
+      accessToken: undefined,
+    });
+
+    assert.deepEqual(redacted, {
+      user: { email: '[REDACTED]', password: '[REDACTED]' },
+      headers: { Authorization: '[REDACTED]', accept: 'application/json' },
+      note: 'Called with [REDACTED] by [REDACTED]',
+      accessToken: undefined,
+    });
+  });
+
+  test('replaces circular references and values deeper than the maximum depth, and truncates long strings', () => {
+    RedactionUtils.configure({ maxDepth: 2, maxStringLength: 5 });
+    const circular: Record<string, unknown> = { level1: { level2: { level3: true } }, text: 'abcdefgh' };
+    circular.self = circular;
+
+    assert.deepEqual(RedactionUtils.redact(circular), { level1: { level2: '[MaxDepth]' }, text: 'abcde...', self: '[Circular]' });
+  });
+
+  test('redacts long strings within a time budget', () => {
+    RedactionUtils.configure({ maxStringLength: 1_000_000 });
+    const startTime = performance.now();
+    const redacted = RedactionUtils.redactString(`${'a'.repeat(100_000)} ann@example.com ${'b.'.repeat(50_000)}`);
+
+    assert.ok(performance.now() - startTime < 500);
+    assert.ok(redacted.includes(' [REDACTED] '));
+
+    RedactionUtils.configure({});
+    const truncated = RedactionUtils.redactString('a'.repeat(1_000_000));
+    assert.equal(truncated.length, RedactionUtils.defaultOptions.maxStringLength + 3);
+  });
+
+  test('converts errors into objects (including their causes)', () => {
+    const error = new Error('Login failed for ann@example.com', { cause: { secret: 's3cr3t' } });
+    const redacted = RedactionUtils.redact(error) as Record<string, unknown>;
+
+    assert.equal(redacted.name, 'Error');
+    assert.equal(redacted.message, 'Login failed for [REDACTED]');
+    assert.deepEqual(redacted.cause, { secret: '[REDACTED]' });
+  });
+
+  test('can be configured with custom patterns and replacement', () => {
+    RedactionUtils.configure({ keyPatterns: [/iban/i], valuePatterns: [/\d{4}-\d{4}/], replacement: '***' });
+
+    assert.deepEqual(RedactionUtils.redact({ iban: 'NL00BANK0123456789', password: 'kept', card: '1234-5678 and 8765-4321' }), {
+      iban: '***',
+      password: 'kept',
+      card: '*** and ***',
+    });
+  });
+});
+
+describe('Redaction - consumers', () => {
+  test('ErrorUtils.toErrorString and the error messages of the ResultFactory are redacted', () => {
+    assert.equal(ErrorUtils.toErrorString({ token: 'abc', id: 1 }), '{"token":"[REDACTED]","id":1}');
+    assert.ok(!ErrorUtils.toErrorString(new Error('Bearer abc123')).includes('abc123'));
+
+    const r = Result.technicalError({ log: false }, 'LoginFailed', 'Login failed', { password: 'hunter2' });
+    assert.equal(r.errorDetails.errorMessage, 'Login failed - [{"password":"[REDACTED]"}]');
+  });
+
+  test('the JsonLogger redacts the log properties, message and params', () => {
+    const lines: string[] = [];
+    const logger = new JsonLogger({ output: { write: (line: string) => lines.push(line) } });
+    const logProperties = { context: ['ctx'], apiKey: 'k-1' };
+    logger.info(logProperties, 'Signed in ann@example.com', { cookie: 'c=1' });
+
+    const entry = JSON.parse(lines[0] ?? '') as JsonLogEntry;
+    assert.equal(entry.apiKey, '[REDACTED]');
+    assert.equal(entry.message, 'Signed in [REDACTED]');
+    assert.deepEqual(entry.params, [{ cookie: '[REDACTED]' }]);
+  });
+
+  test('the ConsoleLogger redacts the message and params', () => {
+    const infoSpy = mock.method(console, 'info', () => undefined);
+    new ConsoleLogger().info('ctx', 'Signed in ann@example.com', { password: 'hunter2' });
+
+    const [formatted, param] = infoSpy.mock.calls[0]?.arguments ?? [];
+    assert.ok(String(formatted).endsWith('INFO: ctx - Signed in [REDACTED]'));
+    assert.deepEqual(param, { password: '[REDACTED]' });
+  });
+
+  test('the ConsoleLogger logs params with a throwing getter, a throwing toJSON() or a Map without throwing', () => {
+    const errorSpy = mock.method(console, 'error', () => undefined);
+    const params = [
+      { get detail(): string { throw new Error('getter boom'); } },
+      { toJSON: () => { throw new Error('toJSON boom'); } },
+      new Map([['token', 'abc'], ['user', 'ann@example.com']]),
+    ];
+
+    new ConsoleLogger().error('ctx', 'Failed', ...params);
+
+    assert.deepEqual(errorSpy.mock.calls[0]?.arguments.slice(1), [
+      { detail: '[Unreadable: getter boom]' },
+      '[Unreadable: toJSON boom]',
+      [['token', 'abc'], ['user', '[REDACTED]']],
+    ]);
+  });
+});
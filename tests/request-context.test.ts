@@ -0,0 +1,77 @@
+import assert from 'node:assert/strict';
+import { describe, test, beforeEach, afterEach } from 'node:test';
+
+// Results
+import { Result } from '../src/results/result.types';
+
+// Error Result Details
+import { UserErrorResultDetails } from '../src/results/error-result-details/user-error-result-details';
+
+// Logging
+import { LOG } from '../src/logging/logging.utilities';
+import { MemoryLogger } from '../src/logging/memory-logger';
+import { getRequestContext, runWithContext } from '../src/logging/request-context';
+
+const requestContext = { correlationId: 'corr-1', context: ['MyDomain', 'MyApp', 'handleRequest'] };
+
+const originalLogger = LOG.logger;
+let memoryLogger: MemoryLogger;
+
+beforeEach(() => {
+  memoryLogger = new MemoryLogger();
+  LOG.setLogger(memoryLogger);
+});
+
+afterEach(() => {
+  LOG.setLogger(originalLogger);
+});
+
+describe('runWithContext', () => {
+  test('makes the request context available across asynchronous calls', async () => {
+    assert.equal(getRequestContext(), undefined);
+
+    const correlationId = await runWithContext(requestContext, async () => {
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      return getRequestContext()?.correlationId;
+    });
+
+    assert.equal(correlationId, 'corr-1');
+    assert.equal(getRequestContext(), undefined);
+  });
+
+  test('merges a nested request context with the outer request context', () => {
+    const nested = runWithContext(requestContext, () => runWithContext({ context: ['job'] }, () => getRequestContext()));
+    assert.deepEqual(nested, { correlationId: 'corr-1', context: ['job'] });
+  });
+});
+
+describe('runWithContext - consumers', () => {
+  test('LOG uses the correlation ID and context of the request context when they are omitted', () => {
+    runWithContext(requestContext, () => {
+      LOG.info({}, 'Omitted');
+      LOG.info('MyService.op', 'String context');
+      LOG.info({ context: ['Other'], correlationId: 'corr-2' }, 'Given');
+    });
+
+    assert.deepEqual(memoryLogger.entries.map(({ context }) => context), [
+      { context: requestContext.context, correlationId: 'corr-1' },
+      { context: ['MyService', 'op'], correlationId: 'corr-1' },
+      { context: ['Other'], correlationId: 'corr-2' },
+    ]);
+  });
+
+  test('the ResultFactory and the error result details use the request context when it is omitted', () => {
+    const r = runWithContext(requestContext, () => Result.technicalError({}, 'LoadFailed', 'boom'));
+
+    assert.equal(r.errorDetails.correlationId, 'corr-1');
+    assert.deepEqual(r.errorDetails.context, requestContext.context);
+    assert.deepEqual(memoryLogger.find({ method: 'technicalError' })?.context, {
+      context: ['ResultFactory - TechnicalErrorResult', ...requestContext.context],
+      correlationId: 'corr-1',
+    });
+
+    const errorDetails = runWithContext(requestContext, () => new UserErrorResultDetails({ correlationId: 'corr-2' }));
+    assert.equal(errorDetails.correlationId, 'corr-2');
+    assert.deepEqual(errorDetails.context, requestContext.context);
+  });
+});
@@ -0,0 +1,143 @@
+import assert from 'node:assert/strict';
+import { describe, test, beforeEach, afterEach, mock, type Mock } from 'node:test';
+
+// Results
+import { AsyncResultChain } from '../src/results/async-result-chain';
+import { ErrorResult } from '../src/results/error-result';
+import { OkResult } from '../src/results/ok-result';
+
+// Error Result Details
+import { TechnicalErrorResultDetails } from '../src/results/error-result-details/technical-error-result-details';
+import { UserErrorResultDetails } from '../src/results/error-result-details/user-error-result-details';
+
+// Factories
+import { ResultFactory } from '../src/results/result.factory';
+
+let errorSpy: Mock<(typeof console)['error']>;
+
+beforeEach(() => {
+  mock.method(console, 'debug', () => undefined);
+  errorSpy = mock.method(console, 'error', () => undefined);
+});
+
+afterEach(() => {
+  mock.restoreAll();
+});
+
+const context = ['Domain', 'App', 'Service', 'op'];
+
+const userError = () => ResultFactory.userError({ context, log: false }, 'UE', 'nope');
+
+describe('AsyncResultChain', () => {
+  test('is awaitable and resolves to the underlying result', async () => {
+    const chain = ResultFactory.chain(Promise.resolve(ResultFactory.ok(42)));
+    assert.ok(chain instanceof AsyncResultChain);
+    assert.equal(typeof chain.then, 'function');
+
+    const r = await chain;
+    assert.ok(r instanceof OkResult);
+    assert.equal(r.value, 42);
+  });
+
+  test('from returns the same chain instance when given a chain', () => {
+    const chain = ResultFactory.chain(ResultFactory.ok(1));
+    assert.equal(AsyncResultChain.from(chain), chain);
+  });
+
+  test('chains sync operations on ok results', async () => {
+    const r = await ResultFactory.chain(Promise.resolve(ResultFactory.ok('20')))
+      .mapNoCatch((s) => Number.parseInt(s, 10))
+      .andThenNoCatch((n) => ResultFactory.ok(n + 1))
+      .mapCatchDefault({ context }, (n) => n * 2);
+
+    assert.ok(r instanceof OkResult);
+    assert.equal(r.value, 42);
+  });
+
+  test('short-circuits on error results and does not call subsequent ok callbacks', async () => {
+    const fn = mock.fn((n: number) => n + 1);
+    const r = await ResultFactory.chain<number, UserErrorResultDetails>(Promise.resolve(userError()))
+      .mapNoCatch(fn)
+      .andThenNoCatchAsync(async (n) => ResultFactory.ok(n));
+
+    assert.equal(fn.mock.calls.length, 0);
+    assert.ok(r instanceof ErrorResult);
+    assert.ok(r.errorDetails instanceof UserErrorResultDetails);
+  });
+
+  test('async variants await the callbacks', async () => {
+    const r = await ResultFactory.chain(ResultFactory.ok(1))
+      .mapNoCatchAsync(async (n) => n + 1)
+      .andThenCatchDefaultAsync({ context }, async (n) => ResultFactory.ok(n * 10));
+
+    assert.ok(r instanceof OkResult);
+    assert.equal(r.value, 20);
+  });
+
+  test('CatchDefault variants convert a rejected callback into a TechnicalErrorResult', async () => {
+    const r = await ResultFactory.chain(ResultFactory.ok(1))
+      .andThenCatchDefaultAsync({ context }, async () => {
+        throw new Error('boom');
+      });
+
+    assert.ok(r instanceof ErrorResult);
+    assert.ok(r.errorDetails instanceof TechnicalErrorResultDetails);
+    assert.ok(errorSpy.mock.calls.length > 0);
+  });
+
+  test('Catch variants use the given error result factory', async () => {
+    const r = await ResultFactory.chain(ResultFactory.ok(1))
+      .mapCatchAsync(
+        async () => {
+          throw new Error('boom');
+        },
+        () => userError(),
+      );
+
+    assert.ok(r instanceof ErrorResult);
+    assert.ok(r.errorDetails instanceof UserErrorResultDetails);
+  });
+
+  test('NoCatch variants reject the chain when the callback throws', async () => {
+    const chain = ResultFactory.chain(ResultFactory.ok(1))
+      .mapNoCatchAsync(async () => {
+        throw new Error('boom');
+      });
+
+    await assert.rejects(chain, /boom/);
+  });
+
+  test('orElse variants recover from error results', async () => {
+    const r1 = await ResultFactory.chain(userError()).orElseNoCatch(() => ResultFactory.ok(0));
+    assert.ok(r1 instanceof OkResult);
+    assert.equal(r1.value, 0);
+
+    const r2 = await ResultFactory.chain(userError()).orElseNoCatchAsync(async () => ResultFactory.ok(1));
+    assert.ok(r2 instanceof OkResult);
+    assert.equal(r2.value, 1);
+  });
+
+  test('unwrapping methods return promises of the unwrapped values', async () => {
+    assert.equal(await ResultFactory.chain(ResultFactory.ok(1)).valueOrNull(), 1);
+    assert.equal(await ResultFactory.chain(userError()).valueOrDefault(5), 5);
+    assert.deepEqual(await ResultFactory.chain(ResultFactory.ok(1)).toTuple(), [1, undefined]);
+    assert.equal(await ResultFactory.chain(userError()).foldNoCatch(() => 'ok', (e) => e.errorCode), 'UE');
+    await assert.rejects(ResultFactory.chain(userError()).valueOrThrow(() => new Error('nope')), /nope/);
+  });
+
+  test('tryCatchDefaultAsync returns a chain', async () => {
+    const r = await ResultFactory.tryCatchDefaultAsync({ context }, async () => 41)
+      .mapNoCatch((n) => n + 1);
+
+    assert.ok(r instanceof OkResult);
+    assert.equal(r.value, 42);
+  });
+
+  test('wrapAsync returns a function that returns a chain', async () => {
+    const wrapped = ResultFactory.wrapAsync(async (n: number) => n + 1, () => userError());
+    const r = await wrapped(1).mapNoCatch((n) => n * 21);
+
+    assert.ok(r instanceof OkResult);
+    assert.equal(r.value, 42);
+  });
+});
@@ -0,0 +1,80 @@
+import assert from 'node:assert/strict';
+import { describe, test, beforeEach, afterEach, mock } from 'node:test';
+
+// Results
+import { ErrorResult } from '../src/results/error-result';
+
+// Error Result Details
+import { TechnicalErrorResultDetails } from '../src/results/error-result-details/technical-error-result-details';
+import { UserErrorResultDetails } from '../src/results/error-result-details/user-error-result-details';
+
+// Errors
+import { ErrorResultError } from '../src/errors/error-result-error';
+
+// Factories
+import { ResultFactory } from '../src/results/result.factory';
+
+beforeEach(() => {
+  mock.method(console, 'error', () => undefined);
+});
+
+afterEach(() => {
+  mock.restoreAll();
+});
+
+class DatabaseError extends Error {
+  readonly code = 'ECONNREFUSED';
+}
+
+describe('Error result details - cause', () => {
+  test('keeps the caught error as the cause', () => {
+    const thrown = new DatabaseError('connection refused');
+    const r = ResultFactory.tryCatchDefault({ context: ['loadUser'] }, () => { throw thrown; });
+
+    assert.ok(r instanceof ErrorResult);
+    assert.ok(r.errorDetails instanceof TechnicalErrorResultDetails);
+    assert.equal(r.errorDetails.cause, thrown);
+    assert.ok(r.errorDetails.formatErrorResult().endsWith(' - Cause: Error: connection refused'));
+  });
+
+  test('has no cause for string messages', () => {
+    const r = ResultFactory.technicalError({ log: false }, 'LoadFailed', 'Loading failed');
+    assert.equal(r.errorDetails.cause, undefined);
+    assert.ok(!('cause' in r.errorDetails.toJSON()));
+  });
+
+  test('includes the serialised cause in the JSON representation, which is rehydrated as-is', () => {
+    const r = ResultFactory.technicalError({ log: false }, 'LoadFailed', new DatabaseError('connection refused'));
+    const json = r.toJSON();
+    const serialisedCause = json.errorDetails.cause as Record<string, unknown>;
+
+    assert.equal(serialisedCause.message, 'connection refused');
+    assert.equal(serialisedCause.code, 'ECONNREFUSED');
+
+    const rehydrated = ResultFactory.fromJSON(JSON.stringify(json));
+    assert.ok(rehydrated instanceof ErrorResult);
+    assert.deepEqual(rehydrated.errorDetails.cause, serialisedCause);
+  });
+});
+
+describe('ErrorResult - toError', () => {
+  test('converts the error result into a throwable error with the original error as its cause', () => {
+    const thrown = new DatabaseError('connection refused');
+    const r = ResultFactory.fromErrorObject({ log: false } as never, thrown);
+
+    assert.ok(r instanceof ErrorResult);
+    const error = r.toError();
+    assert.ok(ErrorResultError.isInstance(error));
+    assert.equal(error.name, 'ErrorResultError');
+    assert.equal(error.message, r.errorDetails.errorMessage);
+    assert.equal(error.cause, thrown);
+    assert.equal(error.errorDetails, r.errorDetails);
+    assert.throws(() => { throw r.toError(); }, ErrorResultError);
+  });
+
+  test('has no cause if the error details have none', () => {
+    const error = new ErrorResult(new UserErrorResultDetails({ errorMessage: 'The name is required' })).toError();
+    assert.equal(error.message, 'The name is required');
+    assert.ok(!('cause' in error));
+  });
+});
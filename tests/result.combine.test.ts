@@ -0,0 +1,170 @@
+import assert from 'node:assert/strict';
+import { describe, test, mock } from 'node:test';
+
+// Types
+import type { Result } from '../src/results/result.types';
+
+// Errors
+import { AssertionFailedError } from '../src/errors/assertion-failed-error';
+
+// Results
+import { ErrorResult } from '../src/results/error-result';
+import { OkResult } from '../src/results/ok-result';
+
+// Error Result Details
+import { TechnicalErrorResultDetails } from '../src/results/error-result-details/technical-error-result-details';
+import { UserErrorResultDetails } from '../src/results/error-result-details/user-error-result-details';
+
+// Factories
+import { ResultFactory } from '../src/results/result.factory';
+
+const context = ['Domain', 'App', 'Service', 'op'];
+
+const userError = (errorCode: string) => ResultFactory.userError({ context, log: false }, errorCode, 'nope');
+const technicalError = (errorCode: string) => ResultFactory.technicalError({ context, log: false }, errorCode, 'boom');
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('ResultFactory - all', () => {
+  test('returns an ok result with a tuple of the ok values', () => {
+    const r = ResultFactory.all([ResultFactory.ok(1), ResultFactory.ok('a')]);
+    const typed: Result<[number, string], never> = r;
+
+    assert.ok(typed instanceof OkResult);
+    assert.deepEqual(typed.value, [1, 'a']);
+  });
+
+  test('returns an ok result with a record of the ok values', () => {
+    const r = ResultFactory.all({ id: ResultFactory.ok(1), name: ResultFactory.ok('a') });
+    const typed: Result<{ id: number, name: string }, never> = r;
+
+    assert.ok(typed instanceof OkResult);
+    assert.deepEqual(typed.value, { id: 1, name: 'a' });
+  });
+
+  test('returns the first error result and unions the error details types', () => {
+    const first: Result<number, UserErrorResultDetails> = userError('UE1');
+    const second: Result<string, TechnicalErrorResultDetails> = technicalError('TE1');
+
+    const r = ResultFactory.all([ResultFactory.ok(true), first, second]);
+    const typed: Result<[boolean, number, string], UserErrorResultDetails | TechnicalErrorResultDetails> = r;
+
+    assert.ok(typed instanceof ErrorResult);
+    assert.equal(typed.errorDetails.errorCode, 'UE1');
+  });
+});
+
+describe('ResultFactory - allSettled', () => {
+  test('collects every ok value and every error details', () => {
+    const settled = ResultFactory.allSettled([ResultFactory.ok(1), userError('UE1'), technicalError('TE1')]);
+
+    assert.deepEqual(settled.okValues, [1, undefined, undefined]);
+    assert.deepEqual(settled.errorDetails.map((e) => e.errorCode), ['UE1', 'TE1']);
+  });
+
+  test('collects record results', () => {
+    const settled = ResultFactory.allSettled({ id: ResultFactory.ok(1), name: userError('UE1') });
+
+    assert.deepEqual(settled.okValues, { id: 1, name: undefined });
+    assert.equal(settled.errorDetails.length, 1);
+  });
+});
+
+describe('ResultFactory - allAsync', () => {
+  test('resolves results, promises and functions into an ok result', async () => {
+    const r = await ResultFactory.allAsync([
+      ResultFactory.ok(1),
+      Promise.resolve(ResultFactory.ok('a')),
+      () => ResultFactory.tryCatchDefaultAsync({ context }, async () => true),
+    ]);
+
+    assert.ok(r instanceof OkResult);
+    assert.deepEqual(r.value, [1, 'a', true]);
+  });
+
+  test('returns the first error result and does not start the remaining functions', async () => {
+    const notStarted = mock.fn(async () => ResultFactory.ok(3));
+    const r = await ResultFactory.allAsync([
+      async () => ResultFactory.ok(1),
+      async () => userError('UE1'),
+      notStarted,
+    ], { concurrency: 1 });
+
+    assert.ok(r instanceof ErrorResult);
+    assert.equal(r.errorDetails.errorCode, 'UE1');
+    assert.equal(notStarted.mock.calls.length, 0);
+  });
+
+  test('returns the first error result to resolve without waiting for the results that are in flight', async () => {
+    const startedAt = Date.now();
+    const r = await ResultFactory.allAsync([
+      async () => { await delay(1000); return ResultFactory.ok(1); },
+      async () => { await delay(20); return userError('UE1'); },
+      async () => technicalError('TE1'),
+    ]);
+
+    assert.ok(r instanceof ErrorResult);
+    assert.equal(r.errorDetails.errorCode, 'TE1');
+    assert.ok(Date.now() - startedAt < 500);
+  });
+
+  test('rejects a concurrency that is not a finite number of at least 1', async () => {
+    mock.method(console, 'error', () => undefined);
+    for (const concurrency of [Number.NaN, 0, -1, Number.POSITIVE_INFINITY]) {
+      assert.throws(() => ResultFactory.allAsync([ResultFactory.ok(1)], { concurrency }), AssertionFailedError);
+      await assert.rejects(ResultFactory.allSettledAsync([ResultFactory.ok(1)], { concurrency }), AssertionFailedError);
+    }
+    mock.restoreAll();
+  });
+
+  test('rejects with the error of a rejected input, including an input that is not reached due to the concurrency', async () => {
+    const err = new Error('boom');
+    const slowOk = delay(200).then(() => ResultFactory.ok(1));
+    const startedAt = Date.now();
+
+    await assert.rejects(ResultFactory.allAsync([slowOk, Promise.reject(err)], { concurrency: 1 }), err);
+    assert.ok(Date.now() - startedAt < 100);
+    await assert.rejects(ResultFactory.allSettledAsync([slowOk, Promise.reject(err)], { concurrency: 1 }), err);
+  });
+
+  test('handles the rejection of an input that is not awaited after stopping on an error', async () => {
+    const lateRejection = delay(20).then(() => Promise.reject(new Error('late')));
+
+    const r = await ResultFactory.allAsync([userError('UE1'), lateRejection], { concurrency: 1 });
+
+    assert.ok(r instanceof ErrorResult);
+    assert.equal(r.errorDetails.errorCode, 'UE1');
+    await delay(40);
+  });
+
+  test('runs at most the given number of functions at the same time', async () => {
+    let running = 0;
+    let maxRunning = 0;
+    const task = (value: number) => async () => {
+      running += 1;
+      maxRunning = Math.max(maxRunning, running);
+      await delay(5);
+      running -= 1;
+      return ResultFactory.ok(value);
+    };
+
+    const r = await ResultFactory.allAsync([task(1), task(2), task(3), task(4), task(5)], { concurrency: 2 });
+
+    assert.ok(r instanceof OkResult);
+    assert.deepEqual(r.value, [1, 2, 3, 4, 5]);
+    assert.equal(maxRunning, 2);
+  });
+});
+
+describe('ResultFactory - allSettledAsync', () => {
+  test('collects every ok value and every error details', async () => {
+    const settled = await ResultFactory.allSettledAsync([
+      async () => ResultFactory.ok(1),
+      async () => userError('UE1'),
+      Promise.resolve(technicalError('TE1')),
+    ], { concurrency: 1 });
+
+    assert.deepEqual(settled.okValues, [1, undefined, undefined]);
+    assert.deepEqual(settled.errorDetails.map((e) => e.errorCode), ['UE1', 'TE1']);
+  });
+});
@@ -0,0 +1,101 @@
+import assert from 'node:assert/strict';
+import { describe, test, beforeEach, afterEach, mock, type Mock } from 'node:test';
+
+// Types
+import type { Result } from '../src/results/result.types';
+
+// Errors
+import { AssertionFailedError } from '../src/errors/assertion-failed-error';
+
+// Results
+import { ErrorResult } from '../src/results/error-result';
+import { defineErrorResultDetails } from '../src/results/define-error-result-details';
+
+// Error Result Details
+import { AbstractErrorResultDetails } from '../src/results/error-result-details/abstract-error-result-details';
+import { ErrorResultDetailsRegistry } from '../src/results/error-result-details-registry';
+
+// Factories
+import { ResultFactory } from '../src/results/result.factory';
+
+let warnSpy: Mock<(typeof console)['warn']>;
+let errorSpy: Mock<(typeof console)['error']>;
+
+beforeEach(() => {
+  warnSpy = mock.method(console, 'warn', () => undefined);
+  errorSpy = mock.method(console, 'error', () => undefined);
+});
+
+afterEach(() => {
+  mock.restoreAll();
+});
+
+const context = ['Domain', 'App', 'Service', 'op'];
+
+const RateLimitedError = defineErrorResultDetails<'RateLimitedError', { retryAfterSeconds: number }>({ tag: 'RateLimitedError', logLevel: 'warn' });
+const ConflictError = defineErrorResultDetails({ tag: 'ConflictError', defaultErrorMessage: 'The resource was changed by someone else.' });
+
+describe('defineErrorResultDetails', () => {
+  test('defines the class, the discriminant tag and the type guards', () => {
+    const r = RateLimitedError.create({ context, properties: { retryAfterSeconds: 30 } }, 'TooManyRequests', 'Slow down');
+
+    assert.equal(RateLimitedError.discriminantTag, 'RateLimitedError');
+    assert.equal(RateLimitedError.ErrorResultDetails.name, 'RateLimitedErrorResultDetails');
+    assert.ok(r instanceof ErrorResult);
+    assert.ok(r.errorDetails instanceof RateLimitedError.ErrorResultDetails);
+    assert.ok(r.errorDetails instanceof AbstractErrorResultDetails);
+    assert.ok(RateLimitedError.isInstance(r.errorDetails));
+    assert.equal(ConflictError.isInstance(r.errorDetails), false);
+    assert.equal(r.errorDetails.discriminantTag, 'RateLimitedError');
+    assert.equal(r.errorDetails.errorCode, 'TooManyRequests');
+    assert.equal(r.errorDetails.errorMessage, 'Slow down');
+    assert.equal(r.errorDetails.properties.retryAfterSeconds, 30);
+  });
+
+  test('narrows results with the result type guard', () => {
+    const r: Result<number, AbstractErrorResultDetails> = RateLimitedError.create({ context, log: false, properties: { retryAfterSeconds: 5 } }, undefined);
+
+    assert.ok(RateLimitedError.isErrorResult(r));
+    assert.equal(r.errorDetails.properties.retryAfterSeconds, 5);
+    assert.equal(ConflictError.isErrorResult(r), false);
+    assert.equal(RateLimitedError.isErrorResult(ResultFactory.ok(1)), false);
+  });
+
+  test('logs at the defined level unless log is false', () => {
+    RateLimitedError.create({ context, properties: { retryAfterSeconds: 1 } }, 'RL');
+    ConflictError.create({ context }, 'Conflict');
+    ConflictError.create({ context, log: false }, 'Conflict');
+
+    assert.equal(warnSpy.mock.calls.length, 1);
+    assert.equal(errorSpy.mock.calls.length, 1);
+  });
+
+  test('uses the default error message', () => {
+    const r = ConflictError.create({ context, log: false }, 'Conflict');
+
+    assert.equal(r.errorDetails.errorMessage, 'The resource was changed by someone else.');
+    assert.deepEqual(r.errorDetails.properties, {});
+  });
+
+  test('registers the error result details for rehydrating from JSON', () => {
+    const original = RateLimitedError.create({ context, log: false, properties: { retryAfterSeconds: 30 } }, 'RL');
+    const r = ResultFactory.fromJSON<unknown, AbstractErrorResultDetails>(JSON.parse(JSON.stringify(original)));
+
+    assert.equal(ErrorResultDetailsRegistry.isRegistered('RateLimitedError'), true);
+    assert.ok(RateLimitedError.isErrorResult(r));
+    assert.equal(r.errorDetails.properties.retryAfterSeconds, 30);
+    assert.equal(r.errorDetails.errorInstanceId, original.errorDetails.errorInstanceId);
+  });
+
+  test('throws when the discriminant tag has already been defined', () => {
+    assert.throws(() => defineErrorResultDetails({ tag: 'ConflictError' }), AssertionFailedError);
+  });
+
+  test('does not compile with a standard discriminant tag', () => {
+    assert.throws(
+      // @ts-expect-error - 'UserError' is a standard discriminant tag
+      () => defineErrorResultDetails({ tag: 'UserError' }),
+      AssertionFailedError,
+    );
+  });
+});
@@ -5,6 +5,7 @@ import { describe, test } from 'node:test';
 import { type HttpApiProblemDetails, HttpStatusCode } from '../src/apis/http.ietf.types';
 
 // Error Result Details
+import { AggregateErrorResultDetails } from '../src/results/error-result-details/aggregate-error-result-details';
 import { ApiErrorResultDetails } from '../src/results/error-result-details/api-error-result-details';
 import { AssertionFailedErrorResultDetails } from '../src/results/error-result-details/assertion-failed-error-result-details';
 import { ShortCircuitedErrorResultDetails } from '../src/results/error-result-details/short-circuited-error-result-details';
@@ -76,6 +77,33 @@ describe('Error Result Classes', () => {
     assert.equal(err.errorInstanceId, details.instance);
   });
 
+  test('AggregateErrorResultDetails holds and filters child error details', () => {
+    const te = new TechnicalErrorResultDetails({ context, errorCode: 'TE', errorMessage: 'boom' });
+    const ue1 = new UserErrorResultDetails({ context, errorCode: 'UE1', errorMessage: 'nope1' });
+    const ue2 = new UserErrorResultDetails({ context, errorCode: 'UE2', errorMessage: 'nope2' });
+    const err = new AggregateErrorResultDetails({ context, correlationId, errorCode: 'AG', errorMessage: 'many' }, [te, ue1, ue2]);
+
+    assert.equal(err.discriminantTag, 'AggregateError');
+    assert.equal(AggregateErrorResultDetails.isInstance(err), true);
+    assert.deepEqual(err.childErrorDetails, [te, ue1, ue2]);
+    assert.deepEqual(err.filterChildErrorDetails(UserErrorResultDetails), [ue1, ue2]);
+    assert.equal(err.hasChildErrorDetailsInstanceOf(TechnicalErrorResultDetails), true);
+    assert.equal(err.hasChildErrorDetailsInstanceOf(ShortCircuitedErrorResultDetails), false);
+  });
+
+  test('AggregateErrorResultDetails formatErrorResult includes every child error', () => {
+    const te = new TechnicalErrorResultDetails({ context, errorCode: 'TE', errorMessage: 'boom' });
+    const ue = new UserErrorResultDetails({ context, errorCode: 'UE', errorMessage: 'nope' });
+    const err = new AggregateErrorResultDetails({ context, errorCode: 'AG', errorMessage: 'many' }, [te, ue]);
+    const formattedContext = LoggingUtils.formatStandardCallerContext(context);
+
+    assert.equal(err.formatErrorResult(), [
+      `${formattedContext} - AG - many`,
+      `  [1] ${formattedContext} - TE - boom`,
+      `  [2] ${formattedContext} - UE - nope`,
+    ].join('\n'));
+  });
+
   test('ErrorInstanceId is auto-generated when not provided', () => {
     const err = new TechnicalErrorResultDetails({ context, correlationId, errorCode: 'TE', errorMessage: 'boom' });
     const generated1 = err.errorInstanceId;
@@ -84,6 +112,6 @@ describe('Error Result Classes', () => {
     assert.ok(typeof generated1 === 'string');
     assert.ok(generated1.length > 0);
     assert.equal(generated1, generated2);
-    assert.match(generated1, /^[A-Z0-9]{4}-[A-Z0-9]{4}$/);
+    assert.match(generated1, /^[A-Z0-9]{4}-[A-Z0-9]{4}-[A-Z0-9]$/);
   });
 });
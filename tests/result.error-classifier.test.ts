@@ -0,0 +1,124 @@
+import assert from 'node:assert/strict';
+import { describe, test, beforeEach, afterEach, mock, type Mock } from 'node:test';
+
+// Types
+import type { ErrorClassifier } from '../src/results/result.types';
+
+// Errors
+import { AssertionFailedError } from '../src/errors/assertion-failed-error';
+
+// Error Result Details
+import { AssertionFailedErrorResultDetails } from '../src/results/error-result-details/assertion-failed-error-result-details';
+import { CancelledErrorResultDetails } from '../src/results/error-result-details/cancelled-error-result-details';
+import { TechnicalErrorResultDetails } from '../src/results/error-result-details/technical-error-result-details';
+import { UserErrorResultDetails } from '../src/results/error-result-details/user-error-result-details';
+
+// Results
+import { ErrorResult } from '../src/results/error-result';
+import { ErrorClassifierRegistry, networkErrorCode } from '../src/results/error-classifier-registry';
+
+// Factories
+import { ResultFactory } from '../src/results/result.factory';
+
+let errorSpy: Mock<(typeof console)['error']>;
+
+class NotFoundError extends Error {
+  override readonly name = 'NotFoundError';
+}
+
+const notFoundClassifier: ErrorClassifier = (err, logProperties) => err instanceof NotFoundError
+  ? ResultFactory.userError(logProperties, 'NOT_FOUND', err.message)
+  : undefined;
+
+beforeEach(() => {
+  mock.method(console, 'debug', () => undefined);
+  mock.method(console, 'warn', () => undefined);
+  errorSpy = mock.method(console, 'error', () => undefined);
+});
+
+afterEach(() => {
+  ErrorClassifierRegistry.unregister(notFoundClassifier);
+  mock.restoreAll();
+});
+
+const context = ['Domain', 'App', 'Service', 'op'];
+
+describe('ErrorClassifierRegistry - default classifiers', () => {
+  test('converts an AbortError into a CancelledErrorResult', () => {
+    const r = ResultFactory.tryCatchDefault({ context }, () => { throw new DOMException('The operation was aborted.', 'AbortError'); });
+
+    assert.ok(r instanceof ErrorResult);
+    assert.ok(r.errorDetails instanceof CancelledErrorResultDetails);
+    assert.equal(errorSpy.mock.calls.length, 0);
+  });
+
+  test('converts a network failure into a TechnicalErrorResult with the NETWORK error code', async () => {
+    const r = await ResultFactory.tryCatchDefaultAsync({ context }, async () => { throw new TypeError('fetch failed'); });
+
+    assert.ok(r instanceof ErrorResult);
+    assert.ok(r.errorDetails instanceof TechnicalErrorResultDetails);
+    assert.equal(r.errorDetails.errorCode, networkErrorCode);
+    assert.equal(errorSpy.mock.calls.length, 1);
+  });
+
+  test('converts any other error into a TechnicalErrorResult', () => {
+    const r = ResultFactory.fromErrorObject({ context }, new TypeError('x is undefined'));
+
+    assert.ok(r.errorDetails instanceof TechnicalErrorResultDetails);
+    assert.equal(r.errorDetails.errorCode, undefined);
+  });
+
+  test('does not classify an AssertionFailedError', () => {
+    const catchAllClassifier: ErrorClassifier = (_err, logProperties) => ResultFactory.userError(logProperties, 'CATCH_ALL', 'Caught');
+    ErrorClassifierRegistry.register(catchAllClassifier);
+    try {
+      const r = ResultFactory.fromErrorObject({ context }, new AssertionFailedError('The id is required'));
+      assert.ok(r.errorDetails instanceof AssertionFailedErrorResultDetails);
+    } finally {
+      ErrorClassifierRegistry.unregister(catchAllClassifier);
+    }
+  });
+});
+
+describe('ErrorClassifierRegistry - custom classifiers', () => {
+  test('are consulted by tryCatchDefault, wrapDefault and fromErrorObject', () => {
+    ErrorClassifierRegistry.register(notFoundClassifier);
+    const fn = (): number => { throw new NotFoundError('The user was not found'); };
+
+    for (const r of [ResultFactory.tryCatchDefault({ context }, fn), ResultFactory.wrapDefault({ context }, fn)(), ResultFactory.fromErrorObject({ context }, new NotFoundError('The user was not found'))]) {
+      assert.ok(r instanceof ErrorResult);
+      assert.ok(r.errorDetails instanceof UserErrorResultDetails);
+      assert.equal(r.errorDetails.errorCode, 'NOT_FOUND');
+      assert.equal(r.errorDetails.errorMessage, 'The user was not found');
+    }
+  });
+
+  test('are consulted by the *CatchDefault operations, which keep the UNEXPECTED error code otherwise', async () => {
+    ErrorClassifierRegistry.register(notFoundClassifier);
+
+    const mapped = ResultFactory.ok(1).mapCatchDefault({ context }, () => { throw new NotFoundError('The order was not found'); });
+    assert.ok(mapped.isError && mapped.errorDetails instanceof UserErrorResultDetails);
+
+    const recovered = ResultFactory.userError({ context }, 'X', 'x').orElseCatchDefault({ context }, () => { throw new NotFoundError('The order was not found'); });
+    assert.ok(recovered.isError && recovered.errorDetails instanceof UserErrorResultDetails);
+
+    const chained = await ResultFactory.tryCatchDefaultAsync({ context }, async () => 1)
+      .andThenCatchDefault({ context }, () => { throw new Error('boom'); });
+    assert.ok(chained.isError && chained.errorDetails instanceof TechnicalErrorResultDetails);
+    assert.equal(chained.errorDetails.errorCode, 'UNEXPECTED');
+  });
+
+  test('take precedence over the default classifiers, and can be unregistered', () => {
+    const abortClassifier: ErrorClassifier = (err, logProperties) => err instanceof Error && err.name === 'AbortError'
+      ? ResultFactory.technicalError(logProperties, 'ABORTED', err)
+      : undefined;
+    const abortError = new DOMException('The operation was aborted.', 'AbortError');
+
+    ErrorClassifierRegistry.register(abortClassifier);
+    assert.equal(ResultFactory.fromErrorObject({ context }, abortError).errorDetails.errorCode, 'ABORTED');
+
+    assert.equal(ErrorClassifierRegistry.unregister(abortClassifier), true);
+    assert.equal(ErrorClassifierRegistry.unregister(abortClassifier), false);
+    assert.ok(ResultFactory.fromErrorObject({ context }, abortError).errorDetails instanceof CancelledErrorResultDetails);
+  });
+});
@@ -5,6 +5,7 @@ import { describe, test, beforeEach, afterEach, mock, type Mock } from 'node:tes
 import { AssertionFailedError } from '../src/errors/assertion-failed-error';
 
 // Error Result Details
+import { AggregateErrorResultDetails } from '../src/results/error-result-details/aggregate-error-result-details';
 import { ApiErrorResultDetails } from '../src/results/error-result-details/api-error-result-details';
 import { AssertionFailedErrorResultDetails } from '../src/results/error-result-details/assertion-failed-error-result-details';
 import { ShortCircuitedErrorResultDetails } from '../src/results/error-result-details/short-circuited-error-result-details';
@@ -149,6 +150,28 @@ describe('ResultFactory - creation helpers', () => {
     assert.equal(r.errorDetails.errorInstanceId, errorInstanceId);
     assertNoConsoleCalls();
   });
+
+  test('aggregateError logs debug and returns AggregateErrorResult with the child error details', () => {
+    const ue = ResultFactory.userError({ context, log: false }, 'UE', 'nope').errorDetails;
+    const te = ResultFactory.technicalError({ context, log: false }, 'TE', 'boom').errorDetails;
+    const r = ResultFactory.aggregateError({ context, correlationId, errorInstanceId }, 'AG', [ue, te]);
+    assert.ok(r instanceof ErrorResult);
+    assert.ok(r.errorDetails instanceof AggregateErrorResultDetails);
+    assert.deepEqual(r.errorDetails.childErrorDetails, [ue, te]);
+    assert.equal(r.errorDetails.errorMessage, '2 error(s) occurred.');
+    assert.equal(r.errorDetails.correlationId, correlationId);
+    assert.equal(r.errorDetails.errorInstanceId, errorInstanceId);
+    assert.ok(debugSpy.mock.calls.length > 0);
+  });
+
+  test('aggregateError with log:false does not log and returns AggregateErrorResult', () => {
+    const ue = ResultFactory.userError({ context, log: false }, 'UE', 'nope').errorDetails;
+    const r = ResultFactory.aggregateError({ context, correlationId, errorInstanceId, log: false }, 'AG', [ue], 'Validation failed');
+    assert.ok(r instanceof ErrorResult);
+    assert.ok(r.errorDetails instanceof AggregateErrorResultDetails);
+    assert.equal(r.errorDetails.errorMessage, 'Validation failed');
+    assertNoConsoleCalls();
+  });
 });
 
 describe('ResultFactory - tryCatchDefault', () => {
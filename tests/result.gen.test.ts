@@ -0,0 +1,120 @@
+import assert from 'node:assert/strict';
+import { describe, test, beforeEach, afterEach, mock, type Mock } from 'node:test';
+
+// Types
+import type { ClassifiedErrorResultDetails, Result } from '../src/results/result.types';
+
+// Results
+import { ErrorResult } from '../src/results/error-result';
+import { OkResult } from '../src/results/ok-result';
+
+// Error Result Details
+import { AssertionFailedErrorResultDetails } from '../src/results/error-result-details/assertion-failed-error-result-details';
+import { TechnicalErrorResultDetails } from '../src/results/error-result-details/technical-error-result-details';
+import { UserErrorResultDetails } from '../src/results/error-result-details/user-error-result-details';
+
+// Factories
+import { ResultFactory } from '../src/results/result.factory';
+
+let errorSpy: Mock<(typeof console)['error']>;
+
+beforeEach(() => {
+  errorSpy = mock.method(console, 'error', () => undefined);
+});
+
+afterEach(() => {
+  mock.restoreAll();
+});
+
+const context = ['Domain', 'App', 'Service', 'op'];
+
+const findUser = (id: string): Result<{ id: string, name: string }, UserErrorResultDetails> =>
+  id ? ResultFactory.ok({ id, name: 'Ann' }) : ResultFactory.userError({ context, log: false }, 'NoUser', 'User not found');
+const countOrders = (name: string): Result<number, TechnicalErrorResultDetails> =>
+  name === 'Ann' ? ResultFactory.ok(3) : ResultFactory.technicalError({ context, log: false }, 'NoOrders', 'boom');
+
+describe('ResultFactory - gen', () => {
+  test('returns an ok result with the returned value and infers the union of the error details types', () => {
+    const r = ResultFactory.gen(function* () {
+      const user = yield* findUser('1');
+      const orderCount = yield* countOrders(user.name);
+      return `${user.name}: ${orderCount}`;
+    });
+    const typed: Result<string, UserErrorResultDetails | TechnicalErrorResultDetails> = r;
+
+    assert.ok(typed instanceof OkResult);
+    assert.equal(typed.value, 'Ann: 3');
+  });
+
+  test('short-circuits on the first error result and runs finally blocks', () => {
+    const afterError = mock.fn();
+    const cleanUp = mock.fn();
+    const r = ResultFactory.gen(function* () {
+      try {
+        const user = yield* findUser('');
+        afterError();
+        return yield* countOrders(user.name);
+      } finally {
+        cleanUp();
+      }
+    });
+
+    assert.ok(r instanceof ErrorResult);
+    assert.ok(r.errorDetails instanceof UserErrorResultDetails);
+    assert.equal(afterError.mock.calls.length, 0);
+    assert.equal(cleanUp.mock.calls.length, 1);
+  });
+
+  test('rethrows errors unless log properties are given', () => {
+    assert.throws(() => ResultFactory.gen(function* () {
+      yield* findUser('1');
+      throw new Error('boom');
+    }), /boom/);
+
+    const r = ResultFactory.gen({ context }, function* () {
+      yield* findUser('1');
+      throw new Error('boom');
+    });
+    const typed: Result<never, UserErrorResultDetails | AssertionFailedErrorResultDetails | ClassifiedErrorResultDetails> = r;
+
+    assert.ok(typed instanceof ErrorResult);
+    assert.ok(typed.errorDetails instanceof TechnicalErrorResultDetails);
+    assert.equal(errorSpy.mock.calls.length, 1);
+  });
+});
+
+describe('ResultFactory - genAsync', () => {
+  test('awaits async results and async result chains', async () => {
+    const r = await ResultFactory.genAsync(async function* () {
+      const user = yield* await Promise.resolve(findUser('1'));
+      const orderCount = yield* ResultFactory.tryCatchDefaultAsync({ context }, async () => 5);
+      return orderCount + user.name.length;
+    });
+
+    assert.ok(r instanceof OkResult);
+    assert.equal(r.value, 8);
+  });
+
+  test('short-circuits on the first error result of an async result chain', async () => {
+    const afterError = mock.fn();
+    const r = await ResultFactory.genAsync(async function* () {
+      yield* ResultFactory.chain(Promise.resolve(countOrders('Bob')));
+      afterError();
+      return 1;
+    });
+
+    assert.ok(r instanceof ErrorResult);
+    assert.ok(r.errorDetails instanceof TechnicalErrorResultDetails);
+    assert.equal(afterError.mock.calls.length, 0);
+  });
+
+  test('converts a rejection into an error result when log properties are given', async () => {
+    const r = await ResultFactory.genAsync({ context }, async function* () {
+      yield* findUser('1');
+      throw new Error('boom');
+    });
+
+    assert.ok(r instanceof ErrorResult);
+    assert.ok(r.errorDetails instanceof TechnicalErrorResultDetails);
+  });
+});
@@ -0,0 +1,149 @@
+import assert from 'node:assert/strict';
+import { describe, test, beforeEach, afterEach, mock, type Mock } from 'node:test';
+
+// Types
+import type { ErrorResultDetailsConstructorOptions, ErrorResultDetailsJSON } from '../src/results/result.types';
+
+// Errors
+import { AssertionFailedError } from '../src/errors/assertion-failed-error';
+
+// Results
+import { ErrorResult } from '../src/results/error-result';
+import { OkResult } from '../src/results/ok-result';
+
+// Error Result Details
+import { AbstractErrorResultDetails } from '../src/results/error-result-details/abstract-error-result-details';
+import { AggregateErrorResultDetails } from '../src/results/error-result-details/aggregate-error-result-details';
+import { ApiErrorResultDetails } from '../src/results/error-result-details/api-error-result-details';
+import { TechnicalErrorResultDetails } from '../src/results/error-result-details/technical-error-result-details';
+import { UserErrorResultDetails } from '../src/results/error-result-details/user-error-result-details';
+import { ValidationErrorResultDetails } from '../src/results/error-result-details/validation-error-result-details';
+import { ErrorResultDetailsRegistry } from '../src/results/error-result-details-registry';
+import { ErrorResultDetailsDiscriminantTags } from '../src/results/error-result-details.types';
+
+// Factories
+import { ResultFactory } from '../src/results/result.factory';
+
+let warnSpy: Mock<(typeof console)['warn']>;
+
+beforeEach(() => {
+  mock.method(console, 'error', () => undefined);
+  warnSpy = mock.method(console, 'warn', () => undefined);
+});
+
+afterEach(() => {
+  mock.restoreAll();
+});
+
+const context = ['Domain', 'App', 'Service', 'op'];
+
+/**
+ * A custom error result details for testing the registry.
+ */
+class RateLimitedErrorResultDetails extends AbstractErrorResultDetails {
+  override readonly discriminantTag = 'RateLimitedError';
+  override readonly name = RateLimitedErrorResultDetails.name;
+
+  constructor(options: ErrorResultDetailsConstructorOptions, readonly retryAfterSeconds: number) {
+    super(options);
+  }
+
+  override toJSON(): ErrorResultDetailsJSON {
+    return { ...super.toJSON(), retryAfterSeconds: this.retryAfterSeconds };
+  }
+}
+
+const roundTrip = (json: unknown) => JSON.parse(JSON.stringify(json));
+
+describe('Result - toJSON / fromJSON', () => {
+  test('round-trips an ok result through a JSON string', () => {
+    const json = JSON.stringify(ResultFactory.ok({ id: 1 }));
+    assert.deepEqual(JSON.parse(json), { discriminantTag: 'OkResult', value: { id: 1 } });
+
+    const r = ResultFactory.fromJSON<{ id: number }>(json);
+    assert.ok(r instanceof OkResult);
+    assert.deepEqual(r.value, { id: 1 });
+  });
+
+  test('round-trips an error result, keeping the errorInstanceId', () => {
+    const original = ResultFactory.userError({ context, correlationId: 'corr-1', log: false }, 'UE', 'nope');
+    const r = ResultFactory.fromJSON(roundTrip(original));
+
+    assert.ok(r instanceof ErrorResult);
+    assert.ok(r.isUserError());
+    assert.ok(r.errorDetails instanceof UserErrorResultDetails);
+    assert.deepEqual(r.errorDetails.context, context);
+    assert.equal(r.errorDetails.errorCode, 'UE');
+    assert.equal(r.errorDetails.errorMessage, 'nope');
+    assert.equal(r.errorDetails.correlationId, 'corr-1');
+    assert.equal(r.errorDetails.errorInstanceId, original.errorDetails.errorInstanceId);
+  });
+
+  test('round-trips the additional state of api, validation and aggregate error details', () => {
+    const apiError = ResultFactory.apiErrorNoLog({ context }, { title: 'Bad Request', status: 400, instance: 'i-1' });
+    const validationError = ResultFactory.validationError({ context, log: false }, 'VE', { email: ['Is required'] });
+    const aggregate = ResultFactory.aggregateError({ context, log: false }, 'AE', [apiError.errorDetails, validationError.errorDetails]);
+
+    const r = ResultFactory.fromJSON(roundTrip(aggregate));
+
+    assert.ok(r instanceof ErrorResult);
+    assert.ok(r.errorDetails instanceof AggregateErrorResultDetails);
+    const [apiChild, validationChild] = r.errorDetails.childErrorDetails;
+    assert.ok(apiChild instanceof ApiErrorResultDetails);
+    assert.deepEqual(apiChild.errorResponse, { title: 'Bad Request', status: 400, instance: 'i-1' });
+    assert.ok(validationChild instanceof ValidationErrorResultDetails);
+    assert.deepEqual(validationChild.getFieldErrors('email'), ['Is required']);
+  });
+
+  test('rehydrates unregistered discriminant tags as technical error details', () => {
+    const json = roundTrip(new ErrorResult(new RateLimitedErrorResultDetails({ errorCode: 'RL', errorMessage: 'slow down' }, 30)));
+    json.errorDetails.discriminantTag = 'UnknownError';
+
+    const r = ResultFactory.fromJSON(json);
+
+    assert.ok(r instanceof ErrorResult);
+    assert.ok(r.errorDetails instanceof TechnicalErrorResultDetails);
+    assert.equal(r.errorDetails.errorMessage, 'slow down');
+    assert.equal(warnSpy.mock.calls.length, 1);
+    assert.match(String(warnSpy.mock.calls[0]?.arguments[0]), /UnknownError/);
+  });
+
+  test('rehydrates custom error details registered in the registry', () => {
+    ErrorResultDetailsRegistry.register('RateLimitedError', (json, options) => new RateLimitedErrorResultDetails(options, json.retryAfterSeconds as number));
+
+    const r = ResultFactory.fromJSON<unknown, AbstractErrorResultDetails>(roundTrip(new ErrorResult(new RateLimitedErrorResultDetails({ errorCode: 'RL' }, 30))));
+
+    assert.ok(r instanceof ErrorResult);
+    assert.ok(r.errorDetails instanceof RateLimitedErrorResultDetails);
+    assert.equal(r.errorDetails.retryAfterSeconds, 30);
+    assert.equal(ErrorResultDetailsRegistry.isRegistered('RateLimitedError'), true);
+  });
+
+  test('throws when registering a discriminant tag that is already registered', () => {
+    assert.throws(
+      () => ErrorResultDetailsRegistry.register(ErrorResultDetailsDiscriminantTags.UserError, (_json, options) => new UserErrorResultDetails(options)),
+      AssertionFailedError,
+    );
+  });
+
+  test('throws when the JSON is not a result', () => {
+    assert.throws(() => ResultFactory.fromJSON('{"foo":1}'), AssertionFailedError);
+  });
+
+  test('throws an AssertionFailedError (not a TypeError) when the JSON is malformed', () => {
+    const malformedJsons = [
+      'null',
+      '"ErrorResult"',
+      '{"discriminantTag":"ErrorResult"}',
+      '{"discriminantTag":"ErrorResult","errorDetails":"boom"}',
+      '{"discriminantTag":"ErrorResult","errorDetails":{"errorMessage":"no tag"}}',
+      '{"discriminantTag":"ErrorResult","errorDetails":{"discriminantTag":42}}',
+      '{"discriminantTag":"ErrorResult","errorDetails":{"discriminantTag":"AggregateError","childErrorDetails":{}}}',
+      '{"discriminantTag":"ErrorResult","errorDetails":{"discriminantTag":"AggregateError","childErrorDetails":[null]}}',
+    ];
+
+    for (const json of malformedJsons) {
+      assert.throws(() => ResultFactory.fromJSON(json), AssertionFailedError, json);
+    }
+  });
+});
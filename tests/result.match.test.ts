@@ -0,0 +1,107 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+
+// Types
+import { Result } from '../src/results/result.types';
+
+// Errors
+import { UnreachableError } from '../src/errors/unreachable-error';
+
+// Error Result Details
+import type { ApiErrorResultDetails } from '../src/results/error-result-details/api-error-result-details';
+import type { UserErrorResultDetails } from '../src/results/error-result-details/user-error-result-details';
+import { matchErrorDetails, matchErrorDetailsAsync } from '../src/results/match-error-details';
+
+const context = ['Domain', 'App', 'Service', 'op'];
+
+const apiError = () => Result.apiErrorNoLog({ context }, { title: 'Bad Request', status: 400 });
+const userError = () => Result.userError({ context, log: false }, 'UE', 'nope');
+
+const load = (result: Result<number, ApiErrorResultDetails | UserErrorResultDetails>) => result;
+const loadWithAnyError = (result: Result<number>) => result;
+
+describe('Result - match', () => {
+  test('calls the ok handler for an ok result', () => {
+    const r = load(Result.ok(41));
+
+    const matched = r.match({
+      ok: (value) => value + 1,
+      ApiError: (errorDetails) => errorDetails.errorResponse.status ?? 0,
+      UserError: () => -1,
+    });
+
+    assert.equal(matched, 42);
+  });
+
+  test('calls the handler for the discriminant tag of the error details', () => {
+    const r = load(apiError());
+
+    const matched = r.match({
+      ok: (value) => value,
+      ApiError: (errorDetails) => errorDetails.errorResponse.status ?? 0,
+      UserError: () => -1,
+    });
+
+    assert.equal(matched, 400);
+  });
+
+  test('calls the fallback handler when there is no handler for the discriminant tag', () => {
+    const r = loadWithAnyError(userError());
+
+    const matched = r.match({
+      ok: () => 'ok',
+      ApiError: () => 'api',
+      _: (errorDetails) => `fallback: ${errorDetails.discriminantTag}`,
+    });
+
+    assert.equal(matched, 'fallback: UserError');
+  });
+
+  test('requires a handler for every discriminant tag unless there is a fallback handler', () => {
+    const r = load(userError());
+
+    // @ts-expect-error - the UserError handler is missing
+    assert.throws(() => r.match({ ok: () => 1, ApiError: () => 2 }), UnreachableError);
+  });
+
+  test('matchAsync awaits the handlers', async () => {
+    const r = load(userError());
+
+    const matched = await r.matchAsync({
+      ok: async (value) => value,
+      ApiError: () => 1,
+      UserError: async () => 2,
+    });
+
+    assert.equal(matched, 2);
+  });
+
+  test('async result chains can be matched', async () => {
+    const matched = await Result.chain(Promise.resolve(Result.ok(1)))
+      .mapNoCatch((value) => value + 1)
+      .match({ ok: (value) => value * 10, _: () => 0 });
+
+    assert.equal(matched, 20);
+  });
+});
+
+describe('matchErrorDetails', () => {
+  test('calls the handler for the discriminant tag of the error details', () => {
+    const errorDetails = load(userError()).errorDetailsOrThrow(() => new Error('unused'));
+
+    const status = matchErrorDetails(errorDetails, {
+      ApiError: (apiErrorDetails) => apiErrorDetails.errorResponse.status ?? 500,
+      UserError: () => 400,
+    });
+
+    assert.equal(status, 400);
+  });
+
+  test('matchErrorDetailsAsync awaits the handlers', async () => {
+    const status = await matchErrorDetailsAsync(apiError().errorDetails, {
+      ApiError: async (apiErrorDetails) => apiErrorDetails.errorResponse.status ?? 500,
+    });
+
+    assert.equal(status, 400);
+  });
+});
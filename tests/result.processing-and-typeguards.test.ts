@@ -194,6 +194,7 @@ describe('Result processing and type guard methods', () => {
     const te = ResultFactory.technicalError({ context, correlationId, errorInstanceId, log: false }, 'TE', 'm');
     const ue = ResultFactory.userError({ context, correlationId, errorInstanceId, log: false }, 'UE', 'm');
     const sc = ResultFactory.shortCircuitedError({ context, correlationId, errorInstanceId, log: false }, 'SC', 'm');
+    const ag = ResultFactory.aggregateError({ context, correlationId, errorInstanceId, log: false }, 'AG', [ue.errorDetails]);
 
     assert.equal(a.isApiError(), true);
     assert.equal(a.isAssertionFailedError(), false);
@@ -209,5 +210,9 @@ describe('Result processing and type guard methods', () => {
 
     assert.equal(sc.isShortCircuitedError(), true);
     assert.equal(sc.isApiError(), false);
+
+    assert.equal(ag.isAggregateError(), true);
+    assert.equal(ag.isUserError(), false);
+    assert.equal(ue.isAggregateError(), false);
   });
 });
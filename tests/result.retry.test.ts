@@ -0,0 +1,144 @@
+import assert from 'node:assert/strict';
+import { describe, test, beforeEach, afterEach, mock, type Mock } from 'node:test';
+
+// Types
+import type { AsyncResult } from '../src/results/result.types';
+
+// Errors
+import { AssertionFailedError } from '../src/errors/assertion-failed-error';
+
+// Results
+import { ErrorResult } from '../src/results/error-result';
+import { OkResult } from '../src/results/ok-result';
+
+// Error Result Details
+import type { ApiErrorResultDetails } from '../src/results/error-result-details/api-error-result-details';
+import { RetryUtils } from '../src/results/retry.utilities';
+
+// Factories
+import { ResultFactory } from '../src/results/result.factory';
+
+let debugSpy: Mock<(typeof console)['debug']>;
+let warnSpy: Mock<(typeof console)['warn']>;
+
+beforeEach(() => {
+  debugSpy = mock.method(console, 'debug', () => undefined);
+  warnSpy = mock.method(console, 'warn', () => undefined);
+  mock.method(console, 'error', () => undefined);
+});
+
+afterEach(() => {
+  mock.restoreAll();
+});
+
+const context = ['Domain', 'App', 'Service', 'op'];
+const logProperties = { context };
+
+const apiError = (status: number) => ResultFactory.apiErrorNoLog({ context }, { title: 'Failed', status });
+
+/**
+ * @returns a function that returns the given results in turn (and the last result thereafter).
+ */
+const sequence = (...results: Array<OkResult<string> | ErrorResult<ApiErrorResultDetails>>) =>
+  mock.fn(async (attempt: number) => results[Math.min(attempt, results.length) - 1] as Awaited<AsyncResult<string, ApiErrorResultDetails>>);
+
+describe('ResultFactory - retryAsync', () => {
+  test('returns the first ok result and logs each attempt', async () => {
+    const fn = sequence(apiError(503), apiError(503), ResultFactory.ok('done'));
+
+    const r = await ResultFactory.retryAsync(fn, { logProperties, maxAttempts: 5, backoff: { type: 'fixed', delayMs: 1 } });
+
+    assert.ok(r instanceof OkResult);
+    assert.equal(r.value, 'done');
+    assert.deepEqual(fn.mock.calls.map((call) => call.arguments[0]), [1, 2, 3]);
+    assert.equal(debugSpy.mock.calls.length, 3);
+    assert.equal(warnSpy.mock.calls.length, 2);
+  });
+
+  test('gives up after the maximum number of attempts and returns the last error result', async () => {
+    const fn = sequence(apiError(500), apiError(502), apiError(503));
+
+    const r = await ResultFactory.retryAsync(fn, { logProperties, maxAttempts: 2 });
+
+    assert.ok(r instanceof ErrorResult);
+    assert.equal(r.errorDetails.errorResponse.status, 502);
+    assert.equal(fn.mock.calls.length, 2);
+  });
+
+  test('does not retry errors that are not retryable', async () => {
+    const fn = sequence(apiError(400), ResultFactory.ok('done'));
+
+    const r = await ResultFactory.retryAsync(fn, { logProperties, maxAttempts: 3 });
+
+    assert.ok(r instanceof ErrorResult);
+    assert.equal(fn.mock.calls.length, 1);
+  });
+
+  test('does not report an error that is not retryable as giving up on the last attempt', async () => {
+    const fn = sequence(apiError(400));
+
+    const r = await ResultFactory.retryAsync(fn, { logProperties, maxAttempts: 1 });
+
+    assert.ok(r instanceof ErrorResult);
+    assert.equal(warnSpy.mock.calls.length, 0);
+    assert.match(String(debugSpy.mock.calls.at(-1)?.arguments.join(' ')), /not retrying as the error is not retryable/);
+  });
+
+  test('throws an AssertionFailedError if the maximum number of attempts is not an integer of at least 1', () => {
+    for (const maxAttempts of [Number.NaN, 0, -1, 1.5, Number.POSITIVE_INFINITY]) {
+      const fn = sequence(apiError(503));
+      assert.throws(() => ResultFactory.retryAsync(fn, { logProperties, maxAttempts }), AssertionFailedError);
+      assert.equal(fn.mock.calls.length, 0);
+    }
+  });
+
+  test('uses the given predicate to decide whether to retry', async () => {
+    const fn = sequence(apiError(409), ResultFactory.ok('done'));
+
+    const r = await ResultFactory.retryAsync(fn, {
+      logProperties,
+      maxAttempts: 3,
+      shouldRetry: (errorDetails) => errorDetails.errorResponse.status === 409,
+    });
+
+    assert.ok(r instanceof OkResult);
+    assert.equal(fn.mock.calls.length, 2);
+  });
+
+  test('does not start another attempt if the deadline would be exceeded', async () => {
+    const fn = sequence(apiError(503), ResultFactory.ok('done'));
+
+    const r = await ResultFactory.retryAsync(fn, { logProperties, maxAttempts: 3, backoff: { type: 'fixed', delayMs: 50 }, deadlineMs: 20 });
+
+    assert.ok(r instanceof ErrorResult);
+    assert.equal(fn.mock.calls.length, 1);
+  });
+});
+
+describe('RetryUtils', () => {
+  test('calculates fixed and exponential delays', () => {
+    assert.equal(RetryUtils.calculateDelayMs(undefined, 1), 0);
+    assert.equal(RetryUtils.calculateDelayMs({ type: 'fixed', delayMs: 100 }, 3), 100);
+    assert.deepEqual(
+      [1, 2, 3, 4].map((retryNumber) => RetryUtils.calculateDelayMs({ type: 'exponential', initialDelayMs: 100, maxDelayMs: 500 }, retryNumber)),
+      [100, 200, 400, 500],
+    );
+    assert.equal(RetryUtils.calculateDelayMs({ type: 'exponential', initialDelayMs: 100, multiplier: 3 }, 3), 900);
+  });
+
+  test('applies jitter to the delay', () => {
+    mock.method(Math, 'random', () => 0.5);
+
+    assert.equal(RetryUtils.calculateDelayMs({ type: 'fixed', delayMs: 100, jitter: 'full' }, 1), 50);
+    assert.equal(RetryUtils.calculateDelayMs({ type: 'fixed', delayMs: 100, jitter: 'equal' }, 1), 75);
+  });
+
+  test('treats technical errors and api errors with a retryable status as transient', () => {
+    assert.equal(RetryUtils.isTransientErrorDetails(ResultFactory.technicalError({ context, log: false }, 'TE', 'boom').errorDetails), true);
+    assert.equal(RetryUtils.isTransientErrorDetails(apiError(503).errorDetails), true);
+    assert.equal(RetryUtils.isTransientErrorDetails(apiError(429).errorDetails), true);
+    assert.equal(RetryUtils.isTransientErrorDetails(apiError(404).errorDetails), false);
+    assert.equal(RetryUtils.isTransientErrorDetails(apiError(501).errorDetails), false);
+    assert.equal(RetryUtils.isTransientErrorDetails(ResultFactory.userError({ context, log: false }, 'UE', 'nope').errorDetails), false);
+  });
+});
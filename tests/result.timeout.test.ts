@@ -0,0 +1,211 @@
+import assert from 'node:assert/strict';
+import { describe, test, beforeEach, afterEach, mock, type Mock } from 'node:test';
+
+// Errors
+import { AssertionFailedError } from '../src/errors/assertion-failed-error';
+
+// Results
+import { ErrorResult } from '../src/results/error-result';
+import { OkResult } from '../src/results/ok-result';
+
+// Error Result Details
+import { CancelledErrorResultDetails } from '../src/results/error-result-details/cancelled-error-result-details';
+import { TechnicalErrorResultDetails } from '../src/results/error-result-details/technical-error-result-details';
+import { TimeoutErrorResultDetails } from '../src/results/error-result-details/timeout-error-result-details';
+import { UserErrorResultDetails } from '../src/results/error-result-details/user-error-result-details';
+
+// Factories
+import { ResultFactory } from '../src/results/result.factory';
+
+// Utilities
+import { RetryUtils } from '../src/results/retry.utilities';
+
+let warnSpy: Mock<(typeof console)['warn']>;
+let debugSpy: Mock<(typeof console)['debug']>;
+
+beforeEach(() => {
+  debugSpy = mock.method(console, 'debug', () => undefined);
+  warnSpy = mock.method(console, 'warn', () => undefined);
+  mock.method(console, 'error', () => undefined);
+});
+
+afterEach(() => {
+  mock.restoreAll();
+});
+
+const context = ['Domain', 'App', 'Service', 'op'];
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * @returns a promise that resolves with the given value after the given delay, or rejects with the signal's reason when aborted.
+ */
+const abortableDelay = <T>(ms: number, value: T, signal: AbortSignal) => new Promise<T>((resolve, reject) => {
+  const timeoutId = setTimeout(() => resolve(value), ms);
+  signal.addEventListener('abort', () => {
+    clearTimeout(timeoutId);
+    reject(signal.reason);
+  }, { once: true });
+});
+
+describe('ResultFactory - timeoutError / cancelledError', () => {
+  test('timeoutError creates TimeoutErrorResultDetails and logs at the Warn level', () => {
+    const r = ResultFactory.timeoutError({ context }, 'TO', 50);
+
+    assert.ok(r.isTimeoutError());
+    assert.equal(r.errorDetails.timeoutMs, 50);
+    assert.equal(r.errorDetails.errorMessage, 'Timed out after 50ms.');
+    assert.equal(warnSpy.mock.calls.length, 1);
+  });
+
+  test('cancelledError creates CancelledErrorResultDetails and logs at the Debug level', () => {
+    const r = ResultFactory.cancelledError({ context }, 'C');
+
+    assert.ok(r.isCancelledError());
+    assert.equal(r.errorDetails.errorMessage, 'The operation was cancelled.');
+    assert.equal(debugSpy.mock.calls.length, 1);
+  });
+
+  test('timeout error details round-trip through JSON and are transient', () => {
+    const r = ResultFactory.fromJSON(JSON.stringify(ResultFactory.timeoutError({ context, log: false }, 'TO', 50)));
+
+    assert.ok(r.isTimeoutError());
+    assert.equal(r.errorDetails.timeoutMs, 50);
+    assert.equal(RetryUtils.isTransientErrorDetails(r.errorDetails), true);
+    assert.equal(RetryUtils.isTransientErrorDetails(new CancelledErrorResultDetails({ context })), false);
+  });
+});
+
+describe('ResultFactory - tryCatchDefaultAsync with options', () => {
+  test('returns an ok result when the function completes within the timeout', async () => {
+    const r = await ResultFactory.tryCatchDefaultAsync({ context }, (signal) => abortableDelay(1, 42, signal), { timeoutMs: 1000 });
+
+    assert.ok(r instanceof OkResult);
+    assert.equal(r.value, 42);
+  });
+
+  test('returns a TimeoutErrorResult and aborts the signal given to the function when the timeout elapses', async () => {
+    let givenSignal: AbortSignal | undefined;
+    const r = await ResultFactory.tryCatchDefaultAsync({ context }, (signal) => {
+      givenSignal = signal;
+      return abortableDelay(1000, 42, signal);
+    }, { timeoutMs: 5 });
+
+    assert.ok(r instanceof ErrorResult);
+    assert.ok(r.errorDetails instanceof TimeoutErrorResultDetails);
+    assert.equal(r.errorDetails.timeoutMs, 5);
+    assert.equal(givenSignal?.aborted, true);
+    assert.equal((givenSignal?.reason as DOMException).name, 'TimeoutError');
+    assert.equal(warnSpy.mock.calls.length, 1);
+  });
+
+  test('returns a CancelledErrorResult when the given signal is aborted', async () => {
+    const controller = new AbortController();
+    const chain = ResultFactory.tryCatchDefaultAsync({ context }, (signal) => abortableDelay(1000, 42, signal), { signal: controller.signal });
+    controller.abort();
+    const r = await chain;
+
+    assert.ok(r instanceof ErrorResult);
+    assert.ok(r.errorDetails instanceof CancelledErrorResultDetails);
+  });
+
+  test('does not call the function when the given signal is already aborted', async () => {
+    const fn = mock.fn(async () => 42);
+    const r = await ResultFactory.tryCatchDefaultAsync({ context }, fn, { signal: AbortSignal.abort() });
+
+    assert.ok(r.isCancelledError());
+    assert.equal(fn.mock.calls.length, 0);
+  });
+
+  test('treats a timeout of Infinity as no timeout, and throws an AssertionFailedError for an invalid timeout', async () => {
+    const r = await ResultFactory.tryCatchDefaultAsync({ context }, (signal) => abortableDelay(20, 42, signal), { timeoutMs: Number.POSITIVE_INFINITY });
+    assert.ok(r instanceof OkResult);
+    assert.equal(r.value, 42);
+
+    for (const timeoutMs of [Number.NaN, -1, 2 ** 31]) {
+      assert.throws(() => ResultFactory.tryCatchDefaultAsync({ context }, async () => 42, { timeoutMs }), AssertionFailedError);
+      assert.throws(() => ResultFactory.tryCatchAsync(async () => 42, () => ResultFactory.userError({ context, log: false }, 'UE', 'nope'), { timeoutMs }), AssertionFailedError);
+    }
+  });
+
+  test('still converts a rejected function into a TechnicalErrorResult', async () => {
+    const r = await ResultFactory.tryCatchDefaultAsync({ context }, async () => {
+      throw new Error('boom');
+    }, { timeoutMs: 1000 });
+
+    assert.ok(r instanceof ErrorResult);
+    assert.ok(r.errorDetails instanceof TechnicalErrorResultDetails);
+  });
+});
+
+describe('ResultFactory - tryCatchAsync with options', () => {
+  test('returns a TimeoutErrorResult without logging instead of calling the error result factory', async () => {
+    const errorResultFactory = mock.fn(() => ResultFactory.userError({ context, log: false }, 'UE', 'nope'));
+    const r = await ResultFactory.tryCatchAsync((signal) => abortableDelay(1000, 42, signal), errorResultFactory, { timeoutMs: 5 });
+
+    assert.ok(r.isTimeoutError());
+    assert.equal(errorResultFactory.mock.calls.length, 0);
+    assert.equal(warnSpy.mock.calls.length, 0);
+  });
+
+  test('gives the TimeoutErrorResult and CancelledErrorResult the log properties and error code of the options', async () => {
+    const logProperties = { context, correlationId: 'corr-1' };
+    const errorResultFactory = () => ResultFactory.userError({ context, log: false }, 'UE', 'nope');
+
+    const timedOut = await ResultFactory.tryCatchAsync((signal) => abortableDelay(1000, 42, signal), errorResultFactory, { timeoutMs: 5, logProperties, errorCode: 'LoadFailed' });
+    const cancelled = await ResultFactory.tryCatchAsync(async () => 42, errorResultFactory, { signal: AbortSignal.abort(), logProperties, errorCode: 'LoadFailed' });
+
+    for (const r of [timedOut, cancelled]) {
+      assert.ok(r.isError);
+      assert.deepEqual(r.errorDetails.context, context);
+      assert.equal(r.errorDetails.correlationId, 'corr-1');
+      assert.equal(r.errorDetails.errorCode, 'LoadFailed');
+    }
+    assert.equal(warnSpy.mock.calls.length, 0);
+  });
+
+  test('calls the error result factory when the function rejects', async () => {
+    const r = await ResultFactory.tryCatchAsync(async () => {
+      throw new Error('boom');
+    }, () => ResultFactory.userError({ context, log: false }, 'UE', 'nope'), { timeoutMs: 1000 });
+
+    assert.ok(r instanceof ErrorResult);
+    assert.ok(r.errorDetails instanceof UserErrorResultDetails);
+  });
+});
+
+describe('ResultFactory - wrapDefaultAsync / wrapAsync with options', () => {
+  test('applies the timeout to each call of the wrapped function, and aborts its signal', async () => {
+    const signals: AbortSignal[] = [];
+    const wrapped = ResultFactory.wrapDefaultAsync({ context }, async (ms: number, signal: AbortSignal) => {
+      signals.push(signal);
+      return abortableDelay(ms, ms, signal);
+    }, { timeoutMs: 20 });
+
+    const r1 = await wrapped(1);
+    assert.ok(r1 instanceof OkResult);
+    assert.equal(r1.value, 1);
+
+    const r2 = await wrapped(200);
+    assert.ok(r2.isTimeoutError());
+    assert.deepEqual(signals.map((signal) => signal.aborted), [false, true]);
+  });
+
+  test('aborts the signal given to the wrapped function when the signal is aborted mid-flight', async () => {
+    const controller = new AbortController();
+    let wasAborted = false;
+    const wrapped = ResultFactory.wrapAsync(async (n: number, signal: AbortSignal) => {
+      await delay(20);
+      wasAborted = signal.aborted;
+      return n;
+    }, () => ResultFactory.userError({ context, log: false }, 'UE', 'nope'), { signal: controller.signal });
+
+    const chain = wrapped(1);
+    setTimeout(() => controller.abort(), 5);
+    const r = await chain;
+    assert.ok(r.isCancelledError());
+
+    await delay(30);
+    assert.equal(wasAborted, true);
+  });
+});
@@ -0,0 +1,128 @@
+import assert from 'node:assert/strict';
+import { describe, test, beforeEach, afterEach, mock, type Mock } from 'node:test';
+
+// Types
+import type { Result } from '../src/results/result.types';
+import { ErrorResultDetailsDiscriminantTags } from '../src/results/error-result-details.types';
+
+// Results
+import { ErrorResult } from '../src/results/error-result';
+import { OkResult } from '../src/results/ok-result';
+
+// Error Result Details
+import { ValidationErrorResultDetails } from '../src/results/error-result-details/validation-error-result-details';
+
+// Factories
+import { ResultFactory } from '../src/results/result.factory';
+
+let debugSpy: Mock<(typeof console)['debug']>;
+
+beforeEach(() => {
+  debugSpy = mock.method(console, 'debug', () => undefined);
+});
+
+afterEach(() => {
+  mock.restoreAll();
+});
+
+const context = ['Domain', 'App', 'Service', 'op'];
+
+interface SignUpForm {
+  email: string;
+  name: string;
+  password: string;
+  confirmPassword: string;
+}
+
+const required = (value: string) => (value ? undefined : 'Is required');
+const isEmail = (value: string) => (value.includes('@') ? undefined : 'Is not an email address');
+
+describe('ValidationErrorResultDetails', () => {
+  test('has the ValidationError discriminant tag and exposes the field errors', () => {
+    const r = ResultFactory.validationError({ context, log: false }, 'InvalidForm', { email: ['Is required'] });
+
+    assert.ok(r instanceof ErrorResult);
+    assert.ok(r.isValidationError());
+    assert.equal(r.errorDetails.discriminantTag, ErrorResultDetailsDiscriminantTags.ValidationError);
+    assert.equal(r.errorDetails.errorCode, 'InvalidForm');
+    assert.equal(r.errorDetails.errorMessage, 'One or more validation errors occurred.');
+    assert.deepEqual(r.errorDetails.fieldPaths, ['email']);
+    assert.deepEqual(r.errorDetails.getFieldErrors('email'), ['Is required']);
+    assert.deepEqual(r.errorDetails.getFieldErrors('name'), []);
+    assert.equal(r.errorDetails.hasFieldErrors('email'), true);
+    assert.equal(r.errorDetails.hasFieldErrors('name'), false);
+  });
+
+  test('logs at the Debug level unless log is false', () => {
+    ResultFactory.validationError({ context }, 'InvalidForm', { email: ['Is required'] });
+    assert.equal(debugSpy.mock.calls.length, 1);
+
+    ResultFactory.validationError({ context, log: false }, 'InvalidForm', { email: ['Is required'] });
+    assert.equal(debugSpy.mock.calls.length, 1);
+  });
+
+  test('converts to and from the ASP.NET validation problem details errors', () => {
+    const details = ValidationErrorResultDetails.fromAspNetValidationProblemDetails({ errorCode: 'InvalidForm' }, {
+      title: 'One or more validation errors occurred.',
+      status: 400,
+      instance: '/sign-up',
+      errors: { 'Email': ['The Email field is required.'], 'Address.Postcode': ['Too short', 'Not a number'] },
+    });
+
+    assert.equal(details.errorMessage, 'One or more validation errors occurred.');
+    assert.equal(details.errorInstanceId, '/sign-up');
+    assert.deepEqual(details.getFieldErrors('Address.Postcode'), ['Too short', 'Not a number']);
+    assert.deepEqual(details.toAspNetValidationErrors(), {
+      'Email': ['The Email field is required.'],
+      'Address.Postcode': ['Too short', 'Not a number'],
+    });
+  });
+
+  test('formats the error result with the errors of each field', () => {
+    const r = ResultFactory.validationError({ context, log: false }, 'InvalidForm', { email: ['Is required', 'Is not an email address'] });
+    const formatted = r.errorDetails.formatErrorResult();
+
+    assert.match(formatted, /One or more validation errors occurred\./);
+    assert.match(formatted, /\n  email: Is required; Is not an email address/);
+  });
+});
+
+describe('ResultFactory - validate', () => {
+  test('returns an ok result with the value when every rule passes', () => {
+    const form: SignUpForm = { email: 'a@b.c', name: 'Ann', password: 'x', confirmPassword: 'x' };
+    const r = ResultFactory.validate(form)
+      .field('email', required, isEmail)
+      .field('name', required)
+      .toResult({ context, log: false }, 'InvalidForm');
+    const typed: Result<SignUpForm, ValidationErrorResultDetails> = r;
+
+    assert.ok(typed instanceof OkResult);
+    assert.equal(typed.value, form);
+  });
+
+  test('accumulates every failing rule by field path', () => {
+    const form: SignUpForm = { email: '', name: '', password: 'x', confirmPassword: 'y' };
+    const r = ResultFactory.validate(form)
+      .field('email', required, isEmail)
+      .field('name', required)
+      .check('confirmPassword', (f) => (f.password === f.confirmPassword ? undefined : 'Passwords do not match'))
+      .toResult({ context, log: false }, 'InvalidForm');
+
+    assert.ok(r instanceof ErrorResult);
+    assert.ok(r.errorDetails instanceof ValidationErrorResultDetails);
+    assert.deepEqual(r.errorDetails.fieldErrors, {
+      email: ['Is required', 'Is not an email address'],
+      name: ['Is required'],
+      confirmPassword: ['Passwords do not match'],
+    });
+  });
+
+  test('accepts rules that return multiple messages and ignores empty arrays', () => {
+    const validator = ResultFactory.validate({ tags: ['a', ''] })
+      .field('tags', (tags) => tags.flatMap((tag, i) => (tag ? [] : [`Tag ${i} is empty`])))
+      .check('other', () => []);
+
+    assert.equal(validator.isValid, false);
+    assert.deepEqual(validator.fieldErrors, { tags: ['Tag 1 is empty'] });
+  });
+});